@@ -7,8 +7,18 @@ import { AuthProvider } from "@/hooks/useAuth";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Students from "./pages/Students";
+import StudentDetail from "./pages/StudentDetail";
+import Interventions from "./pages/Interventions";
+import Cases from "./pages/Cases";
 import Upload from "./pages/Upload";
 import Reports from "./pages/Reports";
+import ModelSettings from "./pages/ModelSettings";
+import ModelPerformance from "./pages/ModelPerformance";
+import Fairness from "./pages/Fairness";
+import ImportHistory from "./pages/ImportHistory";
+import PredictionRuns from "./pages/PredictionRuns";
+import Settings from "./pages/Settings";
+import Users from "./pages/Users";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -24,8 +34,18 @@ const App = () => (
             <Route path="/" element={<Index />} />
             <Route path="/auth" element={<Auth />} />
             <Route path="/students" element={<Students />} />
+            <Route path="/students/:id" element={<StudentDetail />} />
+            <Route path="/interventions" element={<Interventions />} />
+            <Route path="/cases" element={<Cases />} />
             <Route path="/upload" element={<Upload />} />
+            <Route path="/import-history" element={<ImportHistory />} />
             <Route path="/reports" element={<Reports />} />
+            <Route path="/risk-model" element={<ModelSettings />} />
+            <Route path="/model-performance" element={<ModelPerformance />} />
+            <Route path="/prediction-runs" element={<PredictionRuns />} />
+            <Route path="/fairness" element={<Fairness />} />
+            <Route path="/settings" element={<Settings />} />
+            <Route path="/users" element={<Users />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
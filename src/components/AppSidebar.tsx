@@ -2,9 +2,18 @@ import { NavLink, useLocation } from 'react-router-dom';
 import {
   LayoutDashboard,
   Users,
+  ClipboardList,
+  KanbanSquare,
   Upload,
   FileText,
   GraduationCap,
+  SlidersHorizontal,
+  Activity,
+  Scale,
+  History,
+  Timer,
+  Settings,
+  UserCog,
 } from 'lucide-react';
 import {
   Sidebar,
@@ -17,8 +26,11 @@ import {
   SidebarMenuItem,
   useSidebar,
 } from '@/components/ui/sidebar';
+import { useAuth } from '@/hooks/useAuth';
+import { Permission } from '@/lib/permissions';
 
-const navigationItems = [
+// Items with a permission are only shown to roles that have it
+const navigationItems: { title: string; url: string; icon: typeof Users; permission?: Permission }[] = [
   {
     title: 'Dashboard',
     url: '/',
@@ -29,21 +41,72 @@ const navigationItems = [
     url: '/students',
     icon: Users,
   },
+  {
+    title: 'Interventions',
+    url: '/interventions',
+    icon: ClipboardList,
+  },
+  {
+    title: 'Cases',
+    url: '/cases',
+    icon: KanbanSquare,
+  },
   {
     title: 'Upload Data',
     url: '/upload',
+    permission: 'imports:manage',
     icon: Upload,
   },
+  {
+    title: 'Import History',
+    url: '/import-history',
+    icon: History,
+  },
   {
     title: 'Reports',
     url: '/reports',
     icon: FileText,
   },
+  {
+    title: 'Risk Model',
+    url: '/risk-model',
+    permission: 'model:manage',
+    icon: SlidersHorizontal,
+  },
+  {
+    title: 'Model Performance',
+    url: '/model-performance',
+    permission: 'predictions:run',
+    icon: Activity,
+  },
+  {
+    title: 'Prediction Runs',
+    url: '/prediction-runs',
+    icon: Timer,
+  },
+  {
+    title: 'Fairness Audit',
+    url: '/fairness',
+    icon: Scale,
+  },
+  {
+    title: 'Settings',
+    url: '/settings',
+    permission: 'settings:manage',
+    icon: Settings,
+  },
+  {
+    title: 'Users',
+    url: '/users',
+    permission: 'users:manage',
+    icon: UserCog,
+  },
 ];
 
 export function AppSidebar() {
   const { state } = useSidebar();
   const location = useLocation();
+  const { can } = useAuth();
   const collapsed = state === 'collapsed';
 
   const isActive = (path: string) => {
@@ -78,7 +141,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>Navigation</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {navigationItems.map((item) => (
+              {navigationItems.filter(item => !item.permission || can(item.permission)).map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton asChild>
                     <NavLink to={item.url} className={getNavClass(item.url)} end={item.url === '/'}>
@@ -0,0 +1,235 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { AlertCircle, Columns3, Save } from 'lucide-react';
+import { SheetData, cellToText } from '@/lib/spreadsheet';
+import {
+  ColumnMapping,
+  MappingPreset,
+  STUDENT_FIELDS,
+  applyPreset,
+  duplicateFields,
+  findMatchingPreset,
+  missingRequiredFields,
+  suggestMapping,
+} from '@/lib/columnMapping';
+
+interface ColumnMappingStepProps {
+  sheet: SheetData;
+  mapping: ColumnMapping;
+  onMappingChange: (mapping: ColumnMapping) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const IGNORE = 'ignore';
+const SUGGESTED = 'suggested';
+
+const fieldLabels = Object.fromEntries(STUDENT_FIELDS.map(field => [field.key, field.label]));
+
+export function ColumnMappingStep({ sheet, mapping, onMappingChange, onConfirm, onCancel }: ColumnMappingStepProps) {
+  const [presets, setPresets] = useState<MappingPreset[]>([]);
+  const [presetId, setPresetId] = useState(SUGGESTED);
+  const [presetName, setPresetName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchPresets();
+  }, []);
+
+  const fetchPresets = async () => {
+    const { data, error } = await supabase
+      .from('import_mapping_presets')
+      .select('id, name, source_headers, mapping')
+      .order('name');
+
+    if (error) {
+      console.error('Fetch mapping presets error:', error);
+      return;
+    }
+
+    const loaded = (data || []).map(row => ({ ...row, mapping: row.mapping as ColumnMapping }));
+    setPresets(loaded);
+
+    // The same export from the same source maps itself
+    const match = findMatchingPreset(sheet.headers, loaded);
+    if (match) {
+      choosePreset(match.id, loaded);
+      toast({
+        title: 'Mapping Preset Applied',
+        description: `Columns were mapped using the "${match.name}" preset`,
+      });
+    }
+  };
+
+  const choosePreset = (id: string, available = presets) => {
+    setPresetId(id);
+    const preset = available.find(p => p.id === id);
+    setPresetName(preset?.name ?? '');
+    onMappingChange(preset ? applyPreset(sheet.headers, preset) : suggestMapping(sheet.headers));
+  };
+
+  const savePreset = async () => {
+    const name = presetName.trim();
+    if (!name) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('import_mapping_presets')
+        .upsert(
+          { name, source_headers: sheet.headers, mapping, created_by: user?.id ?? null },
+          { onConflict: 'name' }
+        )
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      toast({
+        title: 'Preset Saved',
+        description: `Files with these columns will be mapped with "${name}" automatically`,
+      });
+      await fetchPresets();
+      setPresetId(data.id);
+    } catch (error) {
+      toast({
+        title: 'Save Failed',
+        description: (error as Error).message || 'Failed to save mapping preset',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const missing = missingRequiredFields(mapping);
+  const duplicates = duplicateFields(mapping);
+  const sampleValues = (index: number) =>
+    sheet.rows
+      .map(row => row[index] ?? null)
+      .filter(value => value !== null)
+      .slice(0, 3)
+      .map(cellToText)
+      .join(', ');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Columns3 className="h-5 w-5" />
+          Map Columns
+        </CardTitle>
+        <CardDescription>
+          Match each column in {sheet.name} to a student field, or ignore it. Suggestions are based on the column names.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Preset</Label>
+            <Select value={presetId} onValueChange={(id) => choosePreset(id)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={SUGGESTED}>Suggested from column names</SelectItem>
+                {presets.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="preset-name">Save this mapping as</Label>
+            <div className="flex gap-2">
+              <Input
+                id="preset-name"
+                value={presetName}
+                placeholder="e.g. Registrar monthly export"
+                onChange={(e) => setPresetName(e.target.value)}
+              />
+              <Button variant="outline" onClick={savePreset} disabled={saving || !presetName.trim()} className="gap-2">
+                <Save className="h-4 w-4" />
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Column</TableHead>
+              <TableHead>Sample values</TableHead>
+              <TableHead>Maps to</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sheet.headers.map((header, index) => (
+              <TableRow key={`${header}-${index}`}>
+                <TableCell className="font-medium">{header || <span className="text-muted-foreground">(no header)</span>}</TableCell>
+                <TableCell className="text-sm text-muted-foreground max-w-xs truncate">{sampleValues(index) || '—'}</TableCell>
+                <TableCell>
+                  <Select
+                    value={mapping[header] ?? IGNORE}
+                    onValueChange={(value) => onMappingChange({ ...mapping, [header]: value === IGNORE ? null : value })}
+                  >
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={IGNORE}>Ignore column</SelectItem>
+                      {STUDENT_FIELDS.map(field => (
+                        <SelectItem key={field.key} value={field.key}>
+                          {field.label}{field.required ? ' *' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {(missing.length > 0 || duplicates.length > 0) && (
+          <Alert className="border-destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription className="space-y-1">
+              {missing.length > 0 && (
+                <p>
+                  Required fields not mapped:{' '}
+                  {missing.map(field => <Badge key={field.key} variant="outline" className="mr-1">{field.label}</Badge>)}
+                </p>
+              )}
+              {duplicates.length > 0 && (
+                <p>Mapped from more than one column: {duplicates.map(field => fieldLabels[field]).join(', ')}</p>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={missing.length > 0 || duplicates.length > 0}>
+            Continue
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus } from 'lucide-react';
+
+interface DepartmentPickerProps {
+  // Departments that already have students
+  options: string[];
+  value: string[];
+  onChange: (departments: string[]) => void;
+}
+
+// Multi-select of departments; new ones can be added before any of their students are uploaded
+export function DepartmentPicker({ options, value, onChange }: DepartmentPickerProps) {
+  const [newDepartment, setNewDepartment] = useState('');
+  const allOptions = [...new Set([...options, ...value])].sort();
+
+  const toggle = (department: string, checked: boolean) => {
+    onChange(checked ? [...value, department] : value.filter(d => d !== department));
+  };
+
+  const addDepartment = () => {
+    const department = newDepartment.trim();
+    if (department && !value.includes(department)) {
+      onChange([...value, department]);
+    }
+    setNewDepartment('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+        {allOptions.map(department => (
+          <div key={department} className="flex items-center gap-2">
+            <Checkbox
+              id={`department-${department}`}
+              checked={value.includes(department)}
+              onCheckedChange={(checked) => toggle(department, checked === true)}
+            />
+            <Label htmlFor={`department-${department}`} className="font-normal">{department}</Label>
+          </div>
+        ))}
+        {allOptions.length === 0 && (
+          <p className="col-span-2 text-sm text-muted-foreground">No departments yet</p>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Input
+          value={newDepartment}
+          onChange={(e) => setNewDepartment(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addDepartment();
+            }
+          }}
+          placeholder="Add another department"
+        />
+        <Button type="button" variant="outline" size="icon" onClick={addDepartment} disabled={!newDepartment.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CheckCircle, Download, ListChecks, XCircle } from 'lucide-react';
+import { STUDENT_FIELDS } from '@/lib/columnMapping';
+import { ImportRow } from '@/lib/importValidation';
+import { IMPORT_MODE_LABELS, ImportMode, ImportPlan, RowAction } from '@/lib/importDiff';
+
+interface ImportPreviewProps {
+  rows: ImportRow[];
+  // Null while existing students are being looked up
+  plan: ImportPlan | null;
+  mode: ImportMode;
+  onModeChange: (mode: ImportMode) => void;
+  onEdit: (rowNumber: number, field: string, value: string) => void;
+  onConfirm: () => void;
+  onBack: () => void;
+  onDownloadErrors: () => void;
+}
+
+const PAGE_SIZE = 50;
+
+const ACTION_LABELS: Record<RowAction, string> = {
+  insert: 'New',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  skip: 'Skip',
+};
+
+const fieldLabels = Object.fromEntries(STUDENT_FIELDS.map(field => [field.key, field.label]));
+
+export function ImportPreview({ rows, plan, mode, onModeChange, onEdit, onConfirm, onBack, onDownloadErrors }: ImportPreviewProps) {
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [page, setPage] = useState(0);
+
+  const invalidCount = rows.filter(row => row.errors.length > 0).length;
+  const validCount = rows.length - invalidCount;
+  const fields = STUDENT_FIELDS.filter(field => field.required || rows.some(row => row.values[field.key] !== undefined));
+  const visibleRows = errorsOnly ? rows.filter(row => row.errors.length > 0) : rows;
+  const pageCount = Math.max(Math.ceil(visibleRows.length / PAGE_SIZE), 1);
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = visibleRows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+  const plannedByRow = new Map(plan?.rows.map(p => [p.row.rowNumber, p]));
+  const writeCount = plan ? plan.inserts.length + plan.updates.length : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Review Rows
+        </CardTitle>
+        <CardDescription>
+          Rows with problems are not imported. Fix them inline, or download the error report and correct the source file.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Import mode</Label>
+            <Select value={mode} onValueChange={(value) => onModeChange(value as ImportMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(IMPORT_MODE_LABELS) as ImportMode[]).map(key => (
+                  <SelectItem key={key} value={key}>{IMPORT_MODE_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">Rows are matched to existing students by Student ID.</p>
+          </div>
+          <div className="space-y-2 text-sm">
+            <Label>Changes</Label>
+            {plan ? (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline">{plan.inserts.length} new</Badge>
+                  <Badge variant="outline">{plan.updates.length} changed</Badge>
+                  <Badge variant="outline">{plan.unchanged.length} unchanged</Badge>
+                  {plan.skipped.length > 0 && <Badge variant="secondary">{plan.skipped.length} skipped by mode</Badge>}
+                </div>
+                {plan.updates.length > 0 && (
+                  <p className="text-muted-foreground">
+                    Fields changing:{' '}
+                    {Object.entries(plan.fieldCounts)
+                      .sort((a, b) => b[1] - a[1])
+                      .map(([field, count]) => `${fieldLabels[field] ?? field} (${count})`)
+                      .join(', ')}
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="text-muted-foreground">Comparing with existing students...</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2 text-sm">
+            <Badge className="gap-1 bg-risk-low text-risk-low-foreground hover:bg-risk-low/80">
+              <CheckCircle className="h-3 w-3" />
+              {validCount} ready
+            </Badge>
+            <Badge variant={invalidCount > 0 ? 'destructive' : 'outline'} className="gap-1">
+              <XCircle className="h-3 w-3" />
+              {invalidCount} with errors
+            </Badge>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="errors-only"
+                checked={errorsOnly}
+                onCheckedChange={(checked) => {
+                  setErrorsOnly(checked);
+                  setPage(0);
+                }}
+              />
+              <Label htmlFor="errors-only">Only rows with errors</Label>
+            </div>
+            <Button variant="outline" size="sm" onClick={onDownloadErrors} disabled={invalidCount === 0} className="gap-2">
+              <Download className="h-4 w-4" />
+              Error Report
+            </Button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Row</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Action</TableHead>
+                {fields.map(field => (
+                  <TableHead key={field.key} className="whitespace-nowrap">{field.label}</TableHead>
+                ))}
+                <TableHead>Problems</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pageRows.map(row => {
+                const planned = plannedByRow.get(row.rowNumber);
+                return (
+                  <TableRow key={row.rowNumber}>
+                    <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                    <TableCell>
+                      {row.errors.length === 0
+                        ? <CheckCircle className="h-4 w-4 text-risk-low" />
+                        : <XCircle className="h-4 w-4 text-destructive" />}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {planned && (
+                        <Badge
+                          variant={planned.action === 'update' ? 'default' : 'outline'}
+                          title={planned.changedFields.map(field => fieldLabels[field] ?? field).join(', ')}
+                        >
+                          {ACTION_LABELS[planned.action]}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    {fields.map(field => (
+                      <TableCell key={field.key} className="whitespace-nowrap">
+                        {row.errors.length > 0 ? (
+                          // Committed on blur so the whole file is not revalidated on every keystroke
+                          <Input
+                            key={`${row.rowNumber}-${field.key}-${row.values[field.key] ?? ''}`}
+                            defaultValue={row.values[field.key] ?? ''}
+                            className="h-8 min-w-24"
+                            onBlur={(e) => {
+                              if (e.target.value !== (row.values[field.key] ?? '')) {
+                                onEdit(row.rowNumber, field.key, e.target.value);
+                              }
+                            }}
+                          />
+                        ) : (
+                          row.values[field.key] ?? <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-sm text-destructive min-w-48">{row.errors.join('; ')}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-end gap-2 text-sm">
+            <Button variant="outline" size="sm" onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0}>
+              Previous
+            </Button>
+            <span className="text-muted-foreground">Page {currentPage + 1} of {pageCount}</span>
+            <Button variant="outline" size="sm" onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1}>
+              Next
+            </Button>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onBack}>
+            Back to Mapping
+          </Button>
+          <Button onClick={onConfirm} disabled={writeCount === 0}>
+            Import {writeCount} {writeCount === 1 ? 'Row' : 'Rows'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,125 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import {
+  INTERVENTION_TYPE_LABELS,
+  InterventionFormValues,
+  interventionSchema,
+  interventionTypeLabel,
+} from '@/lib/interventions';
+
+interface InterventionFormProps {
+  defaultValues: InterventionFormValues;
+  submitLabel: string;
+  // Only shown when editing; new interventions start open
+  showCompleted?: boolean;
+  onSubmit: (values: InterventionFormValues) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function InterventionForm({ defaultValues, submitLabel, showCompleted, onSubmit, onCancel }: InterventionFormProps) {
+  const form = useForm<InterventionFormValues>({
+    resolver: zodResolver(interventionSchema),
+    defaultValues,
+  });
+
+  const typeOptions = Object.keys(INTERVENTION_TYPE_LABELS);
+  if (defaultValues.intervention_type && !typeOptions.includes(defaultValues.intervention_type)) {
+    typeOptions.push(defaultValues.intervention_type);
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 rounded-lg border p-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="intervention_type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Type</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a type" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {typeOptions.map(type => (
+                      <SelectItem key={type} value={type}>{interventionTypeLabel(type)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="staff_member"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Staff member</FormLabel>
+                <FormControl>
+                  <Input placeholder="Dr. Jane Smith" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="note"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Note</FormLabel>
+              <FormControl>
+                <Textarea rows={3} placeholder="What was discussed or agreed" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex flex-wrap items-end gap-6">
+          <FormField
+            control={form.control}
+            name="follow_up_date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Follow-up date</FormLabel>
+                <FormControl>
+                  <Input type="date" className="w-48" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {showCompleted && (
+            <FormField
+              control={form.control}
+              name="completed"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0 pb-2">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  </FormControl>
+                  <FormLabel className="font-normal">Completed</FormLabel>
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="ghost" onClick={onCancel}>Cancel</Button>
+          <Button type="submit" disabled={form.formState.isSubmitting}>{submitLabel}</Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
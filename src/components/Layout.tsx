@@ -2,16 +2,20 @@ import { useAuth } from '@/hooks/useAuth';
 import { Navigate } from 'react-router-dom';
 import { SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
 import { AppSidebar } from '@/components/AppSidebar';
+import { NotificationBell } from '@/components/NotificationBell';
 import { Button } from '@/components/ui/button';
-import { LogOut, User } from 'lucide-react';
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { LogOut, ShieldAlert, User } from 'lucide-react';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Permission, ROLE_LABELS } from '@/lib/permissions';
 
 interface LayoutProps {
   children: React.ReactNode;
+  // Pages that only some roles may open
+  permission?: Permission;
 }
 
-export function Layout({ children }: LayoutProps) {
-  const { user, loading, signOut } = useAuth();
+export function Layout({ children, permission }: LayoutProps) {
+  const { user, loading, role, can, signOut } = useAuth();
 
   if (loading) {
     return (
@@ -34,24 +38,39 @@ export function Layout({ children }: LayoutProps) {
           <header className="h-14 border-b bg-background flex items-center justify-between px-4">
             <SidebarTrigger />
             
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="ghost" size="sm" className="gap-2">
-                  <User className="h-4 w-4" />
-                  <span className="hidden sm:inline">{user.email}</span>
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end">
-                <DropdownMenuItem onClick={signOut}>
-                  <LogOut className="mr-2 h-4 w-4" />
-                  Sign Out
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
+            <div className="flex items-center gap-1">
+              <NotificationBell userId={user.id} />
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" className="gap-2">
+                    <User className="h-4 w-4" />
+                    <span className="hidden sm:inline">{user.email}</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel className="font-normal text-muted-foreground">
+                    {role ? ROLE_LABELS[role] : 'No role assigned'}
+                  </DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={signOut}>
+                    <LogOut className="mr-2 h-4 w-4" />
+                    Sign Out
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
           </header>
           
           <main className="flex-1 p-6">
-            {children}
+            {permission && !can(permission) ? (
+              <div className="flex flex-col items-center justify-center py-24 text-center text-muted-foreground">
+                <ShieldAlert className="h-10 w-10 mb-4" />
+                <h2 className="text-lg font-semibold text-foreground">Access restricted</h2>
+                <p>Your role does not have access to this page. Ask an admin if you need it.</p>
+              </div>
+            ) : (
+              children
+            )}
           </main>
         </div>
       </div>
@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { Bell } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type Notification = Tables<'notifications'>;
+
+// The bell lists the most recent notifications; older ones are still counted as unread
+const RECENT_LIMIT = 20;
+
+interface NotificationBellProps {
+  userId: string;
+}
+
+export function NotificationBell({ userId }: NotificationBellProps) {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [emailDigest, setEmailDigest] = useState(true);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchNotifications();
+    fetchEmailDigest();
+
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          setNotifications(prev => [payload.new as Notification, ...prev].slice(0, RECENT_LIMIT));
+          setUnreadCount(prev => prev + 1);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  const fetchNotifications = async () => {
+    const [recentResult, unreadResult] = await Promise.all([
+      supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(RECENT_LIMIT),
+      supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null),
+    ]);
+
+    if (recentResult.error || unreadResult.error) {
+      console.error('Fetch notifications error:', recentResult.error ?? unreadResult.error);
+      return;
+    }
+
+    setNotifications(recentResult.data || []);
+    setUnreadCount(unreadResult.count ?? 0);
+  };
+
+  const fetchEmailDigest = async () => {
+    const { data } = await supabase
+      .from('profiles')
+      .select('email_digest')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (data) setEmailDigest(data.email_digest);
+  };
+
+  const markRead = async (ids: string[]) => {
+    const readAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .in('id', ids);
+
+    if (error) {
+      console.error('Mark notifications read error:', error);
+      return;
+    }
+
+    setNotifications(prev => prev.map(n => (ids.includes(n.id) ? { ...n, read_at: readAt } : n)));
+    setUnreadCount(prev => Math.max(prev - ids.length, 0));
+  };
+
+  const markAllRead = async () => {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) {
+      console.error('Mark notifications read error:', error);
+      return;
+    }
+
+    await fetchNotifications();
+  };
+
+  const openNotification = async (notification: Notification) => {
+    if (!notification.read_at) {
+      await markRead([notification.id]);
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  const updateEmailDigest = async (enabled: boolean) => {
+    setEmailDigest(enabled);
+    const { error } = await supabase
+      .from('profiles')
+      .update({ email_digest: enabled })
+      .eq('user_id', userId);
+
+    if (error) {
+      setEmailDigest(!enabled);
+      toast({
+        title: 'Preference Not Saved',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label={`Notifications (${unreadCount} unread)`}>
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] leading-4 text-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3">
+          <h4 className="font-semibold text-sm">Notifications</h4>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={markAllRead}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <Separator />
+        <div className="max-h-80 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-muted-foreground">You're all caught up.</p>
+          ) : (
+            notifications.map(notification => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => openNotification(notification)}
+                className={cn(
+                  'w-full text-left px-4 py-3 border-b last:border-b-0 hover:bg-muted/50',
+                  !notification.read_at && 'bg-muted/30'
+                )}
+              >
+                <div className="flex items-start gap-2">
+                  {!notification.read_at && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">{notification.title}</p>
+                    {notification.body && <p className="text-xs text-muted-foreground">{notification.body}</p>}
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(notification.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+        <Separator />
+        <div className="flex items-center justify-between px-4 py-3">
+          <Label htmlFor="email-digest" className="text-xs">Email me a daily digest</Label>
+          <Switch id="email-digest" checked={emailDigest} onCheckedChange={updateEmailDigest} />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Activity, RefreshCw } from 'lucide-react';
+import { PredictionRun, retryPredictionRun, unretriedRuns } from '@/lib/predictionRuns';
+
+interface PredictionRunSummaryProps {
+  importJobId: string;
+}
+
+// Risk scoring outcome of an upload, which may span several runs
+export function PredictionRunSummary({ importJobId }: PredictionRunSummaryProps) {
+  const [runs, setRuns] = useState<PredictionRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState(false);
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  useEffect(() => {
+    fetchRuns();
+  }, [importJobId]);
+
+  const fetchRuns = async () => {
+    const { data, error } = await supabase
+      .from('prediction_runs')
+      .select('*')
+      .eq('import_job_id', importJobId)
+      .order('started_at');
+
+    if (error) {
+      console.error('Fetch prediction runs error:', error);
+    } else {
+      setRuns(data || []);
+    }
+    setLoading(false);
+  };
+
+  const retryFailed = async () => {
+    setRetrying(true);
+    try {
+      let scored = 0;
+      for (const run of unretriedRuns(runs)) {
+        const result = await retryPredictionRun(run);
+        scored += result.processedCount;
+      }
+
+      toast({
+        title: 'Retry Finished',
+        description: `${scored} more students were scored`,
+      });
+      await fetchRuns();
+    } catch (error) {
+      toast({
+        title: 'Retry Failed',
+        description: (error as Error).message || 'Failed to retry risk scoring',
+        variant: 'destructive',
+      });
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  if (loading) return null;
+
+  const firstRuns = runs.filter(run => run.trigger_source === 'import');
+  const scoredCount = runs.reduce((sum, run) => sum + run.updated_count, 0);
+  const studentCount = firstRuns.reduce((sum, run) => sum + run.student_count, 0);
+  const failedCount = unretriedRuns(runs).reduce((sum, run) => sum + run.failed_student_ids.length, 0);
+  const modelVersions = [...new Set(runs.map(run => run.model_version).filter(Boolean))].join(', ');
+
+  return (
+    <Alert className={failedCount > 0 || runs.length === 0 ? 'border-destructive' : ''}>
+      <Activity className="h-4 w-4" />
+      <AlertDescription className="space-y-2">
+        {runs.length === 0 ? (
+          <p>Risk scoring did not run for this upload. Scores can be recalculated from Prediction Runs.</p>
+        ) : (
+          <p>
+            Risk scoring: {Math.min(scoredCount, studentCount)} of {studentCount} students scored
+            {modelVersions && ` with ${modelVersions}`}.
+            {failedCount > 0 && ` ${failedCount} could not be updated.`}
+          </p>
+        )}
+        <div className="flex items-center gap-2">
+          {failedCount > 0 && can('predictions:run') && (
+            <Button variant="outline" size="sm" onClick={retryFailed} disabled={retrying} className="gap-2">
+              <RefreshCw className={`h-4 w-4 ${retrying ? 'animate-spin' : ''}`} />
+              Retry Failed
+            </Button>
+          )}
+          <Button variant="link" size="sm" asChild className="px-0">
+            <Link to="/prediction-runs">View prediction runs</Link>
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
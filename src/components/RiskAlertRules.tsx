@@ -0,0 +1,484 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { DepartmentPicker } from '@/components/DepartmentPicker';
+import { RiskBadge } from '@/components/RiskBadge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { BellRing, Pencil, Plus, Trash2 } from 'lucide-react';
+import { AppRole, ROLE_LABELS } from '@/lib/permissions';
+import {
+  ALERT_CONDITION_LABELS,
+  RiskAlertCondition,
+  RiskAlertRule,
+  RiskEscalationEvent,
+  describeAlertRecipients,
+  describeAlertRule,
+  webhookUrlError,
+} from '@/lib/riskAlerts';
+
+type RecentEscalation = RiskEscalationEvent & {
+  students: { name: string; student_id: string } | null;
+};
+
+interface RuleDraft {
+  id?: string;
+  name: string;
+  condition: RiskAlertCondition;
+  // Entered in points (0-100) and stored on the 0-1 score scale
+  minScoreIncrease: string;
+  departments: string[];
+  notifyRoles: AppRole[];
+  notifyCaseCounsellor: boolean;
+  webhookUrl: string;
+  webhookSecret: string;
+}
+
+const NEW_RULE: RuleDraft = {
+  name: '',
+  condition: 'entered_high',
+  minScoreIncrease: '20',
+  departments: [],
+  notifyRoles: ['admin', 'department_head', 'counsellor'],
+  notifyCaseCounsellor: true,
+  webhookUrl: '',
+  webhookSecret: '',
+};
+
+const toDraft = (rule: RiskAlertRule): RuleDraft => ({
+  id: rule.id,
+  name: rule.name,
+  condition: rule.condition,
+  minScoreIncrease: rule.min_score_increase !== null ? String(Math.round(rule.min_score_increase * 100)) : '20',
+  departments: rule.departments,
+  notifyRoles: rule.notify_roles,
+  notifyCaseCounsellor: rule.notify_case_counsellor,
+  webhookUrl: rule.webhook_url ?? '',
+  webhookSecret: rule.webhook_secret ?? '',
+});
+
+// Alert rules for risk escalations, with the most recent escalations they were checked against
+export function RiskAlertRules() {
+  const [rules, setRules] = useState<RiskAlertRule[]>([]);
+  const [escalations, setEscalations] = useState<RecentEscalation[]>([]);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const [rulesResult, escalationsResult, studentsResult] = await Promise.all([
+        supabase.from('risk_alert_rules').select('*').order('created_at'),
+        supabase
+          .from('risk_escalation_events')
+          .select('*, students(name, student_id)')
+          .order('created_at', { ascending: false })
+          .limit(10),
+        supabase.from('students').select('department'),
+      ]);
+
+      if (rulesResult.error) throw rulesResult.error;
+      if (escalationsResult.error) throw escalationsResult.error;
+      if (studentsResult.error) throw studentsResult.error;
+
+      setRules(rulesResult.data || []);
+      setEscalations(escalationsResult.data || []);
+      setDepartments([...new Set((studentsResult.data || []).map(student => student.department))].sort());
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch alert rules',
+        variant: 'destructive',
+      });
+      console.error('Fetch alert rules error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveRule = async () => {
+    if (!draft) return;
+
+    const minScoreIncrease = Number(draft.minScoreIncrease);
+    if (draft.condition === 'score_jump' && !(minScoreIncrease > 0 && minScoreIncrease <= 100)) {
+      toast({
+        title: 'Rule Not Saved',
+        description: 'The score jump must be between 1 and 100 points',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const webhookUrl = draft.webhookUrl.trim();
+    const urlError = webhookUrl ? webhookUrlError(webhookUrl) : null;
+    if (urlError) {
+      toast({
+        title: 'Rule Not Saved',
+        description: urlError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const payload = {
+      name: draft.name.trim(),
+      condition: draft.condition,
+      min_score_increase: draft.condition === 'score_jump' ? minScoreIncrease / 100 : null,
+      departments: draft.departments,
+      notify_roles: draft.notifyRoles,
+      notify_case_counsellor: draft.notifyCaseCounsellor,
+      webhook_url: webhookUrl || null,
+      webhook_secret: draft.webhookSecret.trim() || null,
+    };
+
+    setSaving(true);
+    try {
+      const { error } = draft.id
+        ? await supabase.from('risk_alert_rules').update(payload).eq('id', draft.id)
+        : await supabase.from('risk_alert_rules').insert(payload);
+
+      if (error) throw error;
+
+      toast({ title: 'Alert Rule Saved', description: payload.name });
+      setDraft(null);
+      await fetchRules();
+    } catch (error) {
+      toast({
+        title: 'Rule Not Saved',
+        description: (error as Error).message || 'Failed to save alert rule',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleRule = async (rule: RiskAlertRule, enabled: boolean) => {
+    const { error } = await supabase
+      .from('risk_alert_rules')
+      .update({ enabled })
+      .eq('id', rule.id);
+
+    if (error) {
+      toast({
+        title: 'Rule Not Updated',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setRules(prev => prev.map(r => (r.id === rule.id ? { ...r, enabled } : r)));
+  };
+
+  const deleteRule = async (rule: RiskAlertRule) => {
+    const { error } = await supabase
+      .from('risk_alert_rules')
+      .delete()
+      .eq('id', rule.id);
+
+    if (error) {
+      toast({
+        title: 'Rule Not Deleted',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setRules(prev => prev.filter(r => r.id !== rule.id));
+  };
+
+  const ruleName = (id: string) => rules.find(r => r.id === id)?.name ?? 'Deleted rule';
+
+  if (loading) {
+    return <div className="h-64 bg-muted rounded animate-pulse"></div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <BellRing className="h-5 w-5" />
+              Escalation Alerts
+            </CardTitle>
+            <CardDescription>
+              Checked whenever a student's risk goes up, whether from a re-score, an import or an edit. Matching rules
+              notify staff in the app and can call a webhook.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => setDraft({ ...NEW_RULE })} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Add Rule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rule</TableHead>
+              <TableHead>Condition</TableHead>
+              <TableHead>Notifies</TableHead>
+              <TableHead>Enabled</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.map(rule => (
+              <TableRow key={rule.id}>
+                <TableCell className="font-medium">{rule.name}</TableCell>
+                <TableCell>{describeAlertRule(rule)}</TableCell>
+                <TableCell>{describeAlertRecipients(rule)}</TableCell>
+                <TableCell>
+                  <Switch checked={rule.enabled} onCheckedChange={(enabled) => toggleRule(rule, enabled)} />
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => setDraft(toDraft(rule))}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete "{rule.name}"?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Escalations will no longer be checked against this rule. Past escalations are kept.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => deleteRule(rule)}>Delete Rule</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {rules.length === 0 && (
+          <p className="text-sm text-center text-muted-foreground">
+            No alert rules yet. Escalations are still recorded, but nobody is told about them.
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="font-semibold text-sm">Recent Escalations</h4>
+          {escalations.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Matched Rules</TableHead>
+                  <TableHead>When</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {escalations.map(escalation => (
+                  <TableRow key={escalation.id}>
+                    <TableCell>
+                      <Link to={`/students/${escalation.student_id}`} className="font-medium hover:underline">
+                        {escalation.students?.name ?? '—'}
+                      </Link>
+                      <div className="text-xs text-muted-foreground">
+                        {escalation.students?.student_id} · {escalation.department}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {escalation.previous_risk_level ? (
+                          <RiskBadge
+                            riskLevel={escalation.previous_risk_level}
+                            riskScore={escalation.previous_risk_score || undefined}
+                          />
+                        ) : (
+                          <span className="text-muted-foreground">Unscored</span>
+                        )}
+                        →
+                        {escalation.risk_level && (
+                          <RiskBadge riskLevel={escalation.risk_level} riskScore={escalation.risk_score || undefined} />
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {escalation.matched_rule_ids.length > 0
+                        ? escalation.matched_rule_ids.map(ruleName).join(', ')
+                        : <span className="text-muted-foreground">None</span>}
+                    </TableCell>
+                    <TableCell>{new Date(escalation.created_at).toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">No escalations recorded yet.</p>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Alert Rule' : 'Add Alert Rule'}</DialogTitle>
+            <DialogDescription>
+              Each person is notified once per escalation, however many rules match it.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-name">Name</Label>
+                <Input
+                  id="rule-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Engineering students entering high risk"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Condition</Label>
+                  <Select
+                    value={draft.condition}
+                    onValueChange={(value) => setDraft({ ...draft, condition: value as RiskAlertCondition })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ALERT_CONDITION_LABELS) as RiskAlertCondition[]).map(condition => (
+                        <SelectItem key={condition} value={condition}>{ALERT_CONDITION_LABELS[condition]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {draft.condition === 'score_jump' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-score-jump">By more than (points)</Label>
+                    <Input
+                      id="rule-score-jump"
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={draft.minScoreIncrease}
+                      onChange={(e) => setDraft({ ...draft, minScoreIncrease: e.target.value })}
+                    />
+                  </div>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Departments</Label>
+                <p className="text-xs text-muted-foreground">Leave all unticked to cover every department.</p>
+                <DepartmentPicker
+                  options={departments}
+                  value={draft.departments}
+                  onChange={(selected) => setDraft({ ...draft, departments: selected })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Notify</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(Object.keys(ROLE_LABELS) as AppRole[]).map(role => (
+                    <div key={role} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`notify-${role}`}
+                        checked={draft.notifyRoles.includes(role)}
+                        onCheckedChange={(checked) => setDraft({
+                          ...draft,
+                          notifyRoles: checked === true
+                            ? [...draft.notifyRoles, role]
+                            : draft.notifyRoles.filter(r => r !== role),
+                        })}
+                      />
+                      <Label htmlFor={`notify-${role}`} className="font-normal">{ROLE_LABELS[role]}</Label>
+                    </div>
+                  ))}
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="notify-case-counsellor"
+                      checked={draft.notifyCaseCounsellor}
+                      onCheckedChange={(checked) => setDraft({ ...draft, notifyCaseCounsellor: checked === true })}
+                    />
+                    <Label htmlFor="notify-case-counsellor" className="font-normal">Case counsellor</Label>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Department heads and faculty are only told about students in their departments.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-webhook-url">Webhook URL</Label>
+                <Input
+                  id="rule-webhook-url"
+                  type="url"
+                  value={draft.webhookUrl}
+                  onChange={(e) => setDraft({ ...draft, webhookUrl: e.target.value })}
+                  placeholder="https://hooks.example.edu/risk-alerts"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Must be a public https:// address; local and private network hosts are refused.
+                </p>
+              </div>
+              {draft.webhookUrl.trim() && (
+                <div className="space-y-2">
+                  <Label htmlFor="rule-webhook-secret">Signing Secret</Label>
+                  <Input
+                    id="rule-webhook-secret"
+                    value={draft.webhookSecret}
+                    onChange={(e) => setDraft({ ...draft, webhookSecret: e.target.value })}
+                    placeholder="Optional"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    When set, requests carry an X-Signature-256 header: the HMAC-SHA256 of the body with this secret.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={saveRule} disabled={saving || !draft?.name.trim()}>
+              Save Rule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
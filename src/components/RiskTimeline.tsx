@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { RiskBadge } from '@/components/RiskBadge';
+import { supabase } from '@/integrations/supabase/client';
+
+interface RiskAssessment {
+  id: string;
+  risk_score: number;
+  risk_level: 'low' | 'medium' | 'high';
+  model_version: string;
+  semester: number;
+  assessed_at: string;
+}
+
+interface RiskTimelineProps {
+  studentId: string;
+}
+
+const chartConfig = {
+  risk_score: {
+    label: 'Risk score',
+    color: 'hsl(var(--primary))',
+  },
+} satisfies ChartConfig;
+
+const levelColors: Record<RiskAssessment['risk_level'], string> = {
+  low: 'hsl(var(--risk-low))',
+  medium: 'hsl(var(--risk-medium))',
+  high: 'hsl(var(--risk-high))',
+};
+
+export function RiskTimeline({ studentId }: RiskTimelineProps) {
+  const [assessments, setAssessments] = useState<RiskAssessment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchAssessments = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('risk_assessments')
+        .select('id, risk_score, risk_level, model_version, semester, assessed_at')
+        .eq('student_id', studentId)
+        .order('assessed_at', { ascending: true });
+
+      if (error) {
+        console.error('Fetch risk assessments error:', error);
+      }
+      setAssessments(data || []);
+      setLoading(false);
+    };
+
+    fetchAssessments();
+  }, [studentId]);
+
+  if (loading) {
+    return <div className="h-[200px] bg-muted rounded animate-pulse"></div>;
+  }
+
+  if (assessments.length === 0) {
+    return <p className="text-sm text-muted-foreground">No risk history recorded yet.</p>;
+  }
+
+  const chartData = assessments.map(assessment => ({
+    ...assessment,
+    label: `Sem ${assessment.semester}`,
+    date: new Date(assessment.assessed_at).toLocaleDateString(),
+  }));
+  const latest = assessments[assessments.length - 1];
+  const first = assessments[0];
+  const change = Math.round((latest.risk_score - first.risk_score) * 100);
+
+  return (
+    <div className="space-y-2">
+      <ChartContainer config={chartConfig} className="h-[200px] w-full aspect-auto">
+        <LineChart data={chartData} margin={{ left: 0, right: 12, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tickLine={false} axisLine={false} />
+          <YAxis
+            domain={[0, 1]}
+            tickFormatter={(value) => `${Math.round(value * 100)}%`}
+            tickLine={false}
+            axisLine={false}
+            width={40}
+          />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => {
+                  const point = payload?.[0]?.payload;
+                  return point ? `${point.label} · ${point.date} · ${point.model_version}` : '';
+                }}
+                formatter={(value, _, item) => (
+                  <span>
+                    {Math.round(Number(value) * 100)}% ({item.payload.risk_level})
+                  </span>
+                )}
+              />
+            }
+          />
+          <Line
+            dataKey="risk_score"
+            type="monotone"
+            stroke="var(--color-risk_score)"
+            strokeWidth={2}
+            dot={({ cx, cy, payload }) => (
+              <circle key={payload.id} cx={cx} cy={cy} r={4} fill={levelColors[payload.risk_level as RiskAssessment['risk_level']]} />
+            )}
+          />
+        </LineChart>
+      </ChartContainer>
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <RiskBadge riskLevel={latest.risk_level} riskScore={latest.risk_score} />
+        <span>
+          {assessments.length} assessment{assessments.length === 1 ? '' : 's'} since{' '}
+          {new Date(first.assessed_at).toLocaleDateString()}
+          {assessments.length > 1 && ` · ${change > 0 ? '+' : ''}${change} points overall`}
+        </span>
+      </div>
+    </div>
+  );
+}
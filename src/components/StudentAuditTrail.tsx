@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { STUDENT_FIELDS } from '@/lib/columnMapping';
+import { History } from 'lucide-react';
+
+type AuditEntry = Tables<'student_audit_log'>;
+
+type FieldChange = { old: Json; new: Json };
+
+const FIELD_LABELS: Record<string, string> = {
+  ...Object.fromEntries(STUDENT_FIELDS.map(field => [field.key, field.label])),
+  outcome: 'Outcome',
+  outcome_recorded_at: 'Outcome recorded',
+};
+
+// Which import last wrote the row; shown as the entry's source rather than as a field
+const IMPORT_FIELD = 'import_job_id';
+
+const formatValue = (value: Json) => {
+  if (value === null || value === undefined) return 'empty';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) return new Date(value).toLocaleString();
+  return String(value);
+};
+
+interface StudentAuditTrailProps {
+  studentId: string;
+}
+
+export function StudentAuditTrail({ studentId }: StudentAuditTrailProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [staffNames, setStaffNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [studentId]);
+
+  const fetchEntries = async () => {
+    const { data, error } = await supabase
+      .from('student_audit_log')
+      .select('*')
+      .eq('student_id', studentId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Fetch audit trail error:', error);
+      setLoading(false);
+      return;
+    }
+
+    setEntries(data || []);
+
+    const staffIds = [...new Set((data || []).map(entry => entry.changed_by).filter((id): id is string => id !== null))];
+    if (staffIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, display_name, email')
+        .in('user_id', staffIds);
+
+      setStaffNames(Object.fromEntries((profiles || []).map(p => [p.user_id, p.display_name || p.email || 'Unknown user'])));
+    }
+    setLoading(false);
+  };
+
+  if (loading) {
+    return <div className="h-24 bg-muted rounded animate-pulse"></div>;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes have been recorded for this student yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {entries.map(entry => {
+        const changes = Object.entries((entry.changes ?? {}) as Record<string, FieldChange>)
+          .filter(([field]) => field !== IMPORT_FIELD);
+        const viaImport = IMPORT_FIELD in ((entry.changes ?? {}) as Record<string, FieldChange>);
+        const author = entry.changed_by
+          ? staffNames[entry.changed_by] ?? 'Unknown user'
+          : viaImport || entry.action === 'insert' ? 'Import' : 'System';
+
+        return (
+          <li key={entry.id} className="rounded-lg border p-3 space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm">
+                <History className="h-4 w-4 text-muted-foreground" />
+                <Badge variant={entry.action === 'insert' ? 'default' : 'secondary'}>
+                  {entry.action === 'insert' ? 'Created' : 'Updated'}
+                </Badge>
+                <span>{author}</span>
+              </div>
+              <span className="text-xs text-muted-foreground">{new Date(entry.created_at).toLocaleString()}</span>
+            </div>
+            {changes.length > 0 && (
+              <ul className="text-sm space-y-1">
+                {changes.map(([field, change]) => (
+                  <li key={field}>
+                    <span className="text-muted-foreground">{FIELD_LABELS[field] ?? field}:</span>{' '}
+                    <span className="line-through text-muted-foreground">{formatValue(change.old)}</span>
+                    {' → '}
+                    <span>{formatValue(change.new)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
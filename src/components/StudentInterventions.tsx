@@ -0,0 +1,185 @@
+import { useEffect, useState } from 'react';
+import { InterventionForm } from '@/components/InterventionForm';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarClock, CheckCircle, Pencil, Plus } from 'lucide-react';
+import {
+  InterventionFormValues,
+  InterventionNote,
+  fromInterventionValues,
+  interventionTypeLabel,
+  isOverdue,
+  toInterventionValues,
+} from '@/lib/interventions';
+
+interface StudentInterventionsProps {
+  studentId: string;
+  // Limit to the interventions of one case; new ones are logged against it
+  caseId?: string;
+}
+
+export function StudentInterventions({ studentId, caseId }: StudentInterventionsProps) {
+  const [notes, setNotes] = useState<InterventionNote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const { user, can } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchNotes();
+  }, [studentId, caseId]);
+
+  const fetchNotes = async () => {
+    let query = supabase
+      .from('intervention_notes')
+      .select('*')
+      .eq('student_id', studentId);
+    if (caseId) query = query.eq('case_id', caseId);
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Fetch intervention notes error:', error);
+    } else {
+      setNotes(data || []);
+    }
+    setLoading(false);
+  };
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: (error as Error).message || 'Failed to save intervention',
+      variant: 'destructive',
+    });
+  };
+
+  const addNote = async (values: InterventionFormValues) => {
+    const { error } = await supabase
+      .from('intervention_notes')
+      .insert({ ...fromInterventionValues(values), student_id: studentId, case_id: caseId ?? null });
+
+    if (error) {
+      showError('Intervention Not Logged', error);
+      return;
+    }
+
+    toast({ title: 'Intervention Logged', description: interventionTypeLabel(values.intervention_type) });
+    setAdding(false);
+    await fetchNotes();
+  };
+
+  const updateNote = async (note: InterventionNote, values: InterventionFormValues) => {
+    const { error } = await supabase
+      .from('intervention_notes')
+      .update(fromInterventionValues(values))
+      .eq('id', note.id);
+
+    if (error) {
+      showError('Intervention Not Saved', error);
+      return;
+    }
+
+    setEditingId(null);
+    await fetchNotes();
+  };
+
+  const completeNote = async (note: InterventionNote) => {
+    const { error } = await supabase
+      .from('intervention_notes')
+      .update({ completed: true })
+      .eq('id', note.id);
+
+    if (error) {
+      showError('Intervention Not Completed', error);
+      return;
+    }
+
+    setNotes(prev => prev.map(n => (n.id === note.id ? { ...n, completed: true } : n)));
+  };
+
+  if (loading) {
+    return <div className="h-24 bg-muted rounded animate-pulse"></div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {can('interventions:write') && !adding && (
+        <Button variant="outline" size="sm" onClick={() => setAdding(true)} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Log Intervention
+        </Button>
+      )}
+
+      {adding && (
+        <InterventionForm
+          defaultValues={{
+            ...toInterventionValues(),
+            staff_member: user?.user_metadata?.display_name ?? '',
+          }}
+          submitLabel="Log Intervention"
+          onSubmit={addNote}
+          onCancel={() => setAdding(false)}
+        />
+      )}
+
+      {notes.map(note => (
+        editingId === note.id ? (
+          <InterventionForm
+            key={note.id}
+            defaultValues={toInterventionValues(note)}
+            submitLabel="Save Changes"
+            showCompleted
+            onSubmit={(values) => updateNote(note, values)}
+            onCancel={() => setEditingId(null)}
+          />
+        ) : (
+          <div key={note.id} className="rounded-lg border p-3 space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">{interventionTypeLabel(note.intervention_type)}</Badge>
+                {note.completed ? (
+                  <Badge variant="outline">Completed</Badge>
+                ) : isOverdue(note) ? (
+                  <Badge variant="destructive">Follow-up overdue</Badge>
+                ) : null}
+              </div>
+              {can('interventions:manage') && (
+                <div className="flex gap-1">
+                  {!note.completed && (
+                    <Button variant="ghost" size="sm" onClick={() => completeNote(note)} className="gap-1">
+                      <CheckCircle className="h-4 w-4" />
+                      Complete
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => setEditingId(note.id)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+            <p className="text-sm whitespace-pre-wrap">{note.note}</p>
+            <p className="text-xs text-muted-foreground flex flex-wrap items-center gap-1">
+              {note.staff_member} · {new Date(note.created_at).toLocaleDateString()}
+              {note.follow_up_date && (
+                <>
+                  {' · '}
+                  <CalendarClock className="h-3 w-3" />
+                  Follow up {new Date(`${note.follow_up_date}T00:00:00`).toLocaleDateString()}
+                </>
+              )}
+            </p>
+          </div>
+        )
+      ))}
+
+      {notes.length === 0 && !adding && (
+        <p className="text-sm text-muted-foreground">No interventions logged for this student yet.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { RiskBadge } from '@/components/RiskBadge';
+import { useActiveRiskModel } from '@/hooks/useActiveRiskModel';
+import { RotateCcw } from 'lucide-react';
+import { FACTOR_LABELS, IMPUTABLE_FIELD_LABELS } from '@/lib/riskModelConfig';
+import { FactorKey, ImputationValues, ScoringInput, formatModelVersion, predictDropoutRisk } from '@shared/riskScoring.ts';
+
+interface WhatIfSimulatorProps {
+  student: ScoringInput;
+  // Values the stored prediction filled in, so the baseline matches the recorded score
+  imputation?: ImputationValues;
+}
+
+type NumericInput = 'attendance_percentage' | 'cgpa' | 'sgpa' | 'disciplinary_actions' | 'extracurriculars'
+  | 'semester' | 'family_income' | 'distance_from_home';
+
+type BooleanInput = 'fee_default' | 'scholarship' | 'hostel_accommodation' | 'previous_education_gap';
+
+const sliders: { key: NumericInput; label: string; min: number; max: number; step: number; format?: (value: number) => string }[] = [
+  { key: 'attendance_percentage', label: 'Attendance', min: 0, max: 100, step: 1, format: (value) => `${value}%` },
+  { key: 'cgpa', label: 'CGPA', min: 0, max: 10, step: 0.1 },
+  { key: 'sgpa', label: 'SGPA', min: 0, max: 10, step: 0.1 },
+  { key: 'disciplinary_actions', label: 'Disciplinary actions', min: 0, max: 10, step: 1 },
+  { key: 'extracurriculars', label: 'Extracurriculars', min: 0, max: 10, step: 1 },
+  { key: 'semester', label: 'Semester', min: 1, max: 12, step: 1 },
+  { key: 'family_income', label: 'Family income', min: 0, max: 2000000, step: 10000, format: (value) => value.toLocaleString() },
+  { key: 'distance_from_home', label: 'Distance from home', min: 0, max: 2000, step: 10, format: (value) => `${value} km` },
+];
+
+const toggles: { key: BooleanInput; label: string }[] = [
+  { key: 'fee_default', label: 'Fee default' },
+  { key: 'scholarship', label: 'Scholarship' },
+  { key: 'hostel_accommodation', label: 'Hostel accommodation' },
+  { key: 'previous_education_gap', label: 'Previous education gap' },
+];
+
+const pickInputs = (student: ScoringInput): ScoringInput => ({
+  attendance_percentage: student.attendance_percentage,
+  cgpa: student.cgpa,
+  sgpa: student.sgpa,
+  fee_default: student.fee_default,
+  disciplinary_actions: student.disciplinary_actions,
+  scholarship: student.scholarship,
+  extracurriculars: student.extracurriculars,
+  semester: student.semester,
+  family_income: student.family_income,
+  distance_from_home: student.distance_from_home,
+  hostel_accommodation: student.hostel_accommodation,
+  previous_education_gap: student.previous_education_gap,
+});
+
+export function WhatIfSimulator({ student, imputation = {} }: WhatIfSimulatorProps) {
+  const { model, loading } = useActiveRiskModel();
+  const [inputs, setInputs] = useState<ScoringInput>(() => pickInputs(student));
+
+  if (loading) {
+    return <div className="h-[200px] bg-muted rounded animate-pulse"></div>;
+  }
+
+  // Both sides are scored with the same model so the difference reflects only the changed inputs
+  const baseline = predictDropoutRisk(pickInputs(student), model, imputation);
+  const scenario = predictDropoutRisk(inputs, model, imputation);
+  const { missing_fields, confidence } = scenario.prediction_factors;
+  const change = Math.round((scenario.risk_score - baseline.risk_score) * 100);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          <RiskBadge riskLevel={scenario.risk_level} riskScore={scenario.risk_score} />
+          <span className={change > 0 ? 'text-risk-high' : change < 0 ? 'text-risk-low' : 'text-muted-foreground'}>
+            {change > 0 ? '+' : ''}{change} points vs. current
+          </span>
+        </div>
+        <Button variant="ghost" size="sm" className="gap-2" onClick={() => setInputs(pickInputs(student))}>
+          <RotateCcw className="h-4 w-4" />
+          Reset
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4">
+        {sliders.map(({ key, label, min, max, step, format }) => {
+          const value = inputs[key] ?? 0;
+          return (
+            <div key={key} className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <Label>{label}</Label>
+                <span className="text-muted-foreground">
+                  {inputs[key] === null || inputs[key] === undefined ? 'Not recorded' : format ? format(value) : value}
+                </span>
+              </div>
+              <Slider
+                min={min}
+                max={max}
+                step={step}
+                value={[value]}
+                onValueChange={([next]) => setInputs(prev => ({ ...prev, [key]: next }))}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {toggles.map(({ key, label }) => (
+          <div key={key} className="flex items-center gap-2">
+            <Switch
+              id={`what-if-${key}`}
+              checked={inputs[key]}
+              onCheckedChange={(checked) => setInputs(prev => ({ ...prev, [key]: checked }))}
+            />
+            <Label htmlFor={`what-if-${key}`}>{label}</Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <h5 className="text-sm font-medium">Factor breakdown</h5>
+        {(Object.keys(FACTOR_LABELS) as FactorKey[]).map(factor => (
+          <div key={factor} className="grid grid-cols-[8rem_1fr_3rem] items-center gap-2 text-sm">
+            <span className="text-muted-foreground">{FACTOR_LABELS[factor]}</span>
+            <Progress value={scenario.prediction_factors[factor] * 100} className="h-2" />
+            <span className="text-right">{Math.round(scenario.prediction_factors[factor] * 100)}%</span>
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground">
+          Scored with {formatModelVersion(model)} at {Math.round(confidence * 100)}% confidence
+          {missing_fields.length > 0 && `, imputing ${missing_fields.map(field => IMPUTABLE_FIELD_LABELS[field].toLowerCase()).join(', ')}`}.
+          Nothing is saved.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toRiskModelConfig } from '@/lib/riskModelConfig';
+import { BUILTIN_MODEL, ScoringModel } from '@shared/riskScoring.ts';
+
+// The model predict-dropout-risk currently scores with, for client-side what-if scoring
+export function useActiveRiskModel() {
+  const [model, setModel] = useState<ScoringModel>(BUILTIN_MODEL);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchActiveModel = async () => {
+      const { data, error } = await supabase
+        .from('risk_model_configs')
+        .select('*')
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Fetch active risk model error:', error);
+      } else if (data) {
+        setModel(toRiskModelConfig(data));
+      }
+      setLoading(false);
+    };
+
+    fetchActiveModel();
+  }, []);
+
+  return { model, loading };
+}
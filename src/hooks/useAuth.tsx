@@ -2,11 +2,16 @@ import { createContext, useContext, useEffect, useState, ReactNode } from 'react
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { AppRole, DEPARTMENT_SCOPED_ROLES, Permission, hasPermission } from '@/lib/permissions';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
+  role: AppRole | null;
+  // Departments the user is limited to, or null when they may see every department
+  departments: string[] | null;
+  can: (permission: Permission) => boolean;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signUp: (email: string, password: string, displayName: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
@@ -18,6 +23,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [role, setRole] = useState<AppRole | null>(null);
+  const [departments, setDepartments] = useState<string[] | null>(null);
+  const [roleLoading, setRoleLoading] = useState(true);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -40,6 +48,42 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setRole(null);
+      setDepartments(null);
+      setRoleLoading(false);
+      return;
+    }
+
+    setRoleLoading(true);
+    Promise.all([
+      supabase.from('profiles').select('role, deactivated_at').eq('user_id', userId).maybeSingle(),
+      supabase.from('user_departments').select('department').eq('user_id', userId).order('department'),
+    ]).then(([profileResult, departmentsResult]) => {
+      if (profileResult.error) {
+        console.error('Fetch role error:', profileResult.error);
+      }
+      if (departmentsResult.error) {
+        console.error('Fetch departments error:', departmentsResult.error);
+      }
+
+      // Deactivated accounts keep their role for reactivation but may not use it
+      const userRole = profileResult.data && !profileResult.data.deactivated_at ? profileResult.data.role : null;
+      setRole(userRole);
+      setDepartments(
+        userRole && DEPARTMENT_SCOPED_ROLES.includes(userRole)
+          ? (departmentsResult.data || []).map(row => row.department)
+          : null
+      );
+      setRoleLoading(false);
+    });
+  }, [userId]);
+
+  const can = (permission: Permission) => hasPermission(role, permission);
+
   const signIn = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({
       email,
@@ -49,7 +93,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     if (error) {
       toast({
         title: "Sign In Failed",
-        description: error.message,
+        description: /banned/i.test(error.message)
+          ? "This account has been deactivated. Contact an admin."
+          : error.message,
         variant: "destructive",
       });
     } else {
@@ -101,7 +147,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, loading, signIn, signUp, signOut }}>
+    <AuthContext.Provider value={{ user, session, loading: loading || roleLoading, role, departments, can, signIn, signUp, signOut }}>
       {children}
     </AuthContext.Provider>
   );
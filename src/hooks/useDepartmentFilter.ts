@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+
+// Department filter limited to the user's assigned departments, defaulting to their only one
+export function useDepartmentFilter(knownDepartments: string[]) {
+  const { departments } = useAuth();
+  const [departmentFilter, setDepartmentFilter] = useState<string>('all');
+
+  useEffect(() => {
+    setDepartmentFilter(departments?.length === 1 ? departments[0] : 'all');
+  }, [departments]);
+
+  return {
+    departmentFilter,
+    setDepartmentFilter,
+    departmentOptions: departments ?? knownDepartments,
+    allDepartmentsLabel: departments ? 'All My Departments' : 'All Departments',
+  };
+}
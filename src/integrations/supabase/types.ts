@@ -14,10 +14,204 @@ export type Database = {
   }
   public: {
     Tables: {
+      auth_settings: {
+        Row: {
+          allowed_domains: string[]
+          created_at: string
+          id: boolean
+          signup_mode: Database["public"]["Enums"]["signup_mode"]
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          allowed_domains?: string[]
+          created_at?: string
+          id?: boolean
+          signup_mode?: Database["public"]["Enums"]["signup_mode"]
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          allowed_domains?: string[]
+          created_at?: string
+          id?: boolean
+          signup_mode?: Database["public"]["Enums"]["signup_mode"]
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      function_rate_limits: {
+        Row: {
+          action: string
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      import_job_changes: {
+        Row: {
+          action: Database["public"]["Enums"]["import_change_action"]
+          created_at: string
+          id: string
+          job_id: string
+          previous_values: Json | null
+          student_id: string | null
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["import_change_action"]
+          created_at?: string
+          id?: string
+          job_id: string
+          previous_values?: Json | null
+          student_id?: string | null
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["import_change_action"]
+          created_at?: string
+          id?: string
+          job_id?: string
+          previous_values?: Json | null
+          student_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_job_changes_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "import_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_job_changes_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_jobs: {
+        Row: {
+          column_mapping: Json
+          created_at: string
+          errors: Json
+          failure_reason: string | null
+          file_name: string
+          id: string
+          inserted_count: number
+          mode: Database["public"]["Enums"]["import_mode"]
+          processed_rows: number
+          rejected_count: number
+          rolled_back_at: string | null
+          rolled_back_by: string | null
+          sheet_name: string | null
+          skipped_count: number
+          status: Database["public"]["Enums"]["import_job_status"]
+          storage_path: string | null
+          total_rows: number
+          unchanged_count: number
+          updated_at: string
+          updated_count: number
+          uploaded_by: string | null
+        }
+        Insert: {
+          column_mapping: Json
+          created_at?: string
+          errors?: Json
+          failure_reason?: string | null
+          file_name: string
+          id?: string
+          inserted_count?: number
+          mode: Database["public"]["Enums"]["import_mode"]
+          processed_rows?: number
+          rejected_count?: number
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+          sheet_name?: string | null
+          skipped_count?: number
+          status?: Database["public"]["Enums"]["import_job_status"]
+          storage_path?: string | null
+          total_rows?: number
+          unchanged_count?: number
+          updated_at?: string
+          updated_count?: number
+          uploaded_by?: string | null
+        }
+        Update: {
+          column_mapping?: Json
+          created_at?: string
+          errors?: Json
+          failure_reason?: string | null
+          file_name?: string
+          id?: string
+          inserted_count?: number
+          mode?: Database["public"]["Enums"]["import_mode"]
+          processed_rows?: number
+          rejected_count?: number
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+          sheet_name?: string | null
+          skipped_count?: number
+          status?: Database["public"]["Enums"]["import_job_status"]
+          storage_path?: string | null
+          total_rows?: number
+          unchanged_count?: number
+          updated_at?: string
+          updated_count?: number
+          uploaded_by?: string | null
+        }
+        Relationships: []
+      }
+      import_mapping_presets: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          mapping: Json
+          name: string
+          source_headers: string[]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          mapping: Json
+          name: string
+          source_headers?: string[]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          mapping?: Json
+          name?: string
+          source_headers?: string[]
+          updated_at?: string
+        }
+        Relationships: []
+      }
       intervention_notes: {
         Row: {
+          case_id: string | null
           completed: boolean
           created_at: string
+          created_by: string | null
           follow_up_date: string | null
           id: string
           intervention_type: string
@@ -27,8 +221,10 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          case_id?: string | null
           completed?: boolean
           created_at?: string
+          created_by?: string | null
           follow_up_date?: string | null
           id?: string
           intervention_type: string
@@ -38,8 +234,10 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          case_id?: string | null
           completed?: boolean
           created_at?: string
+          created_by?: string | null
           follow_up_date?: string | null
           id?: string
           intervention_type?: string
@@ -49,6 +247,13 @@ export type Database = {
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "intervention_notes_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "student_cases"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "intervention_notes_student_id_fkey"
             columns: ["student_id"]
@@ -58,37 +263,458 @@ export type Database = {
           },
         ]
       }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          dedupe_key: string
+          emailed_at: string | null
+          id: string
+          intervention_note_id: string | null
+          kind: Database["public"]["Enums"]["notification_kind"]
+          link: string | null
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          dedupe_key: string
+          emailed_at?: string | null
+          id?: string
+          intervention_note_id?: string | null
+          kind: Database["public"]["Enums"]["notification_kind"]
+          link?: string | null
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          dedupe_key?: string
+          emailed_at?: string | null
+          id?: string
+          intervention_note_id?: string | null
+          kind?: Database["public"]["Enums"]["notification_kind"]
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_intervention_note_id_fkey"
+            columns: ["intervention_note_id"]
+            isOneToOne: false
+            referencedRelation: "intervention_notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prediction_runs: {
+        Row: {
+          duration_ms: number | null
+          error_message: string | null
+          failed_student_ids: string[]
+          finished_at: string | null
+          id: string
+          import_job_id: string | null
+          model_version: string | null
+          retry_of: string | null
+          started_at: string
+          status: Database["public"]["Enums"]["prediction_run_status"]
+          student_count: number
+          trigger_source: Database["public"]["Enums"]["prediction_trigger"]
+          updated_count: number
+        }
+        Insert: {
+          duration_ms?: number | null
+          error_message?: string | null
+          failed_student_ids?: string[]
+          finished_at?: string | null
+          id?: string
+          import_job_id?: string | null
+          model_version?: string | null
+          retry_of?: string | null
+          started_at?: string
+          status?: Database["public"]["Enums"]["prediction_run_status"]
+          student_count?: number
+          trigger_source?: Database["public"]["Enums"]["prediction_trigger"]
+          updated_count?: number
+        }
+        Update: {
+          duration_ms?: number | null
+          error_message?: string | null
+          failed_student_ids?: string[]
+          finished_at?: string | null
+          id?: string
+          import_job_id?: string | null
+          model_version?: string | null
+          retry_of?: string | null
+          started_at?: string
+          status?: Database["public"]["Enums"]["prediction_run_status"]
+          student_count?: number
+          trigger_source?: Database["public"]["Enums"]["prediction_trigger"]
+          updated_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prediction_runs_import_job_id_fkey"
+            columns: ["import_job_id"]
+            isOneToOne: false
+            referencedRelation: "import_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prediction_runs_retry_of_fkey"
+            columns: ["retry_of"]
+            isOneToOne: false
+            referencedRelation: "prediction_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
+          deactivated_at: string | null
           display_name: string | null
+          email: string | null
+          email_digest: boolean
           id: string
-          role: string
+          role: Database["public"]["Enums"]["app_role"]
           updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
+          deactivated_at?: string | null
           display_name?: string | null
+          email?: string | null
+          email_digest?: boolean
           id?: string
-          role?: string
+          role?: Database["public"]["Enums"]["app_role"]
           updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
+          deactivated_at?: string | null
           display_name?: string | null
+          email?: string | null
+          email_digest?: boolean
           id?: string
-          role?: string
+          role?: Database["public"]["Enums"]["app_role"]
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      rescoring_settings: {
+        Row: {
+          created_at: string
+          frequency: Database["public"]["Enums"]["rescoring_frequency"]
+          id: boolean
+          last_triggered_at: string | null
+          run_day: number
+          run_hour: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          frequency?: Database["public"]["Enums"]["rescoring_frequency"]
+          id?: boolean
+          last_triggered_at?: string | null
+          run_day?: number
+          run_hour?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          frequency?: Database["public"]["Enums"]["rescoring_frequency"]
+          id?: boolean
+          last_triggered_at?: string | null
+          run_day?: number
+          run_hour?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      risk_alert_rules: {
+        Row: {
+          condition: Database["public"]["Enums"]["risk_alert_condition"]
+          created_at: string
+          created_by: string | null
+          departments: string[]
+          enabled: boolean
+          id: string
+          min_score_increase: number | null
+          name: string
+          notify_case_counsellor: boolean
+          notify_roles: Database["public"]["Enums"]["app_role"][]
+          updated_at: string
+          webhook_secret: string | null
+          webhook_url: string | null
+        }
+        Insert: {
+          condition: Database["public"]["Enums"]["risk_alert_condition"]
+          created_at?: string
+          created_by?: string | null
+          departments?: string[]
+          enabled?: boolean
+          id?: string
+          min_score_increase?: number | null
+          name: string
+          notify_case_counsellor?: boolean
+          notify_roles?: Database["public"]["Enums"]["app_role"][]
+          updated_at?: string
+          webhook_secret?: string | null
+          webhook_url?: string | null
+        }
+        Update: {
+          condition?: Database["public"]["Enums"]["risk_alert_condition"]
+          created_at?: string
+          created_by?: string | null
+          departments?: string[]
+          enabled?: boolean
+          id?: string
+          min_score_increase?: number | null
+          name?: string
+          notify_case_counsellor?: boolean
+          notify_roles?: Database["public"]["Enums"]["app_role"][]
+          updated_at?: string
+          webhook_secret?: string | null
+          webhook_url?: string | null
+        }
+        Relationships: []
+      }
+      risk_assessments: {
+        Row: {
+          assessed_at: string
+          id: string
+          input_snapshot: Json
+          model_version: string
+          prediction_factors: Json
+          risk_level: Database["public"]["Enums"]["risk_level"]
+          risk_score: number
+          semester: number
+          student_id: string
+        }
+        Insert: {
+          assessed_at?: string
+          id?: string
+          input_snapshot: Json
+          model_version: string
+          prediction_factors: Json
+          risk_level: Database["public"]["Enums"]["risk_level"]
+          risk_score: number
+          semester: number
+          student_id: string
+        }
+        Update: {
+          assessed_at?: string
+          id?: string
+          input_snapshot?: Json
+          model_version?: string
+          prediction_factors?: Json
+          risk_level?: Database["public"]["Enums"]["risk_level"]
+          risk_score?: number
+          semester?: number
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "risk_assessments_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      risk_escalation_events: {
+        Row: {
+          created_at: string
+          department: string
+          id: string
+          matched_rule_ids: string[]
+          previous_risk_level: Database["public"]["Enums"]["risk_level"] | null
+          previous_risk_score: number | null
+          risk_level: Database["public"]["Enums"]["risk_level"] | null
+          risk_score: number | null
+          student_id: string
+        }
+        Insert: {
+          created_at?: string
+          department: string
+          id?: string
+          matched_rule_ids?: string[]
+          previous_risk_level?: Database["public"]["Enums"]["risk_level"] | null
+          previous_risk_score?: number | null
+          risk_level?: Database["public"]["Enums"]["risk_level"] | null
+          risk_score?: number | null
+          student_id: string
+        }
+        Update: {
+          created_at?: string
+          department?: string
+          id?: string
+          matched_rule_ids?: string[]
+          previous_risk_level?: Database["public"]["Enums"]["risk_level"] | null
+          previous_risk_score?: number | null
+          risk_level?: Database["public"]["Enums"]["risk_level"] | null
+          risk_score?: number | null
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "risk_escalation_events_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      risk_model_configs: {
+        Row: {
+          coefficients: Json | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          imputation_strategy: Database["public"]["Enums"]["imputation_strategy"]
+          is_active: boolean
+          model_type: Database["public"]["Enums"]["risk_model_type"]
+          name: string
+          thresholds: Json
+          training_metrics: Json | null
+          updated_at: string
+          version: number
+          weights: Json
+        }
+        Insert: {
+          coefficients?: Json | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          imputation_strategy?: Database["public"]["Enums"]["imputation_strategy"]
+          is_active?: boolean
+          model_type?: Database["public"]["Enums"]["risk_model_type"]
+          name: string
+          thresholds: Json
+          training_metrics?: Json | null
+          updated_at?: string
+          version: number
+          weights: Json
+        }
+        Update: {
+          coefficients?: Json | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          imputation_strategy?: Database["public"]["Enums"]["imputation_strategy"]
+          is_active?: boolean
+          model_type?: Database["public"]["Enums"]["risk_model_type"]
+          name?: string
+          thresholds?: Json
+          training_metrics?: Json | null
+          updated_at?: string
+          version?: number
+          weights?: Json
+        }
+        Relationships: []
+      }
+      student_audit_log: {
+        Row: {
+          action: Database["public"]["Enums"]["audit_action"]
+          changed_by: string | null
+          changes: Json
+          created_at: string
+          id: string
+          student_id: string
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["audit_action"]
+          changed_by?: string | null
+          changes?: Json
+          created_at?: string
+          id?: string
+          student_id: string
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["audit_action"]
+          changed_by?: string | null
+          changes?: Json
+          created_at?: string
+          id?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_audit_log_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_cases: {
+        Row: {
+          closed_at: string | null
+          counsellor_id: string | null
+          created_at: string
+          id: string
+          opened_by: string | null
+          stage_entered_at: string
+          status: Database["public"]["Enums"]["case_status"]
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          closed_at?: string | null
+          counsellor_id?: string | null
+          created_at?: string
+          id?: string
+          opened_by?: string | null
+          stage_entered_at?: string
+          status?: Database["public"]["Enums"]["case_status"]
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          closed_at?: string | null
+          counsellor_id?: string | null
+          created_at?: string
+          id?: string
+          opened_by?: string | null
+          stage_entered_at?: string
+          status?: Database["public"]["Enums"]["case_status"]
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_cases_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       students: {
         Row: {
-          attendance_percentage: number
-          cgpa: number
+          attendance_percentage: number | null
+          cgpa: number | null
           created_at: string
           department: string
           disciplinary_actions: number
@@ -100,20 +726,23 @@ export type Database = {
           gender: Database["public"]["Enums"]["gender"]
           hostel_accommodation: boolean
           id: string
+          import_job_id: string | null
           name: string
+          outcome: Database["public"]["Enums"]["student_outcome"] | null
+          outcome_recorded_at: string | null
           prediction_factors: Json | null
           previous_education_gap: boolean
           risk_level: Database["public"]["Enums"]["risk_level"] | null
           risk_score: number | null
           scholarship: boolean
           semester: number
-          sgpa: number
+          sgpa: number | null
           student_id: string
           updated_at: string
         }
         Insert: {
-          attendance_percentage: number
-          cgpa: number
+          attendance_percentage?: number | null
+          cgpa?: number | null
           created_at?: string
           department: string
           disciplinary_actions?: number
@@ -125,20 +754,23 @@ export type Database = {
           gender: Database["public"]["Enums"]["gender"]
           hostel_accommodation?: boolean
           id?: string
+          import_job_id?: string | null
           name: string
+          outcome?: Database["public"]["Enums"]["student_outcome"] | null
+          outcome_recorded_at?: string | null
           prediction_factors?: Json | null
           previous_education_gap?: boolean
           risk_level?: Database["public"]["Enums"]["risk_level"] | null
           risk_score?: number | null
           scholarship?: boolean
           semester: number
-          sgpa: number
+          sgpa?: number | null
           student_id: string
           updated_at?: string
         }
         Update: {
-          attendance_percentage?: number
-          cgpa?: number
+          attendance_percentage?: number | null
+          cgpa?: number | null
           created_at?: string
           department?: string
           disciplinary_actions?: number
@@ -150,17 +782,76 @@ export type Database = {
           gender?: Database["public"]["Enums"]["gender"]
           hostel_accommodation?: boolean
           id?: string
+          import_job_id?: string | null
           name?: string
+          outcome?: Database["public"]["Enums"]["student_outcome"] | null
+          outcome_recorded_at?: string | null
           prediction_factors?: Json | null
           previous_education_gap?: boolean
           risk_level?: Database["public"]["Enums"]["risk_level"] | null
           risk_score?: number | null
           scholarship?: boolean
           semester?: number
-          sgpa?: number
+          sgpa?: number | null
           student_id?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "students_import_job_id_fkey"
+            columns: ["import_job_id"]
+            isOneToOne: false
+            referencedRelation: "import_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_departments: {
+        Row: {
+          created_at: string
+          department: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          department: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          department?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_invitations: {
+        Row: {
+          created_at: string
+          departments: string[]
+          email: string
+          id: string
+          invited_by: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          departments?: string[]
+          email: string
+          id?: string
+          invited_by?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          departments?: string[]
+          email?: string
+          id?: string
+          invited_by?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string | null
+        }
         Relationships: []
       }
     }
@@ -168,11 +859,110 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      activate_risk_model_config: {
+        Args: { config_id: string }
+        Returns: undefined
+      }
+      can_access_department: {
+        Args: { target_department: string }
+        Returns: boolean
+      }
+      can_access_student: {
+        Args: { target_student_id: string }
+        Returns: boolean
+      }
+      consume_rate_limit: {
+        Args: {
+          limit_action: string
+          max_requests: number
+          target_user_id: string
+          window_seconds: number
+        }
+        Returns: number
+      }
+      create_follow_up_notifications: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      current_app_role: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Enums"]["app_role"]
+      }
+      get_signup_policy: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          allowed_domains: string[]
+          signup_mode: Database["public"]["Enums"]["signup_mode"]
+        }[]
+      }
+      has_role: {
+        Args: { roles: Database["public"]["Enums"]["app_role"][] }
+        Returns: boolean
+      }
+      is_public_https_url: {
+        Args: { url: string }
+        Returns: boolean
+      }
+      revoke_user_sessions: {
+        Args: { target_user_id: string }
+        Returns: number
+      }
+      rollback_import_job: {
+        Args: { target_job_id: string }
+        Returns: undefined
+      }
+      trigger_follow_up_reminders: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      trigger_scheduled_rescoring: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      user_can_access_department: {
+        Args: { target_department: string; target_user_id: string }
+        Returns: boolean
+      }
     }
     Enums: {
+      app_role:
+        | "admin"
+        | "department_head"
+        | "counsellor"
+        | "faculty"
+        | "viewer"
+      audit_action: "insert" | "update"
+      case_status:
+        | "identified"
+        | "contacted"
+        | "plan_agreed"
+        | "monitoring"
+        | "resolved"
+        | "dropped_out"
       gender: "male" | "female" | "other"
+      import_change_action: "insert" | "update"
+      import_job_status:
+        | "queued"
+        | "processing"
+        | "completed"
+        | "failed"
+        | "rolled_back"
+      import_mode: "insert" | "update" | "upsert"
+      imputation_strategy: "department_median" | "global_median" | "neutral"
+      notification_kind: "follow_up_due" | "risk_escalation"
+      prediction_run_status: "running" | "completed" | "partial" | "failed"
+      prediction_trigger:
+        | "manual"
+        | "import"
+        | "rollback"
+        | "retry"
+        | "scheduled"
+      rescoring_frequency: "disabled" | "daily" | "weekly"
+      risk_alert_condition: "entered_high" | "level_increased" | "score_jump"
       risk_level: "low" | "medium" | "high"
+      risk_model_type: "heuristic" | "logistic_regression"
+      signup_mode: "disabled" | "domain" | "open"
+      student_outcome: "enrolled" | "graduated" | "dropped_out"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -300,8 +1090,42 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      app_role: [
+        "admin",
+        "department_head",
+        "counsellor",
+        "faculty",
+        "viewer",
+      ],
+      audit_action: ["insert", "update"],
+      case_status: [
+        "identified",
+        "contacted",
+        "plan_agreed",
+        "monitoring",
+        "resolved",
+        "dropped_out",
+      ],
       gender: ["male", "female", "other"],
+      import_change_action: ["insert", "update"],
+      import_job_status: [
+        "queued",
+        "processing",
+        "completed",
+        "failed",
+        "rolled_back",
+      ],
+      import_mode: ["insert", "update", "upsert"],
+      imputation_strategy: ["department_median", "global_median", "neutral"],
+      notification_kind: ["follow_up_due", "risk_escalation"],
+      prediction_run_status: ["running", "completed", "partial", "failed"],
+      prediction_trigger: ["manual", "import", "rollback", "retry", "scheduled"],
+      rescoring_frequency: ["disabled", "daily", "weekly"],
+      risk_alert_condition: ["entered_high", "level_increased", "score_jump"],
       risk_level: ["low", "medium", "high"],
+      risk_model_type: ["heuristic", "logistic_regression"],
+      signup_mode: ["disabled", "domain", "open"],
+      student_outcome: ["enrolled", "graduated", "dropped_out"],
     },
   },
 } as const
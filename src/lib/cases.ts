@@ -0,0 +1,43 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type StudentCase = Tables<'student_cases'>;
+export type CaseStatus = StudentCase['status'];
+
+// Pipeline order; resolved and dropped out both close the case
+export const CASE_STATUSES: CaseStatus[] = ['identified', 'contacted', 'plan_agreed', 'monitoring', 'resolved', 'dropped_out'];
+
+export const CLOSED_CASE_STATUSES: CaseStatus[] = ['resolved', 'dropped_out'];
+
+export const CASE_STATUS_LABELS: Record<CaseStatus, string> = {
+  identified: 'Identified',
+  contacted: 'Contacted',
+  plan_agreed: 'Plan agreed',
+  monitoring: 'Monitoring',
+  resolved: 'Resolved',
+  dropped_out: 'Dropped out',
+};
+
+// Days a case may stay in each open stage before it needs attention
+export const CASE_STAGE_SLA_DAYS: Partial<Record<CaseStatus, number>> = {
+  identified: 2,
+  contacted: 7,
+  plan_agreed: 14,
+  monitoring: 30,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const caseSla = (studentCase: Pick<StudentCase, 'status' | 'stage_entered_at'>, now = new Date()) => {
+  const daysInStage = Math.floor((now.getTime() - new Date(studentCase.stage_entered_at).getTime()) / DAY_MS);
+  const targetDays = CASE_STAGE_SLA_DAYS[studentCase.status] ?? null;
+  return {
+    daysInStage,
+    targetDays,
+    breached: targetDays !== null && daysInStage > targetDays,
+  };
+};
+
+export const nextCaseStatus = (status: CaseStatus): CaseStatus | null => {
+  const index = CASE_STATUSES.indexOf(status);
+  return index < CASE_STATUSES.indexOf('resolved') ? CASE_STATUSES[index + 1] : null;
+};
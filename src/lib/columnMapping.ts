@@ -0,0 +1,101 @@
+import { CellValue, cellToText } from '@/lib/spreadsheet';
+import { STUDENT_FIELDS, StudentField } from '@shared/studentImport.ts';
+
+export { STUDENT_FIELDS } from '@shared/studentImport.ts';
+export type { StudentField, StudentFieldType } from '@shared/studentImport.ts';
+
+// Uploaded header -> students column, or null to ignore the column
+export type ColumnMapping = Record<string, string | null>;
+
+export interface MappingPreset {
+  id: string;
+  name: string;
+  source_headers: string[];
+  mapping: ColumnMapping;
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const bigrams = (text: string) => {
+  const compact = text.replace(/ /g, '');
+  return new Set(Array.from({ length: Math.max(compact.length - 1, 0) }, (_, i) => compact.slice(i, i + 2)));
+};
+
+// Dice coefficient over character bigrams: 1 for identical strings, 0 for nothing in common
+const similarity = (a: string, b: string) => {
+  if (a === b) return 1;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  const shared = [...left].filter(pair => right.has(pair)).length;
+  return (2 * shared) / (left.size + right.size);
+};
+
+const fieldScore = (header: string, field: StudentField) => {
+  const candidates = [field.key, field.label, ...field.aliases].map(normalize);
+  return Math.max(...candidates.map(candidate => similarity(normalize(header), candidate)));
+};
+
+const MIN_SUGGESTION_SCORE = 0.6;
+
+// Best-scoring pairs are assigned first so each field is suggested for at most one column
+export const suggestMapping = (headers: string[]): ColumnMapping => {
+  const pairs = headers
+    .flatMap(header => STUDENT_FIELDS.map(field => ({ header, field: field.key, score: fieldScore(header, field) })))
+    .filter(pair => pair.score >= MIN_SUGGESTION_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  const mapping: ColumnMapping = Object.fromEntries(headers.map(header => [header, null]));
+  const usedFields = new Set<string>();
+  pairs.forEach(({ header, field }) => {
+    if (mapping[header] !== null || usedFields.has(field)) return;
+    mapping[header] = field;
+    usedFields.add(field);
+  });
+
+  return mapping;
+};
+
+// Preset entries win; headers the preset has never seen fall back to suggestions
+export const applyPreset = (headers: string[], preset: MappingPreset): ColumnMapping => {
+  const suggested = suggestMapping(headers);
+  const presetFields = new Set(Object.values(preset.mapping).filter(Boolean));
+  return Object.fromEntries(headers.map(header => [
+    header,
+    header in preset.mapping
+      ? preset.mapping[header]
+      : suggested[header] && !presetFields.has(suggested[header]) ? suggested[header] : null,
+  ]));
+};
+
+// A preset matches when every column it was saved with is present in the file
+export const findMatchingPreset = (headers: string[], presets: MappingPreset[]): MappingPreset | undefined => {
+  const available = new Set(headers);
+  return presets
+    .filter(preset => preset.source_headers.length > 0 && preset.source_headers.every(header => available.has(header)))
+    .sort((a, b) => b.source_headers.length - a.source_headers.length)[0];
+};
+
+export const missingRequiredFields = (mapping: ColumnMapping): StudentField[] => {
+  const mapped = new Set(Object.values(mapping));
+  return STUDENT_FIELDS.filter(field => field.required && !mapped.has(field.key));
+};
+
+export const duplicateFields = (mapping: ColumnMapping): string[] => {
+  const counts = new Map<string, number>();
+  Object.values(mapping).forEach(field => {
+    if (field) counts.set(field, (counts.get(field) || 0) + 1);
+  });
+  return [...counts.entries()].filter(([, count]) => count > 1).map(([field]) => field);
+};
+
+// Text of each mapped cell keyed by students column; unmapped and empty cells are left out
+export const extractMappedValues = (headers: string[], row: CellValue[], mapping: ColumnMapping): Record<string, string> => {
+  const values: Record<string, string> = {};
+  headers.forEach((header, index) => {
+    const field = mapping[header];
+    const text = cellToText(row[index] ?? null);
+    if (field && text !== '') values[field] = text;
+  });
+  return values;
+};
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { createCsvParser, detectDelimiter, parseCsv, readCsvFile } from '@/lib/csv';
+
+const parseInChunks = (text: string, size: number) => {
+  const rows: string[][] = [];
+  const parser = createCsvParser(row => rows.push(row));
+  for (let i = 0; i < text.length; i += size) {
+    parser.push(text.slice(i, i + size));
+  }
+  parser.end();
+  return rows;
+};
+
+describe('parseCsv', () => {
+  it('keeps delimiters inside quoted fields', () => {
+    expect(parseCsv('name,city\n"Doe, Jane","Pune, MH"')).toEqual([
+      ['name', 'city'],
+      ['Doe, Jane', 'Pune, MH'],
+    ]);
+  });
+
+  it('unescapes doubled quotes', () => {
+    expect(parseCsv('note\n"She said ""hi"""\n""""')).toEqual([
+      ['note'],
+      ['She said "hi"'],
+      ['"'],
+    ]);
+  });
+
+  it('keeps line breaks inside quoted fields', () => {
+    expect(parseCsv('name,note\nJane,"first line\nsecond line"\nJohn,ok')).toEqual([
+      ['name', 'note'],
+      ['Jane', 'first line\nsecond line'],
+      ['John', 'ok'],
+    ]);
+  });
+
+  it('accepts CRLF and bare CR line endings', () => {
+    const expected = [['a', 'b'], ['1', '2'], ['3', '4']];
+    expect(parseCsv('a,b\r\n1,2\r\n3,4\r\n')).toEqual(expected);
+    expect(parseCsv('a,b\r1,2\r3,4')).toEqual(expected);
+  });
+
+  it('strips a byte order mark from the first header', () => {
+    expect(parseCsv('\uFEFFname,cgpa\nJane,8.1')).toEqual([
+      ['name', 'cgpa'],
+      ['Jane', '8.1'],
+    ]);
+  });
+
+  it('skips blank lines', () => {
+    expect(parseCsv('a,b\n\n1,2\n\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('keeps empty fields and a trailing empty field', () => {
+    expect(parseCsv('a,b,c\n1,,\n"",2,3')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '', ''],
+      ['', '2', '3'],
+    ]);
+  });
+
+  it('reports the line an unterminated quote starts on', () => {
+    expect(() => parseCsv('name,note\nJane,ok\nJohn,"never\nclosed')).toThrow(
+      'Unterminated quoted field starting on line 3'
+    );
+  });
+
+  it('parses with a detected semicolon delimiter', () => {
+    expect(parseCsv('name;cgpa\n"Doe; Jane";8,1')).toEqual([
+      ['name', 'cgpa'],
+      ['Doe; Jane', '8,1'],
+    ]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('detects semicolons', () => {
+    expect(detectDelimiter('name;email;cgpa\nJane;jane@example.edu;8,1')).toBe(';');
+  });
+
+  it('detects tabs', () => {
+    expect(detectDelimiter('name\temail\tcgpa\nJane\tjane@example.edu\t8.1')).toBe('\t');
+  });
+
+  it('ignores candidates inside quotes and after the first record', () => {
+    expect(detectDelimiter('"a;b;c",d\n1;2;3;4;5')).toBe(',');
+  });
+
+  it('falls back to commas for a single column', () => {
+    expect(detectDelimiter('name\nJane')).toBe(',');
+  });
+});
+
+describe('createCsvParser', () => {
+  const text = '\uFEFFname,note\r\n"Doe, Jane","said ""hi""\r\nthen left"\r\nJohn,ok\r\n';
+
+  it('gives the same rows however the input is split into chunks', () => {
+    const whole = parseCsv(text);
+    for (let size = 1; size <= text.length; size++) {
+      expect(parseInChunks(text, size)).toEqual(whole);
+    }
+  });
+
+  it('does not read a CRLF split across chunks as two line breaks', () => {
+    const rows: string[][] = [];
+    const parser = createCsvParser(row => rows.push(row));
+    parser.push('a,b\r');
+    parser.push('\n1,2');
+    parser.end();
+    expect(rows).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('reports the line each record starts on', () => {
+    for (const newline of ['\n', '\r\n', '\r']) {
+      const lines: number[] = [];
+      const parser = createCsvParser((_, line) => lines.push(line));
+      parser.push(['name,note', 'Jane,"two', 'lines"', '', 'John,ok'].join(newline));
+      parser.end();
+      expect(lines).toEqual([1, 2, 5]);
+    }
+  });
+
+  it('reports the delimiter it detected', () => {
+    const parser = createCsvParser(() => {});
+    parser.push('a\tb\n');
+    parser.end();
+    expect(parser.delimiter()).toBe('\t');
+  });
+});
+
+describe('readCsvFile', () => {
+  it('reads UTF-8 files', async () => {
+    const file = new File(['name,city\nJosé,Zürich'], 'students.csv');
+    const result = await readCsvFile(file);
+    expect(result.encoding).toBe('utf-8');
+    expect(result.rows).toEqual([['name', 'city'], ['José', 'Zürich']]);
+    expect(result.lines).toEqual([1, 2]);
+  });
+
+  it('falls back to Windows-1252 when the file is not valid UTF-8', async () => {
+    // "José;Zürich" as Excel on Windows saves it
+    const bytes = new Uint8Array([
+      ...new TextEncoder().encode('name;city\nJos'), 0xe9, 0x3b, 0x5a, 0xfc, ...new TextEncoder().encode('rich'),
+    ]);
+    const result = await readCsvFile(new File([bytes], 'students.csv'));
+    expect(result.encoding).toBe('windows-1252');
+    expect(result.delimiter).toBe(';');
+    expect(result.rows).toEqual([['name', 'city'], ['José', 'Zürich']]);
+  });
+});
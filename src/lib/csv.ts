@@ -0,0 +1,179 @@
+// RFC 4180 CSV parsing: quoted fields, escaped quotes, embedded delimiters and line breaks,
+// CRLF/LF/CR line endings, byte order marks and `,` / `;` / tab delimiters.
+
+export const CSV_DELIMITERS = [',', ';', '\t'] as const;
+
+export type CsvDelimiter = typeof CSV_DELIMITERS[number];
+
+export interface CsvParseOptions {
+  // Detected from the header line when omitted
+  delimiter?: CsvDelimiter;
+}
+
+export interface CsvParser {
+  push: (chunk: string) => void;
+  end: () => void;
+  delimiter: () => CsvDelimiter | undefined;
+}
+
+export interface CsvFile {
+  rows: string[][];
+  // Line each row starts on, counting from 1; differs from the row index after blank lines or multi-line fields
+  lines: number[];
+  delimiter: CsvDelimiter;
+  encoding: string;
+}
+
+const BOM = '\uFEFF';
+
+// Picks the candidate that occurs most often, outside quotes, in the first record
+export const detectDelimiter = (sample: string): CsvDelimiter => {
+  const counts = new Map<string, number>(CSV_DELIMITERS.map(delimiter => [delimiter, 0]));
+  let inQuotes = false;
+
+  for (const char of sample.startsWith(BOM) ? sample.slice(1) : sample) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) break;
+    else if (!inQuotes && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+
+  return CSV_DELIMITERS.reduce((best, delimiter) => (counts.get(delimiter)! > counts.get(best)! ? delimiter : best), ',');
+};
+
+// Chunks may split a record, a quoted field or a CRLF pair anywhere; state carries across pushes
+export const createCsvParser = (onRow: (row: string[], line: number) => void, options: CsvParseOptions = {}): CsvParser => {
+  let delimiter = options.delimiter;
+  let started = false;
+  let row: string[] = [];
+  let field = '';
+  let fieldQuoted = false;
+  let inQuotes = false;
+  let quoteInQuotes = false;
+  let afterCR = false;
+  let line = 1;
+  let rowLine = 1;
+  let quoteLine = 1;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+    fieldQuoted = false;
+  };
+
+  // Blank lines are skipped rather than read as a record with one empty field
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0] !== '') onRow(row, rowLine);
+    row = [];
+  };
+
+  const push = (chunk: string) => {
+    if (!started) {
+      if (chunk.startsWith(BOM)) chunk = chunk.slice(1);
+      if (chunk === '') return;
+      delimiter ??= detectDelimiter(chunk);
+      started = true;
+    }
+
+    for (const char of chunk) {
+      if (afterCR) {
+        afterCR = false;
+        if (char === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (quoteInQuotes) {
+          quoteInQuotes = false;
+          if (char === '"') {
+            // "" inside a quoted field is an escaped quote
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+        } else if (char === '"') {
+          quoteInQuotes = true;
+          continue;
+        } else {
+          if (char === '\r' || (char === '\n' && !field.endsWith('\r'))) line++;
+          field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && field === '' && !fieldQuoted) {
+        inQuotes = true;
+        fieldQuoted = true;
+        quoteLine = line;
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\n' || char === '\r') {
+        endRow();
+        line++;
+        rowLine = line;
+        afterCR = char === '\r';
+      } else {
+        // Stray quotes in unquoted fields, or text after a closing quote, are kept as-is
+        field += char;
+      }
+    }
+  };
+
+  const end = () => {
+    if (inQuotes && !quoteInQuotes) {
+      throw new Error(`Unterminated quoted field starting on line ${quoteLine}`);
+    }
+    inQuotes = false;
+    quoteInQuotes = false;
+    if (field !== '' || fieldQuoted || row.length > 0) endRow();
+  };
+
+  return { push, end, delimiter: () => delimiter };
+};
+
+export const parseCsv = (text: string, options: CsvParseOptions = {}): string[][] => {
+  const rows: string[][] = [];
+  const parser = createCsvParser(row => rows.push(row), options);
+  parser.push(text);
+  parser.end();
+  return rows;
+};
+
+const detectEncoding = async (file: File): Promise<string> => {
+  const bytes = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return 'utf-8';
+};
+
+const streamCsvFile = async (file: File, encoding: string, options: CsvParseOptions): Promise<CsvFile> => {
+  const rows: string[][] = [];
+  const lines: number[] = [];
+  const parser = createCsvParser((row, line) => {
+    rows.push(row);
+    lines.push(line);
+  }, options);
+  // Only UTF-8 is decoded strictly, so invalid bytes can trigger the legacy encoding fallback
+  const decoder = new TextDecoder(encoding, { fatal: encoding === 'utf-8' });
+  const reader = file.stream().getReader();
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(decoder.decode(value, { stream: true }));
+  }
+  parser.push(decoder.decode());
+  parser.end();
+
+  return { rows, lines, delimiter: parser.delimiter() ?? ',', encoding };
+};
+
+// Files saved by Excel on Windows are often Windows-1252 rather than UTF-8
+export const readCsvFile = async (file: File, options: CsvParseOptions = {}): Promise<CsvFile> => {
+  const encoding = await detectEncoding(file);
+  try {
+    return await streamCsvFile(file, encoding, options);
+  } catch (error) {
+    if (encoding !== 'utf-8' || !(error instanceof TypeError)) throw error;
+    return streamCsvFile(file, 'windows-1252', options);
+  }
+};
@@ -0,0 +1,40 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+const formatWait = (seconds: number) =>
+  seconds < 60 ? `${seconds} seconds` : `${Math.ceil(seconds / 60)} minutes`;
+
+// Turns 401/403/429 responses from an edge function into a message worth showing the user
+const describeHttpError = async (error: FunctionsHttpError) => {
+  const response = error.context as Response;
+  let body: { error?: string; retryAfter?: number } = {};
+  try {
+    body = await response.json();
+  } catch {
+    // Not every failure has a JSON body
+  }
+
+  switch (response.status) {
+    case 401:
+      return 'Your session has expired. Please sign in again.';
+    case 403:
+      return body.error || 'You do not have permission to do this.';
+    case 429: {
+      const retryAfter = body.retryAfter ?? Number(response.headers.get('Retry-After'));
+      return retryAfter
+        ? `Too many requests. Try again in ${formatWait(retryAfter)}.`
+        : 'Too many requests. Try again later.';
+    }
+    default:
+      return body.error || error.message;
+  }
+};
+
+export const invokeEdgeFunction = async <T>(name: string, body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error instanceof FunctionsHttpError) throw new Error(await describeHttpError(error));
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data as T;
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { FairnessOptions, FairnessStudent, GroupStats, buildGroupStats, findDisparities, groupOf } from '@/lib/fairness';
+
+const options: FairnessOptions = { flagLevel: 'high', maxRatio: 1.25, minGroupSize: 2 };
+
+const student = (overrides: Partial<FairnessStudent> = {}): FairnessStudent => ({
+  gender: 'female',
+  family_income: 300000,
+  hostel_accommodation: false,
+  risk_score: 0.2,
+  risk_level: 'low',
+  outcome: null,
+  ...overrides,
+});
+
+const group = (name: string, overrides: Partial<GroupStats> = {}): GroupStats => ({
+  group: name,
+  count: 10,
+  levels: { low: 10, medium: 0, high: 0 },
+  mean_score: 0.3,
+  flag_rate: 0.2,
+  labelled: 10,
+  false_positive_rate: null,
+  false_negative_rate: null,
+  ...overrides,
+});
+
+describe('groupOf', () => {
+  it('places family income in the model income bands', () => {
+    expect(groupOf(student({ family_income: 199999 }), 'income')).toBe('Below 2,00,000');
+    expect(groupOf(student({ family_income: 200000 }), 'income')).toBe('2,00,000 – 5,00,000');
+    expect(groupOf(student({ family_income: 900000 }), 'income')).toBe('5,00,000 and above');
+    expect(groupOf(student({ family_income: null }), 'income')).toBe('Not recorded');
+  });
+});
+
+describe('buildGroupStats', () => {
+  it('computes flag and error rates per group', () => {
+    const stats = buildGroupStats(
+      [
+        student({ risk_level: 'high', risk_score: 0.8, outcome: 'graduated' }),
+        student({ risk_level: 'low', risk_score: 0.2, outcome: 'graduated' }),
+        student({ risk_level: 'low', risk_score: 0.2, outcome: 'dropped_out' }),
+        student({ risk_level: null, risk_score: null }),
+        student({ gender: 'male', risk_level: 'medium', risk_score: 0.5, outcome: 'enrolled' }),
+      ],
+      'gender',
+      options
+    );
+
+    const [female, male] = stats;
+    expect(female.group).toBe('female');
+    expect(female.count).toBe(4);
+    expect(female.levels).toEqual({ low: 2, medium: 0, high: 1 });
+    expect(female.mean_score).toBeCloseTo(0.4);
+    expect(female.flag_rate).toBeCloseTo(1 / 3);
+    expect(female.labelled).toBe(3);
+    expect(female.false_positive_rate).toBe(0.5);
+    expect(female.false_negative_rate).toBe(1);
+
+    // Enrolled students have no resolved outcome yet
+    expect(male.labelled).toBe(0);
+    expect(male.false_positive_rate).toBeNull();
+    expect(male.flag_rate).toBe(0);
+  });
+});
+
+describe('findDisparities', () => {
+  it('reports the ratio of the highest to the lowest group', () => {
+    const disparities = findDisparities(
+      [group('female', { flag_rate: 0.1 }), group('male', { flag_rate: 0.3 }), group('other', { flag_rate: 0.2 })],
+      options
+    );
+    expect(disparities).toHaveLength(1);
+    expect(disparities[0]).toMatchObject({ metric: 'flag_rate', highest: 'male', lowest: 'female' });
+    expect(disparities[0].ratio).toBeCloseTo(3);
+  });
+
+  it('ignores ratios within the allowed maximum', () => {
+    expect(findDisparities([group('a', { flag_rate: 0.2 }), group('b', { flag_rate: 0.24 })], options)).toEqual([]);
+  });
+
+  it('treats a zero lowest value as an unbounded ratio', () => {
+    const [disparity] = findDisparities([group('a', { flag_rate: 0 }), group('b', { flag_rate: 0.1 })], options);
+    expect(disparity.ratio).toBe(Infinity);
+  });
+
+  it('skips groups below the minimum size, using labelled counts for error rates', () => {
+    const stats = [
+      group('a', { false_positive_rate: 0.1, labelled: 1 }),
+      group('b', { false_positive_rate: 0.5, labelled: 5 }),
+      group('c', { count: 1, flag_rate: 0.9 }),
+    ];
+    expect(findDisparities(stats, options)).toEqual([]);
+  });
+});
@@ -0,0 +1,141 @@
+import type { RiskLevel, StudentOutcome } from '@/lib/modelMetrics';
+
+export interface FairnessStudent {
+  gender: 'male' | 'female' | 'other';
+  family_income: number | null;
+  hostel_accommodation: boolean;
+  risk_score: number | null;
+  risk_level: RiskLevel | null;
+  outcome: StudentOutcome | null;
+}
+
+export type FairnessDimension = 'gender' | 'income' | 'hostel';
+
+export type FairnessMetric = 'mean_score' | 'flag_rate' | 'false_positive_rate' | 'false_negative_rate';
+
+export interface GroupStats {
+  group: string;
+  count: number;
+  levels: Record<RiskLevel, number>;
+  mean_score: number | null;
+  flag_rate: number | null;
+  labelled: number;
+  false_positive_rate: number | null;
+  false_negative_rate: number | null;
+}
+
+export interface Disparity {
+  metric: FairnessMetric;
+  ratio: number;
+  highest: string;
+  lowest: string;
+}
+
+export interface FairnessOptions {
+  flagLevel: Exclude<RiskLevel, 'low'>;
+  maxRatio: number;
+  minGroupSize: number;
+}
+
+export const DIMENSION_LABELS: Record<FairnessDimension, string> = {
+  gender: 'Gender',
+  income: 'Family income',
+  hostel: 'Hostel accommodation',
+};
+
+export const METRIC_LABELS: Record<FairnessMetric, string> = {
+  mean_score: 'Mean risk score',
+  flag_rate: 'Flag rate',
+  false_positive_rate: 'False positive rate',
+  false_negative_rate: 'False negative rate',
+};
+
+// Same cut-offs the default model uses for low and medium income
+export const INCOME_BANDS = [
+  { label: 'Below 2,00,000', below: 200000 },
+  { label: '2,00,000 – 5,00,000', below: 500000 },
+  { label: '5,00,000 and above', below: Infinity },
+];
+
+const levelRank: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2 };
+
+export const groupOf = (student: FairnessStudent, dimension: FairnessDimension): string => {
+  switch (dimension) {
+    case 'gender':
+      return student.gender;
+    case 'hostel':
+      return student.hostel_accommodation ? 'In hostel' : 'Not in hostel';
+    case 'income': {
+      if (student.family_income === null || student.family_income === undefined) return 'Not recorded';
+      return INCOME_BANDS.find(band => student.family_income! < band.below)!.label;
+    }
+  }
+};
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null);
+
+export const buildGroupStats = (
+  students: FairnessStudent[],
+  dimension: FairnessDimension,
+  { flagLevel }: Pick<FairnessOptions, 'flagLevel'>
+): GroupStats[] => {
+  const groups = new Map<string, FairnessStudent[]>();
+  students.forEach(student => {
+    const group = groupOf(student, dimension);
+    groups.set(group, [...(groups.get(group) || []), student]);
+  });
+
+  const isFlagged = (student: FairnessStudent) =>
+    student.risk_level !== null && levelRank[student.risk_level] >= levelRank[flagLevel];
+
+  return [...groups.entries()]
+    .map(([group, members]) => {
+      const scored = members.filter(student => student.risk_level !== null);
+      // Only resolved outcomes count; enrolled students have not dropped out or graduated yet
+      const labelled = scored.filter(student => student.outcome === 'dropped_out' || student.outcome === 'graduated');
+      const negatives = labelled.filter(student => student.outcome === 'graduated');
+      const positives = labelled.filter(student => student.outcome === 'dropped_out');
+
+      return {
+        group,
+        count: members.length,
+        levels: {
+          low: scored.filter(student => student.risk_level === 'low').length,
+          medium: scored.filter(student => student.risk_level === 'medium').length,
+          high: scored.filter(student => student.risk_level === 'high').length,
+        },
+        mean_score: mean(scored.map(student => student.risk_score ?? 0)),
+        flag_rate: scored.length > 0 ? scored.filter(isFlagged).length / scored.length : null,
+        labelled: labelled.length,
+        false_positive_rate: negatives.length > 0 ? negatives.filter(isFlagged).length / negatives.length : null,
+        false_negative_rate: positives.length > 0 ? positives.filter(s => !isFlagged(s)).length / positives.length : null,
+      };
+    })
+    .sort((a, b) => a.group.localeCompare(b.group));
+};
+
+// Ratio of the highest to the lowest group value, ignoring groups too small to be meaningful
+export const findDisparities = (stats: GroupStats[], { maxRatio, minGroupSize }: FairnessOptions): Disparity[] => {
+  const metrics: FairnessMetric[] = ['mean_score', 'flag_rate', 'false_positive_rate', 'false_negative_rate'];
+  const disparities: Disparity[] = [];
+
+  metrics.forEach(metric => {
+    const sizeOf = (group: GroupStats) =>
+      metric === 'false_positive_rate' || metric === 'false_negative_rate' ? group.labelled : group.count;
+    const eligible = stats.filter(group => group[metric] !== null && sizeOf(group) >= minGroupSize);
+    if (eligible.length < 2) return;
+
+    const sorted = [...eligible].sort((a, b) => (a[metric] as number) - (b[metric] as number));
+    const lowest = sorted[0];
+    const highest = sorted[sorted.length - 1];
+    const low = lowest[metric] as number;
+    const high = highest[metric] as number;
+    const ratio = low > 0 ? high / low : high > 0 ? Infinity : 1;
+
+    if (ratio > maxRatio) {
+      disparities.push({ metric, ratio, highest: highest.group, lowest: lowest.group });
+    }
+  });
+
+  return disparities;
+};
@@ -0,0 +1,10 @@
+import type { ImportMode } from '@shared/studentImport.ts';
+
+export { planImport } from '@shared/studentImport.ts';
+export type { ExistingStudent, ImportMode, ImportPlan, PlannedRow, RowAction } from '@shared/studentImport.ts';
+
+export const IMPORT_MODE_LABELS: Record<ImportMode, string> = {
+  insert: 'Insert new students only',
+  update: 'Update existing students only',
+  upsert: 'Insert new and update existing',
+};
@@ -0,0 +1,22 @@
+import { SheetData } from '@/lib/spreadsheet';
+import { ColumnMapping, STUDENT_FIELDS, extractMappedValues } from '@/lib/columnMapping';
+import { ImportRow, RejectedRow, validateImportRows } from '@shared/studentImport.ts';
+
+export { updateImportRow, validateImportRows } from '@shared/studentImport.ts';
+export type { ImportRow, RejectedRow, SourceRow, StudentRecord } from '@shared/studentImport.ts';
+
+export const buildImportRows = (sheet: SheetData, mapping: ColumnMapping): ImportRow[] =>
+  validateImportRows(sheet.rows.map((row, index) => ({
+    rowNumber: sheet.rowNumbers[index],
+    values: extractMappedValues(sheet.headers, row, mapping),
+  })), sheet.decimalSeparator);
+
+const csvCell = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+
+export const buildErrorReport = (rows: RejectedRow[]): string => {
+  const fields = STUDENT_FIELDS.filter(field => rows.some(row => row.values[field.key] !== undefined));
+  return [
+    ['Row', ...fields.map(field => field.label), 'Reasons'],
+    ...rows.map(row => [row.rowNumber, ...fields.map(field => row.values[field.key] ?? ''), row.errors.join('; ')]),
+  ].map(line => line.map(csvCell).join(',')).join('\n');
+};
@@ -0,0 +1,51 @@
+import { format } from 'date-fns';
+import { z } from 'zod';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type InterventionNote = Tables<'intervention_notes'>;
+
+export const INTERVENTION_TYPE_LABELS: Record<string, string> = {
+  counselling: 'Counselling session',
+  academic_support: 'Academic support',
+  financial_aid: 'Financial aid',
+  attendance_follow_up: 'Attendance follow-up',
+  parent_meeting: 'Parent/guardian meeting',
+  mentoring: 'Mentoring',
+  other: 'Other',
+};
+
+// intervention_type is free text in the table, so older rows may hold values outside the list above
+export const interventionTypeLabel = (type: string) => INTERVENTION_TYPE_LABELS[type] ?? type;
+
+export const interventionSchema = z.object({
+  intervention_type: z.string().min(1, 'Choose the type of intervention'),
+  staff_member: z.string().trim().min(1, 'Enter who carried out the intervention').max(100, 'Keep the name under 100 characters'),
+  note: z.string().trim().min(1, 'Describe what was done or agreed').max(2000, 'Keep the note under 2000 characters'),
+  // Empty string when no follow-up is planned; the date input yields YYYY-MM-DD
+  follow_up_date: z.string().regex(/^(\d{4}-\d{2}-\d{2})?$/, 'Enter a valid date'),
+  completed: z.boolean(),
+});
+
+export type InterventionFormValues = z.infer<typeof interventionSchema>;
+
+export const toInterventionValues = (note?: InterventionNote): InterventionFormValues => ({
+  intervention_type: note?.intervention_type ?? '',
+  staff_member: note?.staff_member ?? '',
+  note: note?.note ?? '',
+  follow_up_date: note?.follow_up_date ?? '',
+  completed: note?.completed ?? false,
+});
+
+export const fromInterventionValues = (values: InterventionFormValues) => ({
+  intervention_type: values.intervention_type,
+  staff_member: values.staff_member.trim(),
+  note: values.note.trim(),
+  follow_up_date: values.follow_up_date || null,
+  completed: values.completed,
+});
+
+// Follow-up dates are calendar days in the user's time zone
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+export const isOverdue = (note: Pick<InterventionNote, 'completed' | 'follow_up_date'>) =>
+  !note.completed && note.follow_up_date !== null && note.follow_up_date < today();
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BacktestResult,
+  RiskLevel,
+  StudentOutcome,
+  buildCalibrationCurve,
+  buildConfusionMatrix,
+  buildLevelMetrics,
+  buildRocCurve,
+} from '@/lib/modelMetrics';
+
+const result = (risk_score: number, outcome: StudentOutcome, risk_level: RiskLevel = 'low'): BacktestResult => ({
+  id: `${risk_score}-${outcome}`,
+  outcome,
+  risk_score,
+  risk_level,
+});
+
+describe('buildConfusionMatrix', () => {
+  it('counts predicted levels against outcomes', () => {
+    const matrix = buildConfusionMatrix([
+      result(0.9, 'dropped_out', 'high'),
+      result(0.8, 'graduated', 'high'),
+      result(0.2, 'enrolled', 'low'),
+    ]);
+    expect(matrix.high).toEqual({ dropped_out: 1, graduated: 1, enrolled: 0 });
+    expect(matrix.medium).toEqual({ dropped_out: 0, graduated: 0, enrolled: 0 });
+    expect(matrix.low.enrolled).toBe(1);
+  });
+});
+
+describe('buildLevelMetrics', () => {
+  it('flags each level and everything above it', () => {
+    const metrics = buildLevelMetrics([
+      result(0.9, 'dropped_out', 'high'),
+      result(0.5, 'dropped_out', 'medium'),
+      result(0.5, 'graduated', 'medium'),
+      result(0.1, 'graduated', 'low'),
+    ]);
+    const byLevel = Object.fromEntries(metrics.map(m => [m.level, m]));
+
+    expect(byLevel.low).toMatchObject({ flagged: 4, truePositives: 2, precision: 0.5, recall: 1 });
+    expect(byLevel.medium).toMatchObject({ flagged: 3, truePositives: 2, recall: 1 });
+    expect(byLevel.medium.precision).toBeCloseTo(2 / 3);
+    expect(byLevel.high).toMatchObject({ flagged: 1, truePositives: 1, precision: 1, recall: 0.5 });
+  });
+});
+
+describe('buildRocCurve', () => {
+  it('has an AUC of 1 when every dropout scores above every graduate', () => {
+    const { points, auc } = buildRocCurve([
+      result(0.9, 'dropped_out'),
+      result(0.8, 'dropped_out'),
+      result(0.3, 'graduated'),
+      result(0.1, 'graduated'),
+    ]);
+    expect(auc).toBeCloseTo(1);
+    expect(points[0]).toEqual({ threshold: 1, fpr: 0, tpr: 0 });
+    expect(points[points.length - 1]).toMatchObject({ fpr: 1, tpr: 1 });
+  });
+
+  it('has an AUC of 0 when the ranking is reversed', () => {
+    const { auc } = buildRocCurve([result(0.1, 'dropped_out'), result(0.9, 'graduated')]);
+    expect(auc).toBeCloseTo(0);
+  });
+
+  it('counts tied scores as half right', () => {
+    const { auc } = buildRocCurve([result(0.5, 'dropped_out'), result(0.5, 'graduated')]);
+    expect(auc).toBeCloseTo(0.5);
+  });
+
+  it('matches the share of correctly ordered dropout/non-dropout pairs', () => {
+    // Pairs (dropout, other): (0.8, 0.6) (0.8, 0.2) (0.4, 0.6) (0.4, 0.2) -> 3 of 4 ordered correctly
+    const { auc } = buildRocCurve([
+      result(0.8, 'dropped_out'),
+      result(0.4, 'dropped_out'),
+      result(0.6, 'graduated'),
+      result(0.2, 'enrolled'),
+    ]);
+    expect(auc).toBeCloseTo(0.75);
+  });
+
+  it('is empty without both classes', () => {
+    expect(buildRocCurve([result(0.5, 'dropped_out')])).toEqual({ points: [], auc: 0 });
+    expect(buildRocCurve([])).toEqual({ points: [], auc: 0 });
+  });
+});
+
+describe('buildCalibrationCurve', () => {
+  it('compares the mean predicted score with the observed dropout rate per bin', () => {
+    const bins = buildCalibrationCurve([
+      result(0.12, 'dropped_out'),
+      result(0.18, 'graduated'),
+      result(0.85, 'dropped_out'),
+      result(0.95, 'dropped_out'),
+      result(1, 'graduated'),
+    ]);
+
+    expect(bins).toHaveLength(3);
+    expect(bins[0]).toMatchObject({ bin: '10–20%', count: 2, observed: 0.5 });
+    expect(bins[0].predicted).toBeCloseTo(0.15);
+    expect(bins[1]).toMatchObject({ bin: '80–90%', count: 1, observed: 1 });
+    // A score of exactly 1 falls in the top bin rather than past it
+    expect(bins[2]).toMatchObject({ bin: '90–100%', count: 2, observed: 0.5 });
+  });
+
+  it('leaves out empty bins', () => {
+    expect(buildCalibrationCurve([])).toEqual([]);
+  });
+});
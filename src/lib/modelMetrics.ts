@@ -0,0 +1,125 @@
+export type RiskLevel = 'low' | 'medium' | 'high';
+export type StudentOutcome = 'enrolled' | 'graduated' | 'dropped_out';
+
+export interface BacktestResult {
+  id: string;
+  outcome: StudentOutcome;
+  risk_score: number;
+  risk_level: RiskLevel;
+}
+
+export interface LevelMetrics {
+  level: RiskLevel;
+  flagged: number;
+  truePositives: number;
+  precision: number;
+  recall: number;
+}
+
+export interface RocPoint {
+  threshold: number;
+  fpr: number;
+  tpr: number;
+}
+
+export interface CalibrationBin {
+  bin: string;
+  predicted: number;
+  observed: number;
+  count: number;
+}
+
+export const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high'];
+export const OUTCOMES: StudentOutcome[] = ['dropped_out', 'graduated', 'enrolled'];
+
+const levelRank: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2 };
+
+export const isDropout = (result: BacktestResult) => result.outcome === 'dropped_out';
+
+// Counts of predicted risk level against actual outcome
+export const buildConfusionMatrix = (results: BacktestResult[]) => {
+  const matrix = Object.fromEntries(
+    RISK_LEVELS.map(level => [level, Object.fromEntries(OUTCOMES.map(outcome => [outcome, 0]))])
+  ) as Record<RiskLevel, Record<StudentOutcome, number>>;
+
+  results.forEach(result => {
+    matrix[result.risk_level][result.outcome]++;
+  });
+
+  return matrix;
+};
+
+// Each level is treated as a cut-off: a student is flagged when predicted at that level or above
+export const buildLevelMetrics = (results: BacktestResult[]): LevelMetrics[] => {
+  const dropouts = results.filter(isDropout).length;
+
+  return RISK_LEVELS.map(level => {
+    const flagged = results.filter(result => levelRank[result.risk_level] >= levelRank[level]);
+    const truePositives = flagged.filter(isDropout).length;
+    return {
+      level,
+      flagged: flagged.length,
+      truePositives,
+      precision: flagged.length > 0 ? truePositives / flagged.length : 0,
+      recall: dropouts > 0 ? truePositives / dropouts : 0,
+    };
+  });
+};
+
+export const buildRocCurve = (results: BacktestResult[]): { points: RocPoint[]; auc: number } => {
+  const positives = results.filter(isDropout).length;
+  const negatives = results.length - positives;
+  if (positives === 0 || negatives === 0) {
+    return { points: [], auc: 0 };
+  }
+
+  const thresholds = [...new Set(results.map(result => result.risk_score))].sort((a, b) => b - a);
+  const points: RocPoint[] = [{ threshold: 1, fpr: 0, tpr: 0 }];
+
+  thresholds.forEach(threshold => {
+    const flagged = results.filter(result => result.risk_score >= threshold);
+    const truePositives = flagged.filter(isDropout).length;
+    points.push({
+      threshold,
+      fpr: (flagged.length - truePositives) / negatives,
+      tpr: truePositives / positives,
+    });
+  });
+
+  const last = points[points.length - 1];
+  if (last.fpr < 1 || last.tpr < 1) {
+    points.push({ threshold: 0, fpr: 1, tpr: 1 });
+  }
+
+  // Trapezoidal area under the curve
+  let auc = 0;
+  for (let i = 1; i < points.length; i++) {
+    auc += (points[i].fpr - points[i - 1].fpr) * (points[i].tpr + points[i - 1].tpr) / 2;
+  }
+
+  return { points, auc };
+};
+
+export const buildCalibrationCurve = (results: BacktestResult[], binCount = 10): CalibrationBin[] => {
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    lower: i / binCount,
+    upper: (i + 1) / binCount,
+    scores: [] as number[],
+    dropouts: 0,
+  }));
+
+  results.forEach(result => {
+    const index = Math.min(Math.floor(result.risk_score * binCount), binCount - 1);
+    bins[index].scores.push(result.risk_score);
+    if (isDropout(result)) bins[index].dropouts++;
+  });
+
+  return bins
+    .filter(bin => bin.scores.length > 0)
+    .map(bin => ({
+      bin: `${Math.round(bin.lower * 100)}–${Math.round(bin.upper * 100)}%`,
+      predicted: bin.scores.reduce((sum, score) => sum + score, 0) / bin.scores.length,
+      observed: bin.dropouts / bin.scores.length,
+      count: bin.scores.length,
+    }));
+};
@@ -0,0 +1,58 @@
+import type { Enums } from '@/integrations/supabase/types';
+
+export type AppRole = Enums<'app_role'>;
+
+// Mirrors the RLS policies and the role check in predict-dropout-risk
+export type Permission =
+  | 'students:write'
+  | 'students:delete'
+  | 'imports:manage'
+  | 'imports:rollback'
+  | 'interventions:write'
+  | 'interventions:manage'
+  | 'cases:manage'
+  | 'predictions:run'
+  | 'model:manage'
+  | 'settings:manage'
+  | 'users:manage';
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  admin: 'Admin',
+  department_head: 'Department head',
+  counsellor: 'Counsellor',
+  faculty: 'Faculty',
+  viewer: 'Viewer',
+};
+
+export const ROLE_PERMISSIONS: Record<AppRole, Permission[]> = {
+  admin: [
+    'students:write',
+    'students:delete',
+    'imports:manage',
+    'imports:rollback',
+    'interventions:write',
+    'interventions:manage',
+    'cases:manage',
+    'predictions:run',
+    'model:manage',
+    'settings:manage',
+    'users:manage',
+  ],
+  department_head: [
+    'students:write',
+    'imports:manage',
+    'interventions:write',
+    'interventions:manage',
+    'cases:manage',
+    'predictions:run',
+  ],
+  counsellor: ['interventions:write', 'interventions:manage', 'cases:manage'],
+  faculty: ['interventions:write'],
+  viewer: [],
+};
+
+// Roles that only see students of the departments assigned to them in user_departments
+export const DEPARTMENT_SCOPED_ROLES: AppRole[] = ['department_head', 'faculty'];
+
+export const hasPermission = (role: AppRole | null, permission: Permission) =>
+  role !== null && ROLE_PERMISSIONS[role].includes(permission);
@@ -0,0 +1,53 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+
+export type PredictionRun = Tables<'prediction_runs'>;
+
+// What predict-dropout-risk returns for a scoring run
+export interface PredictionResponse {
+  runId: string;
+  processedCount: number;
+  failedCount: number;
+  totalCount: number;
+  modelVersion: string;
+}
+
+export const RUN_STATUS_LABELS: Record<PredictionRun['status'], string> = {
+  running: 'Running',
+  completed: 'Completed',
+  partial: 'Partially failed',
+  failed: 'Failed',
+};
+
+export const RUN_STATUS_VARIANTS: Record<PredictionRun['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  running: 'secondary',
+  completed: 'default',
+  partial: 'destructive',
+  failed: 'destructive',
+};
+
+export const TRIGGER_LABELS: Record<PredictionRun['trigger_source'], string> = {
+  manual: 'Manual',
+  import: 'Upload',
+  rollback: 'Upload rollback',
+  retry: 'Retry',
+  scheduled: 'Scheduled',
+};
+
+export const formatDuration = (ms: number | null) =>
+  ms === null ? '—' : ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+// Re-scores only the students whose updates failed; the retry is recorded as its own run
+export const retryPredictionRun = (run: PredictionRun) =>
+  invokeEdgeFunction<PredictionResponse>('predict-dropout-risk', {
+    studentIds: run.failed_student_ids,
+    source: 'retry',
+    retryOf: run.id,
+    importJobId: run.import_job_id,
+  });
+
+// Runs with failed students that no later retry has picked up
+export const unretriedRuns = (runs: PredictionRun[]) => {
+  const retried = new Set(runs.map(run => run.retry_of).filter(Boolean));
+  return runs.filter(run => run.failed_student_ids.length > 0 && !retried.has(run.id));
+};
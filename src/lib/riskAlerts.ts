@@ -0,0 +1,66 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { ROLE_LABELS } from '@/lib/permissions';
+
+export type RiskAlertRule = Tables<'risk_alert_rules'>;
+export type RiskAlertCondition = RiskAlertRule['condition'];
+export type RiskEscalationEvent = Tables<'risk_escalation_events'>;
+
+export const ALERT_CONDITION_LABELS: Record<RiskAlertCondition, string> = {
+  entered_high: 'Entered high risk',
+  level_increased: 'Risk level went up',
+  score_jump: 'Score jumped',
+};
+
+export const describeAlertRule = (rule: RiskAlertRule) => {
+  const condition = rule.condition === 'score_jump'
+    ? `Score rose by more than ${Math.round((rule.min_score_increase ?? 0) * 100)} points`
+    : ALERT_CONDITION_LABELS[rule.condition];
+  const scope = rule.departments.length > 0 ? rule.departments.join(', ') : 'all departments';
+  return `${condition} in ${scope}`;
+};
+
+export const describeAlertRecipients = (rule: RiskAlertRule) => {
+  const recipients = rule.notify_roles.map(role => ROLE_LABELS[role]);
+  if (rule.notify_case_counsellor) recipients.push('case counsellor');
+  if (rule.webhook_url) recipients.push('webhook');
+  return recipients.length > 0 ? recipients.join(', ') : 'Nobody';
+};
+
+const isPrivateIpv4 = ([a, b]: number[]) =>
+  a === 0 || a === 10 || a === 127
+  || (a === 100 && b >= 64 && b <= 127)
+  || (a === 169 && b === 254)
+  || (a === 172 && b >= 16 && b <= 31)
+  || (a === 192 && b === 168);
+
+// Hostnames come serialized by URL, so the first group of a unique-local or link-local address has all four digits
+const isPrivateIpv6 = (address: string) =>
+  address === '::' || address === '::1' || address.startsWith('::ffff:')
+  || /^f[cd][0-9a-f]{2}:/.test(address) || /^fe[89ab][0-9a-f]:/.test(address);
+
+// Webhooks are posted from the database server, so only public HTTPS hosts are allowed.
+// Mirrors public.is_public_https_url, which rejects the same URLs when a rule is saved.
+export const webhookUrlError = (value: string): string | null => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Enter a full URL, e.g. https://hooks.example.edu/risk-alerts';
+  }
+  if (!/^https:\/\//i.test(value) || url.protocol !== 'https:') {
+    return 'Webhook URLs must start with https://';
+  }
+
+  const host = url.hostname.toLowerCase().replace(/\.$/, '');
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/)?.slice(1).map(Number);
+  const isPrivate = host === 'localhost'
+    || /\.(localhost|local|internal)$/.test(host)
+    || (ipv4
+      ? isPrivateIpv4(ipv4)
+      : host.startsWith('[')
+        ? isPrivateIpv6(host.slice(1, -1))
+        // Single-label names resolve inside the server's network; real top-level domains never start with a digit
+        : !host.includes('.') || /(^|\.)\d[^.]*$/.test(host));
+
+  return isPrivate ? 'Webhooks cannot be sent to localhost or private network addresses' : null;
+};
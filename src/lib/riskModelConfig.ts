@@ -0,0 +1,165 @@
+import type { Json } from '@/integrations/supabase/types';
+import type { LogisticCoefficients } from '@shared/logisticRegression.ts';
+import {
+  FactorKey,
+  ImputableField,
+  ImputationStrategy,
+  RiskModelThresholds,
+  RiskModelType,
+  RiskModelWeights,
+  ScoringModel,
+  withDefaults,
+} from '@shared/riskScoring.ts';
+
+export {
+  DEFAULT_THRESHOLDS,
+  DEFAULT_WEIGHTS,
+  formatModelVersion,
+} from '@shared/riskScoring.ts';
+export type {
+  BandedThreshold,
+  FactorKey,
+  ImputableField,
+  ImputationStrategy,
+  PredictionFactors,
+  RiskBand,
+  RiskModelThresholds,
+  RiskModelType,
+  RiskModelWeights,
+} from '@shared/riskScoring.ts';
+
+export interface TrainingMetrics {
+  samples: number;
+  positives: number;
+  accuracy: number;
+  log_loss: number;
+  include_enrolled?: boolean;
+  trained_at?: string;
+}
+
+export interface RiskModelConfig extends ScoringModel {
+  id: string;
+  description: string | null;
+  training_metrics: TrainingMetrics | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export const MODEL_TYPE_LABELS: Record<RiskModelType, string> = {
+  heuristic: 'Weighted heuristic',
+  logistic_regression: 'Logistic regression',
+};
+
+export const IMPUTATION_STRATEGY_LABELS: Record<ImputationStrategy, string> = {
+  department_median: 'Department median',
+  global_median: 'Median of all students',
+  neutral: 'Neutral value',
+};
+
+export const IMPUTABLE_FIELD_LABELS: Record<ImputableField, string> = {
+  attendance_percentage: 'Attendance',
+  cgpa: 'CGPA',
+  sgpa: 'SGPA',
+  family_income: 'Family income',
+  distance_from_home: 'Distance from home',
+};
+
+export const FACTOR_LABELS: Record<FactorKey, string> = {
+  attendance_impact: 'Attendance',
+  academic_impact: 'Academic',
+  financial_impact: 'Financial',
+  behavioral_impact: 'Behavioral',
+  engagement_impact: 'Engagement',
+  demographic_impact: 'Demographics',
+};
+
+export const WEIGHT_LABELS: Record<keyof RiskModelWeights, string> = {
+  attendance: 'Attendance',
+  academic: 'Academic',
+  financial: 'Financial',
+  behavioral: 'Behavioral',
+  engagement: 'Engagement',
+  demographics: 'Demographics',
+};
+
+export const BANDED_FACTORS = ['attendance', 'academic', 'behavioral', 'engagement'] as const;
+
+export type BandedFactor = typeof BANDED_FACTORS[number];
+
+export const BANDED_FACTOR_LABELS: Record<BandedFactor, string> = {
+  attendance: 'Attendance % at least',
+  academic: 'Average of CGPA and SGPA at least',
+  behavioral: 'Disciplinary actions at least',
+  engagement: 'Extracurriculars at least',
+};
+
+// Stored configs may predate a threshold; anything missing falls back to the defaults
+export const toRiskModelConfig = (row: {
+  id: string;
+  name: string;
+  version: number;
+  description: string | null;
+  model_type: RiskModelType;
+  imputation_strategy: ImputationStrategy;
+  coefficients: Json | null;
+  weights: Json;
+  thresholds: Json;
+  training_metrics: Json | null;
+  is_active: boolean;
+  created_at: string;
+}): RiskModelConfig => {
+  return {
+    id: row.id,
+    name: row.name,
+    version: row.version,
+    description: row.description,
+    model_type: row.model_type,
+    imputation_strategy: row.imputation_strategy,
+    coefficients: row.coefficients as unknown as LogisticCoefficients | null,
+    is_active: row.is_active,
+    created_at: row.created_at,
+    training_metrics: row.training_metrics as unknown as TrainingMetrics | null,
+    ...withDefaults(
+      row.weights as Partial<RiskModelWeights> | null,
+      row.thresholds as Partial<RiskModelThresholds> | null
+    ),
+  };
+};
+
+export const validateRiskModel = (weights: RiskModelWeights, thresholds: RiskModelThresholds): string[] => {
+  const errors: string[] = [];
+  const isUnitInterval = (value: number) => Number.isFinite(value) && value >= 0 && value <= 1;
+
+  const weightSum = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+  if (Object.values(weights).some(weight => !isUnitInterval(weight))) {
+    errors.push('Each weight must be between 0 and 1');
+  }
+  if (Math.abs(weightSum - 1) > 0.001) {
+    errors.push(`Weights must add up to 1 (currently ${weightSum.toFixed(2)})`);
+  }
+
+  const { high, medium } = thresholds.risk_levels;
+  if (!isUnitInterval(high) || !isUnitInterval(medium) || medium >= high) {
+    errors.push('Risk level cut-offs must be between 0 and 1 with medium below high');
+  }
+
+  BANDED_FACTORS.forEach(factor => {
+    const { bands, fallback } = thresholds[factor];
+    if (!isUnitInterval(fallback) || bands.some(band => !isUnitInterval(band.risk) || !Number.isFinite(band.min))) {
+      errors.push(`${WEIGHT_LABELS[factor]} risk values must be between 0 and 1`);
+    }
+  });
+
+  const { financial, demographics } = thresholds;
+  if ([financial.fee_default, financial.no_scholarship, financial.low_income, financial.medium_income].some(v => !isUnitInterval(v))) {
+    errors.push('Financial risk values must be between 0 and 1');
+  }
+  if (financial.low_income_below > financial.medium_income_below) {
+    errors.push('Low income limit must not exceed the medium income limit');
+  }
+  if ([demographics.distance, demographics.hostel, demographics.education_gap, demographics.late_semester].some(v => !isUnitInterval(v))) {
+    errors.push('Demographic risk values must be between 0 and 1');
+  }
+
+  return errors;
+};
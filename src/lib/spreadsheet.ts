@@ -0,0 +1,103 @@
+import * as XLSX from 'xlsx';
+import { readCsvFile } from '@/lib/csv';
+import type { DecimalSeparator } from '@shared/studentImport.ts';
+
+export type { DecimalSeparator } from '@shared/studentImport.ts';
+
+export type CellValue = string | number | boolean | Date | null;
+
+export interface SheetData {
+  name: string;
+  headers: string[];
+  rows: CellValue[][];
+  // Source line (CSV) or worksheet row (Excel) of each data row, for error reports
+  rowNumbers: number[];
+  // How numbers written as text are read; Excel stores numbers typed, so only CSV files can differ
+  decimalSeparator: DecimalSeparator;
+}
+
+const EXCEL_TYPES = [
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+export const isExcelFile = (file: File) => EXCEL_TYPES.includes(file.type) || /\.(xlsx|xls)$/i.test(file.name);
+
+// Keep the type Excel stored rather than the formatted text, so numbers and dates survive
+const cellValue = (cell: XLSX.CellObject | undefined): CellValue => {
+  if (!cell) return null;
+  switch (cell.t) {
+    case 'n':
+      // Percent-formatted cells store 0.85 for 85%; rounding drops float noise such as 0.57 * 100 = 56.99999999999999
+      return typeof cell.z === 'string' && cell.z.includes('%')
+        ? Number((Number(cell.v) * 100).toFixed(10))
+        : Number(cell.v);
+    case 'b':
+      return Boolean(cell.v);
+    case 'd':
+      return cell.v instanceof Date ? cell.v : new Date(String(cell.v));
+    case 's': {
+      const text = String(cell.v ?? '').trim();
+      return text === '' ? null : text;
+    }
+    default:
+      // Error ('e') and stub ('z') cells carry no usable value
+      return null;
+  }
+};
+
+const sheetToData = (name: string, sheet: XLSX.WorkSheet): SheetData => {
+  if (!sheet['!ref']) return { name, headers: [], rows: [], rowNumbers: [], decimalSeparator: '.' };
+
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const table: CellValue[][] = [];
+  const rowNumbers: number[] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: CellValue[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(cellValue(sheet[XLSX.utils.encode_cell({ r, c })]));
+    }
+    if (row.some(value => value !== null)) {
+      table.push(row);
+      rowNumbers.push(r + 1);
+    }
+  }
+
+  const [headerRow = [], ...rows] = table;
+  return {
+    name,
+    headers: headerRow.map(header => String(header ?? '').trim()),
+    rows,
+    rowNumbers: rowNumbers.slice(1),
+    decimalSeparator: '.',
+  };
+};
+
+export const readWorkbook = async (file: File): Promise<SheetData[]> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true, cellNF: true });
+  return workbook.SheetNames.map(name => sheetToData(name, workbook.Sheets[name]));
+};
+
+export const readCsv = async (file: File): Promise<SheetData> => {
+  const { rows, lines, delimiter } = await readCsvFile(file);
+  const [headerRow = [], ...dataRows] = rows;
+
+  return {
+    name: file.name,
+    headers: headerRow.map(h => h.trim()),
+    rows: dataRows.map(row => row.map(v => v.trim() || null)),
+    rowNumbers: lines.slice(1),
+    decimalSeparator: delimiter === ';' ? ',' : '.',
+  };
+};
+
+// Text form of a cell for fields stored as text; dates become ISO dates rather than locale strings
+export const cellToText = (value: CellValue): string => {
+  if (value === null) return '';
+  if (value instanceof Date) {
+    // SheetJS builds dates in local time, so read them back the same way
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+  return String(value).trim();
+};
@@ -1,6 +1,8 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -8,9 +10,21 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { GraduationCap } from 'lucide-react';
 
+type SignupPolicy = Database['public']['Functions']['get_signup_policy']['Returns'][number];
+
 const Auth = () => {
   const { user, loading, signIn, signUp } = useAuth();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [signupPolicy, setSignupPolicy] = useState<SignupPolicy | null>(null);
+
+  useEffect(() => {
+    supabase.rpc('get_signup_policy').then(({ data, error }) => {
+      if (error) {
+        console.error('Fetch signup policy error:', error);
+      }
+      setSignupPolicy(data?.[0] ?? null);
+    });
+  }, []);
 
   // Redirect if already authenticated
   if (user && !loading) {
@@ -50,6 +64,10 @@ const Auth = () => {
     setIsSubmitting(false);
   };
 
+  // Invitations still work when self-registration is off
+  const signupEnabled = signupPolicy !== null && signupPolicy.signup_mode !== 'disabled';
+  const allowedDomains = signupPolicy?.signup_mode === 'domain' ? signupPolicy.allowed_domains : [];
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
       <Card className="w-full max-w-md">
@@ -62,10 +80,16 @@ const Auth = () => {
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="signin" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="signin">Sign In</TabsTrigger>
-              <TabsTrigger value="signup">Sign Up</TabsTrigger>
-            </TabsList>
+            {signupEnabled ? (
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="signin">Sign In</TabsTrigger>
+                <TabsTrigger value="signup">Sign Up</TabsTrigger>
+              </TabsList>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center mb-4">
+                New accounts are by invitation only. Ask an admin to invite you.
+              </p>
+            )}
             
             <TabsContent value="signin">
               <form onSubmit={handleSignIn} className="space-y-4">
@@ -112,9 +136,14 @@ const Auth = () => {
                     id="signup-email"
                     name="email"
                     type="email"
-                    placeholder="admin@school.edu"
+                    placeholder={allowedDomains.length > 0 ? `you@${allowedDomains[0]}` : 'admin@school.edu'}
                     required
                   />
+                  {allowedDomains.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Only {allowedDomains.map(domain => `@${domain}`).join(', ')} addresses can sign up
+                    </p>
+                  )}
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="signup-password">Password</Label>
@@ -0,0 +1,326 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Layout } from '@/components/Layout';
+import { RiskBadge } from '@/components/RiskBadge';
+import { StudentInterventions } from '@/components/StudentInterventions';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowRight, Briefcase, Clock, ExternalLink } from 'lucide-react';
+import {
+  CASE_STATUSES,
+  CASE_STATUS_LABELS,
+  CLOSED_CASE_STATUSES,
+  CaseStatus,
+  StudentCase,
+  caseSla,
+  nextCaseStatus,
+} from '@/lib/cases';
+
+type BoardCase = StudentCase & {
+  students: Pick<Tables<'students'>, 'name' | 'student_id' | 'department' | 'risk_level' | 'risk_score'> | null;
+};
+
+type Counsellor = Pick<Tables<'profiles'>, 'user_id' | 'display_name' | 'email'>;
+
+const UNASSIGNED = 'unassigned';
+
+// Closed cases stay on the board for this long so recent outcomes remain visible
+const CLOSED_CASE_DAYS = 30;
+
+const Cases = () => {
+  const [cases, setCases] = useState<BoardCase[]>([]);
+  const [counsellors, setCounsellors] = useState<Counsellor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [counsellorFilter, setCounsellorFilter] = useState<string>('all');
+  const [openCase, setOpenCase] = useState<BoardCase | null>(null);
+  const { user, can } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchBoard();
+  }, []);
+
+  const fetchBoard = async () => {
+    try {
+      const closedSince = new Date();
+      closedSince.setDate(closedSince.getDate() - CLOSED_CASE_DAYS);
+
+      const [casesResult, counsellorsResult] = await Promise.all([
+        supabase
+          .from('student_cases')
+          .select('*, students(name, student_id, department, risk_level, risk_score)')
+          .or(`closed_at.is.null,closed_at.gte.${closedSince.toISOString()}`)
+          .order('stage_entered_at'),
+        supabase
+          .from('profiles')
+          .select('user_id, display_name, email')
+          .in('role', ['admin', 'department_head', 'counsellor'])
+          .is('deactivated_at', null)
+          .order('display_name'),
+      ]);
+
+      if (casesResult.error) throw casesResult.error;
+      if (counsellorsResult.error) throw counsellorsResult.error;
+
+      setCases(casesResult.data || []);
+      setCounsellors(counsellorsResult.data || []);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch cases',
+        variant: 'destructive',
+      });
+      console.error('Fetch cases error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateCase = async (studentCase: BoardCase, changes: { status?: CaseStatus; counsellor_id?: string | null }) => {
+    const { data, error } = await supabase
+      .from('student_cases')
+      .update(changes)
+      .eq('id', studentCase.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      toast({
+        title: 'Case Not Updated',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setCases(prev => prev.map(c => (c.id === studentCase.id ? { ...c, ...data } : c)));
+    if (changes.status) {
+      toast({
+        title: 'Case Updated',
+        description: `${studentCase.students?.name ?? 'Student'} moved to ${CASE_STATUS_LABELS[changes.status].toLowerCase()}`,
+      });
+    }
+  };
+
+  const counsellorName = (userId: string | null) => {
+    const counsellor = counsellors.find(c => c.user_id === userId);
+    return counsellor ? counsellor.display_name || counsellor.email : 'Unassigned';
+  };
+
+  const filtered = cases.filter(c =>
+    counsellorFilter === 'all' ||
+    (counsellorFilter === UNASSIGNED ? c.counsellor_id === null : c.counsellor_id === counsellorFilter)
+  );
+  const breachedCount = filtered.filter(c => caseSla(c).breached).length;
+  const canManage = can('cases:manage');
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="space-y-6">
+          <div className="animate-pulse">
+            <div className="h-8 bg-muted rounded w-48 mb-4"></div>
+            <div className="h-96 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Cases</h1>
+            <p className="text-muted-foreground">
+              Every high-risk student gets a case with an owner, tracked from first contact to outcome
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            {breachedCount > 0 && (
+              <Badge variant="destructive" className="gap-1">
+                <Clock className="h-3 w-3" />
+                {breachedCount} past SLA
+              </Badge>
+            )}
+            <Select value={counsellorFilter} onValueChange={setCounsellorFilter}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Filter by counsellor" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Counsellors</SelectItem>
+                {user && <SelectItem value={user.id}>My Cases</SelectItem>}
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {counsellors.filter(c => c.user_id !== user?.id).map(counsellor => (
+                  <SelectItem key={counsellor.user_id} value={counsellor.user_id}>
+                    {counsellor.display_name || counsellor.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <ScrollArea className="w-full">
+          <div className="flex gap-4 pb-4">
+            {CASE_STATUSES.map(status => {
+              const column = filtered.filter(c => c.status === status);
+
+              return (
+                <Card key={status} className="w-72 shrink-0 bg-muted/30">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-sm flex items-center justify-between">
+                      {CASE_STATUS_LABELS[status]}
+                      <Badge variant="secondary">{column.length}</Badge>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {column.map(studentCase => {
+                      const sla = caseSla(studentCase);
+                      const next = nextCaseStatus(studentCase.status);
+                      const closed = CLOSED_CASE_STATUSES.includes(studentCase.status);
+
+                      return (
+                        <div key={studentCase.id} className="rounded-lg border bg-background p-3 space-y-2">
+                          <div className="flex items-start justify-between gap-2">
+                            <button
+                              type="button"
+                              className="text-left font-medium hover:underline"
+                              onClick={() => setOpenCase(studentCase)}
+                            >
+                              {studentCase.students?.name ?? 'Unknown student'}
+                            </button>
+                            {studentCase.students?.risk_level && (
+                              <RiskBadge
+                                riskLevel={studentCase.students.risk_level}
+                                riskScore={studentCase.students.risk_score || undefined}
+                              />
+                            )}
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            {studentCase.students?.student_id} · {studentCase.students?.department}
+                          </p>
+
+                          {canManage && !closed ? (
+                            <Select
+                              value={studentCase.counsellor_id ?? UNASSIGNED}
+                              onValueChange={(value) => updateCase(studentCase, { counsellor_id: value === UNASSIGNED ? null : value })}
+                            >
+                              <SelectTrigger className="h-8 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                                {counsellors.map(counsellor => (
+                                  <SelectItem key={counsellor.user_id} value={counsellor.user_id}>
+                                    {counsellor.display_name || counsellor.email}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <p className="text-xs">{counsellorName(studentCase.counsellor_id)}</p>
+                          )}
+
+                          <div className="flex items-center justify-between gap-2">
+                            {closed ? (
+                              <span className="text-xs text-muted-foreground">
+                                Closed {new Date(studentCase.closed_at ?? studentCase.stage_entered_at).toLocaleDateString()}
+                              </span>
+                            ) : (
+                              <Badge variant={sla.breached ? 'destructive' : 'outline'} className="gap-1">
+                                <Clock className="h-3 w-3" />
+                                {sla.daysInStage}d{sla.targetDays !== null && ` / ${sla.targetDays}d`}
+                              </Badge>
+                            )}
+                            {canManage && (
+                              <div className="flex items-center gap-1">
+                                <Select
+                                  value={studentCase.status}
+                                  onValueChange={(value) => updateCase(studentCase, { status: value as CaseStatus })}
+                                >
+                                  <SelectTrigger className="h-8 w-8 px-2 text-xs [&>span]:hidden" aria-label="Move case">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {CASE_STATUSES.map(option => (
+                                      <SelectItem key={option} value={option}>{CASE_STATUS_LABELS[option]}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                {next && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-8 gap-1 text-xs"
+                                    onClick={() => updateCase(studentCase, { status: next })}
+                                  >
+                                    {CASE_STATUS_LABELS[next]}
+                                    <ArrowRight className="h-3 w-3" />
+                                  </Button>
+                                )}
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+
+                    {column.length === 0 && (
+                      <p className="text-xs text-muted-foreground text-center py-4">No cases</p>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+          <ScrollBar orientation="horizontal" />
+        </ScrollArea>
+      </div>
+
+      <Dialog open={openCase !== null} onOpenChange={(open) => !open && setOpenCase(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Briefcase className="h-5 w-5" />
+              {openCase?.students?.name} - Case
+            </DialogTitle>
+            <DialogDescription>
+              {openCase && (
+                <>
+                  {CASE_STATUS_LABELS[openCase.status]} · {counsellorName(openCase.counsellor_id)} · opened{' '}
+                  {new Date(openCase.created_at).toLocaleDateString()}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          {openCase && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold">Interventions</h4>
+                <Button variant="link" size="sm" asChild className="gap-1 h-auto p-0">
+                  <Link to={`/students/${openCase.student_id}`}>
+                    Full profile
+                    <ExternalLink className="h-3 w-3" />
+                  </Link>
+                </Button>
+              </div>
+              <StudentInterventions studentId={openCase.student_id} caseId={openCase.id} />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+};
+
+export default Cases;
@@ -1,9 +1,11 @@
 import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Users, TrendingUp, AlertTriangle, CheckCircle } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useDepartmentFilter } from '@/hooks/useDepartmentFilter';
 import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
 
 interface DashboardStats {
@@ -23,25 +25,46 @@ const Dashboard = () => {
     recentUploads: 0,
   });
   const [loading, setLoading] = useState(true);
+  const [knownDepartments, setKnownDepartments] = useState<string[]>([]);
   const { toast } = useToast();
+  const { departmentFilter, setDepartmentFilter, departmentOptions, allDepartmentsLabel } = useDepartmentFilter(knownDepartments);
 
   useEffect(() => {
-    fetchDashboardStats();
+    fetchDepartments();
   }, []);
 
+  useEffect(() => {
+    fetchDashboardStats();
+  }, [departmentFilter]);
+
+  const fetchDepartments = async () => {
+    const { data, error } = await supabase
+      .from('students')
+      .select('department');
+
+    if (error) {
+      console.error('Fetch departments error:', error);
+      return;
+    }
+    setKnownDepartments([...new Set((data || []).map(student => student.department))].sort());
+  };
+
   const fetchDashboardStats = async () => {
+    // Students outside the user's departments are already hidden by RLS
+    const department = departmentFilter === 'all' ? null : departmentFilter;
+
     try {
       // Fetch total students count
-      const { count: totalStudents, error: totalError } = await supabase
-        .from('students')
-        .select('*', { count: 'exact', head: true });
+      let totalQuery = supabase.from('students').select('*', { count: 'exact', head: true });
+      if (department) totalQuery = totalQuery.eq('department', department);
+      const { count: totalStudents, error: totalError } = await totalQuery;
 
       if (totalError) throw totalError;
 
       // Fetch risk level breakdown
-      const { data: riskData, error: riskError } = await supabase
-        .from('students')
-        .select('risk_level');
+      let riskQuery = supabase.from('students').select('risk_level');
+      if (department) riskQuery = riskQuery.eq('department', department);
+      const { data: riskData, error: riskError } = await riskQuery;
 
       if (riskError) throw riskError;
 
@@ -60,10 +83,12 @@ const Dashboard = () => {
       const sevenDaysAgo = new Date();
       sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
 
-      const { count: recentUploads, error: recentError } = await supabase
+      let recentQuery = supabase
         .from('students')
         .select('*', { count: 'exact', head: true })
         .gte('created_at', sevenDaysAgo.toISOString());
+      if (department) recentQuery = recentQuery.eq('department', department);
+      const { count: recentUploads, error: recentError } = await recentQuery;
 
       if (recentError) throw recentError;
 
@@ -113,9 +138,22 @@ const Dashboard = () => {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold">Dashboard</h1>
-        <p className="text-muted-foreground">Student dropout risk analysis overview</p>
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Dashboard</h1>
+          <p className="text-muted-foreground">Student dropout risk analysis overview</p>
+        </div>
+        <Select value={departmentFilter} onValueChange={setDepartmentFilter}>
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Filter by department" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{allDepartmentsLabel}</SelectItem>
+            {departmentOptions.map(dept => (
+              <SelectItem key={dept} value={dept}>{dept}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
 
       {/* Stats Cards */}
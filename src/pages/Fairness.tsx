@@ -0,0 +1,306 @@
+import { useEffect, useState } from 'react';
+import { Layout } from '@/components/Layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, CheckCircle, Download, Scale } from 'lucide-react';
+import {
+  DIMENSION_LABELS,
+  Disparity,
+  FairnessDimension,
+  FairnessOptions,
+  FairnessStudent,
+  GroupStats,
+  METRIC_LABELS,
+  buildGroupStats,
+  findDisparities,
+} from '@/lib/fairness';
+
+const dimensions: FairnessDimension[] = ['gender', 'income', 'hostel'];
+
+const STUDENT_PAGE_SIZE = 1000;
+
+const formatRate = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+const formatRatio = (ratio: number) => (Number.isFinite(ratio) ? `${ratio.toFixed(2)}×` : '∞');
+
+const Fairness = () => {
+  const [students, setStudents] = useState<FairnessStudent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [options, setOptions] = useState<FairnessOptions>({
+    flagLevel: 'high',
+    maxRatio: 1.25,
+    minGroupSize: 5,
+  });
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchStudents();
+  }, []);
+
+  const fetchStudents = async () => {
+    try {
+      // The API caps each response, so the audit reads every student a page at a time
+      const rows: FairnessStudent[] = [];
+      for (let from = 0; ; from += STUDENT_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('students')
+          .select('gender, family_income, hostel_accommodation, risk_score, risk_level, outcome')
+          .order('id')
+          .range(from, from + STUDENT_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        rows.push(...(data || []));
+        if (!data || data.length < STUDENT_PAGE_SIZE) break;
+      }
+      setStudents(rows);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch students',
+        variant: 'destructive',
+      });
+      console.error('Fetch students error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const report = dimensions.map(dimension => {
+    const stats = buildGroupStats(students, dimension, options);
+    return { dimension, stats, disparities: findDisparities(stats, options) };
+  });
+  const totalDisparities = report.reduce((sum, section) => sum + section.disparities.length, 0);
+
+  const exportReport = () => {
+    const rows: (string | number)[][] = [
+      ['FAIRNESS AUDIT OF DROPOUT RISK PREDICTIONS'],
+      ['Generated on:', new Date().toLocaleDateString()],
+      ['Flagged at:', `${options.flagLevel} risk and above`],
+      ['Maximum allowed ratio:', options.maxRatio],
+      ['Minimum group size:', options.minGroupSize],
+      [''],
+    ];
+
+    report.forEach(({ dimension, stats, disparities }) => {
+      rows.push([DIMENSION_LABELS[dimension].toUpperCase()]);
+      rows.push(['Group', 'Students', 'Low', 'Medium', 'High', 'Mean Score', 'Flag Rate', 'With Outcome', 'False Positive Rate', 'False Negative Rate']);
+      stats.forEach(group => rows.push([
+        group.group,
+        group.count,
+        group.levels.low,
+        group.levels.medium,
+        group.levels.high,
+        group.mean_score === null ? 'N/A' : group.mean_score.toFixed(2),
+        formatRate(group.flag_rate),
+        group.labelled,
+        formatRate(group.false_positive_rate),
+        formatRate(group.false_negative_rate),
+      ]));
+      disparities.forEach(disparity => rows.push([
+        'DISPARITY',
+        METRIC_LABELS[disparity.metric],
+        `${disparity.highest} vs ${disparity.lowest}`,
+        formatRatio(disparity.ratio),
+      ]));
+      rows.push(['']);
+    });
+
+    const csv = rows.map(row => row.map(value => `"${String(value).replace(/"/g, '""')}"`).join(',')).join('\n');
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `fairness_audit_${new Date().toISOString().split('T')[0]}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+
+    toast({
+      title: 'Report Exported',
+      description: 'Fairness audit has been downloaded successfully',
+    });
+  };
+
+  const isFlagged = (disparities: Disparity[], metric: Disparity['metric'], group: GroupStats) =>
+    disparities.some(d => d.metric === metric && (d.highest === group.group || d.lowest === group.group));
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="space-y-6">
+          <div className="animate-pulse">
+            <div className="h-8 bg-muted rounded w-48 mb-4"></div>
+            <div className="h-96 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Fairness Audit</h1>
+            <p className="text-muted-foreground">
+              Compare risk predictions across gender, income and accommodation groups
+            </p>
+          </div>
+          <Button onClick={exportReport} className="gap-2">
+            <Download className="h-4 w-4" />
+            Export Report
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="h-5 w-5" />
+              Audit Settings
+            </CardTitle>
+            <CardDescription>
+              A disparity is flagged when the highest group value exceeds the lowest by more than the allowed ratio
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Count a student as flagged at</Label>
+                <Select
+                  value={options.flagLevel}
+                  onValueChange={(value) => setOptions({ ...options, flagLevel: value as FairnessOptions['flagLevel'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="high">High risk</SelectItem>
+                    <SelectItem value="medium">Medium risk or above</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max-ratio">Maximum allowed ratio</Label>
+                <Input
+                  id="max-ratio"
+                  type="number"
+                  min={1}
+                  step={0.05}
+                  value={options.maxRatio}
+                  onChange={(e) => setOptions({ ...options, maxRatio: parseFloat(e.target.value) || 1 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="min-group-size">Minimum group size</Label>
+                <Input
+                  id="min-group-size"
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={options.minGroupSize}
+                  onChange={(e) => setOptions({ ...options, minGroupSize: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Alert className={totalDisparities > 0 ? 'border-destructive' : 'border-green-500'}>
+          {totalDisparities > 0 ? <AlertTriangle className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
+          <AlertDescription>
+            {totalDisparities > 0
+              ? `${totalDisparities} disparit${totalDisparities === 1 ? 'y exceeds' : 'ies exceed'} the ${options.maxRatio}× limit`
+              : `No disparities above ${options.maxRatio}× across ${students.length} students`}
+          </AlertDescription>
+        </Alert>
+
+        {report.map(({ dimension, stats, disparities }) => (
+          <Card key={dimension}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {DIMENSION_LABELS[dimension]}
+                {disparities.length > 0 && (
+                  <Badge variant="destructive">{disparities.length} flagged</Badge>
+                )}
+              </CardTitle>
+              <CardDescription>
+                Error rates use students who have dropped out or graduated
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Group</TableHead>
+                    <TableHead className="text-right">Students</TableHead>
+                    <TableHead className="text-right">Low / Medium / High</TableHead>
+                    <TableHead className="text-right">Mean Score</TableHead>
+                    <TableHead className="text-right">Flag Rate</TableHead>
+                    <TableHead className="text-right">With Outcome</TableHead>
+                    <TableHead className="text-right">False Positive</TableHead>
+                    <TableHead className="text-right">False Negative</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stats.map(group => (
+                    <TableRow key={group.group}>
+                      <TableCell className="font-medium capitalize">{group.group}</TableCell>
+                      <TableCell className="text-right">{group.count}</TableCell>
+                      <TableCell className="text-right">
+                        {group.levels.low} / {group.levels.medium} / {group.levels.high}
+                      </TableCell>
+                      {(['mean_score', 'flag_rate'] as const).map(metric => (
+                        <TableCell
+                          key={metric}
+                          className={`text-right ${isFlagged(disparities, metric, group) ? 'text-risk-high font-semibold' : ''}`}
+                        >
+                          {metric === 'mean_score'
+                            ? group.mean_score === null ? '—' : group.mean_score.toFixed(2)
+                            : formatRate(group.flag_rate)}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right">{group.labelled}</TableCell>
+                      {(['false_positive_rate', 'false_negative_rate'] as const).map(metric => (
+                        <TableCell
+                          key={metric}
+                          className={`text-right ${isFlagged(disparities, metric, group) ? 'text-risk-high font-semibold' : ''}`}
+                        >
+                          {formatRate(group[metric])}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {disparities.length > 0 && (
+                <ul className="space-y-1 text-sm">
+                  {disparities.map(disparity => (
+                    <li key={disparity.metric} className="flex items-center gap-2">
+                      <AlertTriangle className="h-4 w-4 text-risk-high" />
+                      <span>
+                        {METRIC_LABELS[disparity.metric]} is {formatRatio(disparity.ratio)} higher for{' '}
+                        <strong className="capitalize">{disparity.highest}</strong> than for{' '}
+                        <strong className="capitalize">{disparity.lowest}</strong>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </Layout>
+  );
+};
+
+export default Fairness;
@@ -0,0 +1,354 @@
+import { useEffect, useState } from 'react';
+import { Layout } from '@/components/Layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Download, Eye, History, Undo2 } from 'lucide-react';
+import { STUDENT_FIELDS, ColumnMapping } from '@/lib/columnMapping';
+import { IMPORT_MODE_LABELS } from '@/lib/importDiff';
+import { RejectedRow, buildErrorReport } from '@/lib/importValidation';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+import { PredictionResponse } from '@/lib/predictionRuns';
+
+type ImportJob = Tables<'import_jobs'>;
+
+const STATUS_LABELS: Record<ImportJob['status'], string> = {
+  queued: 'Queued',
+  processing: 'Processing',
+  completed: 'Completed',
+  failed: 'Failed',
+  rolled_back: 'Rolled back',
+};
+
+const STATUS_VARIANTS: Record<ImportJob['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'secondary',
+  processing: 'secondary',
+  completed: 'default',
+  failed: 'destructive',
+  rolled_back: 'outline',
+};
+
+// Matches the import-students function: a running job that has not saved progress for this long has stopped
+const STALE_AFTER_MS = 2 * 60 * 1000;
+
+const isRunning = (job: ImportJob) => job.status === 'queued' || job.status === 'processing';
+const isStalled = (job: ImportJob) => isRunning(job) && Date.now() - new Date(job.updated_at).getTime() > STALE_AFTER_MS;
+
+const fieldLabels = Object.fromEntries(STUDENT_FIELDS.map(field => [field.key, field.label]));
+
+const ImportHistory = () => {
+  const [jobs, setJobs] = useState<ImportJob[]>([]);
+  const [uploaders, setUploaders] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+  const [resuming, setResuming] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  useEffect(() => {
+    fetchJobs();
+  }, []);
+
+  const fetchJobs = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('import_jobs')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setJobs(data || []);
+
+      const userIds = [...new Set((data || []).map(job => job.uploaded_by).filter(Boolean))] as string[];
+      if (userIds.length > 0) {
+        const { data: profiles } = await supabase
+          .from('profiles')
+          .select('user_id, display_name')
+          .in('user_id', userIds);
+        setUploaders(Object.fromEntries((profiles || []).map(p => [p.user_id, p.display_name || 'Unknown'])));
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch import history',
+        variant: 'destructive',
+      });
+      console.error('Fetch import jobs error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const downloadErrors = (job: ImportJob) => {
+    const blob = new Blob([buildErrorReport(job.errors as unknown as RejectedRow[])], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `upload_errors_${job.file_name.replace(/\.[^.]+$/, '')}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  // The function picks up from the last saved chunk
+  const resumeJob = async (job: ImportJob) => {
+    setResuming(job.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('import-students', {
+        body: { jobId: job.id }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      toast({
+        title: 'Import Resumed',
+        description: `${job.file_name} is continuing from row ${job.processed_rows + 1}`,
+      });
+      await fetchJobs();
+    } catch (error) {
+      toast({
+        title: 'Resume Failed',
+        description: (error as Error).message || 'Failed to resume import',
+        variant: 'destructive',
+      });
+    } finally {
+      setResuming(null);
+    }
+  };
+
+  const rollbackJob = async (job: ImportJob) => {
+    setRollingBack(job.id);
+    try {
+      // Students whose values are restored need fresh predictions afterwards
+      const { data: changes, error: changesError } = await supabase
+        .from('import_job_changes')
+        .select('student_id')
+        .eq('job_id', job.id)
+        .eq('action', 'update');
+
+      if (changesError) throw changesError;
+
+      const { error } = await supabase.rpc('rollback_import_job', { target_job_id: job.id });
+      if (error) throw error;
+
+      const restoredIds = (changes || []).map(change => change.student_id).filter(Boolean) as string[];
+      for (let i = 0; i < restoredIds.length; i += 200) {
+        try {
+          await invokeEdgeFunction<PredictionResponse>('predict-dropout-risk', {
+            studentIds: restoredIds.slice(i, i + 200),
+            source: 'rollback',
+            importJobId: job.id,
+          });
+        } catch (mlError) {
+          console.error('ML prediction error:', mlError);
+          toast({
+            title: 'Risk Scores Not Updated',
+            description: (mlError as Error).message,
+            variant: 'destructive',
+          });
+          break;
+        }
+      }
+
+      toast({
+        title: 'Upload Rolled Back',
+        description: `Removed ${job.inserted_count} added students and restored ${restoredIds.length} updated students`,
+      });
+      await fetchJobs();
+    } catch (error) {
+      toast({
+        title: 'Rollback Failed',
+        description: (error as Error).message || 'Failed to roll back upload',
+        variant: 'destructive',
+      });
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="space-y-6">
+          <div className="animate-pulse">
+            <div className="h-8 bg-muted rounded w-48 mb-4"></div>
+            <div className="h-96 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Import History</h1>
+          <p className="text-muted-foreground">
+            Every upload, who made it, and what it changed
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Uploads
+            </CardTitle>
+            <CardDescription>
+              Rolling back an upload deletes the students it added and restores the values it overwrote.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Uploaded</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead>Mode</TableHead>
+                  <TableHead>Rows</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow key={job.id}>
+                    <TableCell>
+                      {new Date(job.created_at).toLocaleString()}
+                      <span className="block text-xs text-muted-foreground">
+                        {job.uploaded_by ? uploaders[job.uploaded_by] ?? 'Unknown' : 'Unknown'}
+                      </span>
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      {job.file_name}
+                      {job.sheet_name && job.sheet_name !== job.file_name && (
+                        <span className="block text-xs text-muted-foreground">{job.sheet_name}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{IMPORT_MODE_LABELS[job.mode]}</TableCell>
+                    <TableCell className="text-sm">
+                      {job.total_rows} total
+                      <span className="block text-xs text-muted-foreground">
+                        {job.inserted_count} added · {job.updated_count} updated · {job.unchanged_count} unchanged
+                        {job.skipped_count > 0 && ` · ${job.skipped_count} skipped`}
+                        {job.rejected_count > 0 && ` · ${job.rejected_count} rejected`}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[job.status]}>{STATUS_LABELS[job.status]}</Badge>
+                      {isRunning(job) && (
+                        <span className="block text-xs text-muted-foreground">
+                          {job.processed_rows} / {job.total_rows} rows{isStalled(job) && ' · stalled'}
+                        </span>
+                      )}
+                      {job.failure_reason && (
+                        <span className="block text-xs text-destructive">{job.failure_reason}</span>
+                      )}
+                      {job.rolled_back_at && (
+                        <span className="block text-xs text-muted-foreground">
+                          {new Date(job.rolled_back_at).toLocaleString()}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="space-x-2 whitespace-nowrap">
+                      <Dialog>
+                        <DialogTrigger asChild>
+                          <Button variant="outline" size="sm">
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent className="max-w-lg">
+                          <DialogHeader>
+                            <DialogTitle>Column Mapping</DialogTitle>
+                            <DialogDescription>How the columns in {job.file_name} were mapped</DialogDescription>
+                          </DialogHeader>
+                          <Table>
+                            <TableBody>
+                              {Object.entries(job.column_mapping as ColumnMapping).map(([header, field]) => (
+                                <TableRow key={header}>
+                                  <TableCell className="font-medium">{header || '(no header)'}</TableCell>
+                                  <TableCell className={field ? '' : 'text-muted-foreground'}>
+                                    {field ? fieldLabels[field] ?? field : 'Ignored'}
+                                  </TableCell>
+                                </TableRow>
+                              ))}
+                            </TableBody>
+                          </Table>
+                        </DialogContent>
+                      </Dialog>
+                      {job.rejected_count > 0 && (
+                        <Button variant="outline" size="sm" onClick={() => downloadErrors(job)}>
+                          <Download className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {isStalled(job) && can('imports:manage') && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => resumeJob(job)}
+                          disabled={resuming !== null}
+                        >
+                          Resume
+                        </Button>
+                      )}
+                      {job.status !== 'rolled_back' && !isRunning(job) && can('imports:rollback') && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" size="sm" className="gap-2" disabled={rollingBack !== null}>
+                              <Undo2 className="h-4 w-4" />
+                              Roll back
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Roll back {job.file_name}?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                {job.inserted_count} students added by this upload will be deleted, along with their
+                                intervention notes and risk history. {job.updated_count} updated students will get
+                                their previous values back.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => rollbackJob(job)}>Roll back</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {jobs.length === 0 && (
+              <div className="text-center py-8 text-muted-foreground">
+                No uploads yet.
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+};
+
+export default ImportHistory;
@@ -0,0 +1,228 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Layout } from '@/components/Layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { CheckCircle, ClipboardList, Filter } from 'lucide-react';
+import { InterventionNote, interventionTypeLabel, isOverdue } from '@/lib/interventions';
+
+type OpenIntervention = InterventionNote & {
+  students: { name: string; student_id: string; department: string } | null;
+};
+
+const Interventions = () => {
+  const [interventions, setInterventions] = useState<OpenIntervention[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [staffFilter, setStaffFilter] = useState<string>('all');
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const { can } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchInterventions();
+  }, []);
+
+  const fetchInterventions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('intervention_notes')
+        .select('*, students(name, student_id, department)')
+        .eq('completed', false)
+        .order('follow_up_date', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setInterventions(data || []);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch interventions',
+        variant: 'destructive',
+      });
+      console.error('Fetch interventions error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const completeIntervention = async (intervention: OpenIntervention) => {
+    const { error } = await supabase
+      .from('intervention_notes')
+      .update({ completed: true })
+      .eq('id', intervention.id);
+
+    if (error) {
+      toast({
+        title: 'Intervention Not Completed',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setInterventions(prev => prev.filter(i => i.id !== intervention.id));
+    toast({
+      title: 'Intervention Completed',
+      description: `${interventionTypeLabel(intervention.intervention_type)} for ${intervention.students?.name ?? 'student'}`,
+    });
+  };
+
+  const types = [...new Set(interventions.map(i => i.intervention_type))].sort();
+  const staffMembers = [...new Set(interventions.map(i => i.staff_member))].sort();
+  const overdueCount = interventions.filter(isOverdue).length;
+
+  const filtered = interventions.filter(i =>
+    (typeFilter === 'all' || i.intervention_type === typeFilter) &&
+    (staffFilter === 'all' || i.staff_member === staffFilter) &&
+    (!overdueOnly || isOverdue(i))
+  );
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="space-y-6">
+          <div className="animate-pulse">
+            <div className="h-8 bg-muted rounded w-48 mb-4"></div>
+            <div className="h-96 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Interventions</h1>
+          <p className="text-muted-foreground">
+            Open interventions across all students, with follow-ups that are due
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Filter className="h-5 w-5" />
+              Filters
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
+              <Select value={typeFilter} onValueChange={setTypeFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Filter by type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  {types.map(type => (
+                    <SelectItem key={type} value={type}>{interventionTypeLabel(type)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={staffFilter} onValueChange={setStaffFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Filter by staff member" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Staff</SelectItem>
+                  {staffMembers.map(staff => (
+                    <SelectItem key={staff} value={staff}>{staff}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <div className="flex items-center gap-2">
+                <Switch id="overdue-only" checked={overdueOnly} onCheckedChange={setOverdueOnly} />
+                <Label htmlFor="overdue-only">Overdue follow-ups only ({overdueCount})</Label>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardList className="h-5 w-5" />
+              Open Interventions ({filtered.length})
+            </CardTitle>
+            <CardDescription>
+              Log new interventions from a student's profile.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead>Staff Member</TableHead>
+                  <TableHead>Logged</TableHead>
+                  <TableHead>Follow-up</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map((intervention) => (
+                  <TableRow key={intervention.id}>
+                    <TableCell>
+                      <Link
+                        to={`/students/${intervention.student_id}?tab=interventions`}
+                        className="font-medium hover:underline"
+                      >
+                        {intervention.students?.name ?? '—'}
+                      </Link>
+                      <div className="text-xs text-muted-foreground">
+                        {intervention.students?.student_id} · {intervention.students?.department}
+                      </div>
+                    </TableCell>
+                    <TableCell>{interventionTypeLabel(intervention.intervention_type)}</TableCell>
+                    <TableCell className="max-w-xs truncate" title={intervention.note}>{intervention.note}</TableCell>
+                    <TableCell>{intervention.staff_member}</TableCell>
+                    <TableCell>{new Date(intervention.created_at).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      {intervention.follow_up_date ? (
+                        <Badge variant={isOverdue(intervention) ? 'destructive' : 'outline'}>
+                          {new Date(`${intervention.follow_up_date}T00:00:00`).toLocaleDateString()}
+                        </Badge>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {can('interventions:manage') && (
+                        <Button variant="outline" size="sm" onClick={() => completeIntervention(intervention)} className="gap-2">
+                          <CheckCircle className="h-4 w-4" />
+                          Complete
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {filtered.length === 0 && (
+              <div className="text-center py-8 text-muted-foreground">
+                No open interventions match the filters.
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+};
+
+export default Interventions;
@@ -0,0 +1,313 @@
+import { useEffect, useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Layout } from '@/components/Layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { RiskBadge } from '@/components/RiskBadge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { useToast } from '@/hooks/use-toast';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+import { Activity, RefreshCw, Target, Users } from 'lucide-react';
+import {
+  BacktestResult,
+  OUTCOMES,
+  RISK_LEVELS,
+  buildCalibrationCurve,
+  buildConfusionMatrix,
+  buildLevelMetrics,
+  buildRocCurve,
+} from '@/lib/modelMetrics';
+
+interface BacktestResponse {
+  modelVersion: string;
+  riskLevels: { high: number; medium: number };
+  results: BacktestResult[];
+}
+
+const outcomeLabels = {
+  dropped_out: 'Dropped out',
+  graduated: 'Graduated',
+  enrolled: 'Still enrolled',
+};
+
+const rocConfig = {
+  tpr: { label: 'True positive rate', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const calibrationConfig = {
+  observed: { label: 'Observed dropout rate', color: 'hsl(var(--risk-high))' },
+} satisfies ChartConfig;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const ModelPerformance = () => {
+  const [backtest, setBacktest] = useState<BacktestResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [includeEnrolled, setIncludeEnrolled] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    runBacktest();
+  }, []);
+
+  const runBacktest = async () => {
+    setLoading(true);
+    try {
+      const data = await invokeEdgeFunction<BacktestResponse>('predict-dropout-risk', { backtest: true });
+      setBacktest(data);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to evaluate the risk model',
+        variant: 'destructive',
+      });
+      console.error('Backtest error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout permission="predictions:run">
+        <div className="space-y-6">
+          <div className="animate-pulse">
+            <div className="h-8 bg-muted rounded w-48 mb-4"></div>
+            <div className="h-96 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  // Students still enrolled have no final outcome yet, so they are left out unless asked for
+  const results = (backtest?.results || []).filter(result => includeEnrolled || result.outcome !== 'enrolled');
+  const dropouts = results.filter(result => result.outcome === 'dropped_out').length;
+  const confusion = buildConfusionMatrix(results);
+  const levelMetrics = buildLevelMetrics(results);
+  const roc = buildRocCurve(results);
+  const calibration = buildCalibrationCurve(results);
+  const visibleOutcomes = OUTCOMES.filter(outcome => includeEnrolled || outcome !== 'enrolled');
+
+  return (
+    <Layout permission="predictions:run">
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Model Performance</h1>
+            <p className="text-muted-foreground">
+              How well the active risk model predicts recorded student outcomes
+            </p>
+          </div>
+          <Button onClick={runBacktest} variant="outline" className="gap-2">
+            <RefreshCw className="h-4 w-4" />
+            Re-run
+          </Button>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6 flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Active model:</span>
+              <Badge variant="outline">{backtest?.modelVersion ?? 'unknown'}</Badge>
+              {backtest && (
+                <span className="text-muted-foreground">
+                  medium from {formatPercent(backtest.riskLevels.medium)}, high from {formatPercent(backtest.riskLevels.high)}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="include-enrolled" checked={includeEnrolled} onCheckedChange={setIncludeEnrolled} />
+              <Label htmlFor="include-enrolled">Count enrolled students as non-dropouts</Label>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Evaluated Students</CardTitle>
+              <Users className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{results.length}</div>
+              <p className="text-xs text-muted-foreground">{dropouts} dropped out</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">ROC AUC</CardTitle>
+              <Activity className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{roc.points.length > 0 ? roc.auc.toFixed(3) : 'N/A'}</div>
+              <p className="text-xs text-muted-foreground">0.5 is chance, 1.0 is perfect ranking</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">High Risk Recall</CardTitle>
+              <Target className="h-4 w-4 text-risk-high" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-risk-high">
+                {formatPercent(levelMetrics.find(metric => metric.level === 'high')?.recall ?? 0)}
+              </div>
+              <p className="text-xs text-muted-foreground">Of dropouts flagged as high risk</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {results.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              No students with recorded outcomes yet. Record outcomes from the student profile to evaluate the model.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Confusion Matrix</CardTitle>
+                  <CardDescription>Predicted risk level against recorded outcome</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Predicted</TableHead>
+                        {visibleOutcomes.map(outcome => (
+                          <TableHead key={outcome} className="text-right">{outcomeLabels[outcome]}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[...RISK_LEVELS].reverse().map(level => (
+                        <TableRow key={level}>
+                          <TableCell><RiskBadge riskLevel={level} /></TableCell>
+                          {visibleOutcomes.map(outcome => (
+                            <TableCell key={outcome} className="text-right font-medium">
+                              {confusion[level][outcome]}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Precision and Recall by Level</CardTitle>
+                  <CardDescription>Treating each level and above as a dropout warning</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Flagged at</TableHead>
+                        <TableHead className="text-right">Flagged</TableHead>
+                        <TableHead className="text-right">Precision</TableHead>
+                        <TableHead className="text-right">Recall</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[...levelMetrics].reverse().map(metric => (
+                        <TableRow key={metric.level}>
+                          <TableCell><RiskBadge riskLevel={metric.level} /> {metric.level !== 'high' && 'or above'}</TableCell>
+                          <TableCell className="text-right">{metric.flagged}</TableCell>
+                          <TableCell className="text-right">{formatPercent(metric.precision)}</TableCell>
+                          <TableCell className="text-right">{formatPercent(metric.recall)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>ROC Curve</CardTitle>
+                  <CardDescription>True against false positive rate across risk score cut-offs</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {roc.points.length > 0 ? (
+                    <ChartContainer config={rocConfig} className="h-[300px] w-full aspect-auto">
+                      <LineChart data={roc.points} margin={{ left: 0, right: 12, top: 8 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="fpr" type="number" domain={[0, 1]} tickFormatter={formatPercent} />
+                        <YAxis domain={[0, 1]} tickFormatter={formatPercent} width={40} />
+                        <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} strokeDasharray="4 4" />
+                        <ChartTooltip
+                          content={
+                            <ChartTooltipContent
+                              labelFormatter={(_, payload) => {
+                                const point = payload?.[0]?.payload;
+                                return point
+                                  ? `Score ≥ ${formatPercent(point.threshold)} · FPR ${formatPercent(point.fpr)}`
+                                  : '';
+                              }}
+                              formatter={(value) => formatPercent(Number(value))}
+                            />
+                          }
+                        />
+                        <Line dataKey="tpr" type="linear" stroke="var(--color-tpr)" strokeWidth={2} dot={false} />
+                      </LineChart>
+                    </ChartContainer>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Needs both dropouts and non-dropouts with recorded outcomes.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Calibration</CardTitle>
+                  <CardDescription>Mean predicted risk score against observed dropout rate</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={calibrationConfig} className="h-[300px] w-full aspect-auto">
+                    <LineChart data={calibration} margin={{ left: 0, right: 12, top: 8 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="predicted" type="number" domain={[0, 1]} tickFormatter={formatPercent} />
+                      <YAxis domain={[0, 1]} tickFormatter={formatPercent} width={40} />
+                      <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} strokeDasharray="4 4" />
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent
+                            labelFormatter={(_, payload) => {
+                              const bin = payload?.[0]?.payload;
+                              return bin
+                                ? `Scores ${bin.bin} · predicted ${formatPercent(bin.predicted)} · ${bin.count} students`
+                                : '';
+                            }}
+                            formatter={(value) => formatPercent(Number(value))}
+                          />
+                        }
+                      />
+                      <Line dataKey="observed" type="linear" stroke="var(--color-observed)" strokeWidth={2} />
+                    </LineChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default ModelPerformance;
@@ -0,0 +1,630 @@
+import { useEffect, useState } from 'react';
+import { Layout } from '@/components/Layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { AlertCircle, BrainCircuit, CheckCircle, Pencil, Plus, Trash2 } from 'lucide-react';
+import {
+  BANDED_FACTORS,
+  BANDED_FACTOR_LABELS,
+  BandedFactor,
+  DEFAULT_THRESHOLDS,
+  DEFAULT_WEIGHTS,
+  IMPUTATION_STRATEGY_LABELS,
+  ImputationStrategy,
+  MODEL_TYPE_LABELS,
+  RiskModelConfig,
+  RiskModelThresholds,
+  RiskModelWeights,
+  WEIGHT_LABELS,
+  formatModelVersion,
+  toRiskModelConfig,
+  validateRiskModel,
+} from '@/lib/riskModelConfig';
+
+interface DraftConfig {
+  name: string;
+  description: string;
+  weights: RiskModelWeights;
+  thresholds: RiskModelThresholds;
+  imputation_strategy: ImputationStrategy;
+}
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  step?: number;
+  onChange: (value: number) => void;
+}
+
+const NumberField = ({ id, label, value, step = 0.01, onChange }: NumberFieldProps) => (
+  <div className="space-y-1">
+    <Label htmlFor={id} className="text-xs text-muted-foreground">{label}</Label>
+    <Input
+      id={id}
+      type="number"
+      step={step}
+      value={Number.isFinite(value) ? value : ''}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+    />
+  </div>
+);
+
+const ModelSettings = () => {
+  const [configs, setConfigs] = useState<RiskModelConfig[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<DraftConfig | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [training, setTraining] = useState(false);
+  const [trainingName, setTrainingName] = useState('logistic');
+  const [includeEnrolled, setIncludeEnrolled] = useState(false);
+  const [activateTrained, setActivateTrained] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchConfigs();
+  }, []);
+
+  const fetchConfigs = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('risk_model_configs')
+        .select('*')
+        .order('name')
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+      setConfigs((data || []).map(toRiskModelConfig));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch risk model configurations',
+        variant: 'destructive',
+      });
+      console.error('Fetch risk model configs error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startDraft = (base?: RiskModelConfig) => {
+    setDraft({
+      name: base?.name ?? '',
+      description: base?.description ?? '',
+      weights: structuredClone(base?.weights ?? DEFAULT_WEIGHTS),
+      thresholds: structuredClone(base?.thresholds ?? DEFAULT_THRESHOLDS),
+      imputation_strategy: base?.imputation_strategy ?? 'department_median',
+    });
+  };
+
+  const updateWeight = (key: keyof RiskModelWeights, value: number) => {
+    setDraft(prev => prev && { ...prev, weights: { ...prev.weights, [key]: value } });
+  };
+
+  const updateThresholds = (update: (thresholds: RiskModelThresholds) => void) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const thresholds = structuredClone(prev.thresholds);
+      update(thresholds);
+      return { ...prev, thresholds };
+    });
+  };
+
+  const nextVersion = (name: string) => {
+    const versions = configs.filter(config => config.name === name).map(config => config.version);
+    return versions.length > 0 ? Math.max(...versions) + 1 : 1;
+  };
+
+  const saveDraft = async () => {
+    if (!draft) return;
+
+    setSaving(true);
+    try {
+      const name = draft.name.trim();
+      const { error } = await supabase.from('risk_model_configs').insert({
+        name,
+        version: nextVersion(name),
+        description: draft.description.trim() || null,
+        weights: { ...draft.weights },
+        thresholds: { ...draft.thresholds },
+        imputation_strategy: draft.imputation_strategy,
+        created_by: user?.id ?? null,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Configuration Saved',
+        description: `Saved ${name} as version ${nextVersion(name)}. Activate it to use it for predictions.`,
+      });
+      setDraft(null);
+      await fetchConfigs();
+    } catch (error) {
+      toast({
+        title: 'Save Failed',
+        description: (error as Error).message || 'Failed to save risk model configuration',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const activateConfig = async (config: RiskModelConfig) => {
+    const { error } = await supabase.rpc('activate_risk_model_config', { config_id: config.id });
+
+    if (error) {
+      toast({
+        title: 'Activation Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Model Activated',
+      description: `${formatModelVersion(config)} will be used for all new predictions`,
+    });
+    await fetchConfigs();
+  };
+
+  const trainModel = async () => {
+    setTraining(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('train-risk-model', {
+        body: {
+          name: trainingName.trim() || 'logistic',
+          includeEnrolled,
+          activate: activateTrained,
+        },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      toast({
+        title: 'Model Trained',
+        description: `${data.modelVersion} reached ${Math.round(data.metrics.accuracy * 100)}% training accuracy${data.activated ? ' and is now active' : ''}`,
+      });
+      await fetchConfigs();
+    } catch (error) {
+      toast({
+        title: 'Training Failed',
+        description: (error as Error).message || 'Failed to train risk model',
+        variant: 'destructive',
+      });
+    } finally {
+      setTraining(false);
+    }
+  };
+
+  const draftErrors = draft ? validateRiskModel(draft.weights, draft.thresholds) : [];
+  if (draft && !draft.name.trim()) {
+    draftErrors.unshift('Name is required');
+  }
+
+  const renderBandEditor = (factor: BandedFactor) => {
+    if (!draft) return null;
+    const { bands, fallback } = draft.thresholds[factor];
+
+    return (
+      <div key={factor} className="space-y-2 rounded-lg border p-4">
+        <h4 className="font-medium">{WEIGHT_LABELS[factor]} bands</h4>
+        <p className="text-xs text-muted-foreground">
+          The highest band the value reaches sets the risk; otherwise the fallback applies.
+        </p>
+        {bands.map((band, index) => (
+          <div key={index} className="grid grid-cols-[1fr_1fr_auto] items-end gap-2">
+            <NumberField
+              id={`${factor}-min-${index}`}
+              label={BANDED_FACTOR_LABELS[factor]}
+              value={band.min}
+              step={factor === 'academic' ? 0.1 : 1}
+              onChange={(value) => updateThresholds(t => { t[factor].bands[index].min = value; })}
+            />
+            <NumberField
+              id={`${factor}-risk-${index}`}
+              label="Risk"
+              value={band.risk}
+              onChange={(value) => updateThresholds(t => { t[factor].bands[index].risk = value; })}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => updateThresholds(t => { t[factor].bands.splice(index, 1); })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="grid grid-cols-[1fr_1fr_auto] items-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            onClick={() => updateThresholds(t => { t[factor].bands.push({ min: 0, risk: 0 }); })}
+          >
+            <Plus className="h-4 w-4" />
+            Add band
+          </Button>
+          <NumberField
+            id={`${factor}-fallback`}
+            label="Fallback risk"
+            value={fallback}
+            onChange={(value) => updateThresholds(t => { t[factor].fallback = value; })}
+          />
+          <div className="w-10" />
+        </div>
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <Layout permission="model:manage">
+        <div className="space-y-6">
+          <div className="animate-pulse">
+            <div className="h-8 bg-muted rounded w-48 mb-4"></div>
+            <div className="h-96 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout permission="model:manage">
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Risk Model</h1>
+            <p className="text-muted-foreground">
+              Tune the weights and thresholds used to score dropout risk
+            </p>
+          </div>
+          <Button
+            onClick={() => startDraft(
+              configs.find(config => config.is_active && config.model_type === 'heuristic')
+                ?? configs.find(config => config.model_type === 'heuristic')
+            )}
+            className="gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            New Version
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Configurations</CardTitle>
+            <CardDescription>
+              Saved configurations are never changed in place. Editing one saves a new version.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Model</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {configs.map((config) => (
+                  <TableRow key={config.id}>
+                    <TableCell className="font-medium">{formatModelVersion(config)}</TableCell>
+                    <TableCell>
+                      {MODEL_TYPE_LABELS[config.model_type]}
+                      <span className="block text-xs text-muted-foreground">
+                        Missing inputs: {IMPUTATION_STRATEGY_LABELS[config.imputation_strategy].toLowerCase()}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      {config.description || '—'}
+                      {config.training_metrics && (
+                        <span className="block text-xs text-muted-foreground">
+                          {config.training_metrics.samples} samples · {Math.round(config.training_metrics.accuracy * 100)}% accuracy · log loss {config.training_metrics.log_loss.toFixed(3)}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>{new Date(config.created_at).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      {config.is_active ? (
+                        <Badge className="gap-1">
+                          <CheckCircle className="h-3 w-3" />
+                          Active
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline">Inactive</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="space-x-2">
+                      {config.model_type === 'heuristic' && (
+                        <Button variant="outline" size="sm" onClick={() => startDraft(config)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {!config.is_active && (
+                        <Button variant="outline" size="sm" onClick={() => activateConfig(config)}>
+                          Activate
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {configs.length === 0 && (
+              <div className="text-center py-8 text-muted-foreground">
+                No configurations saved yet. Predictions use the built-in defaults.
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BrainCircuit className="h-5 w-5" />
+              Train from Outcomes
+            </CardTitle>
+            <CardDescription>
+              Fit a logistic regression on students whose outcome has been recorded. Dropouts are
+              the positive class and graduates the negative class.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="training-name">Model name</Label>
+                <Input
+                  id="training-name"
+                  value={trainingName}
+                  onChange={(e) => setTrainingName(e.target.value)}
+                />
+              </div>
+              <div className="flex items-center gap-2 h-10">
+                <Switch id="include-enrolled" checked={includeEnrolled} onCheckedChange={setIncludeEnrolled} />
+                <Label htmlFor="include-enrolled">Count enrolled students as non-dropouts</Label>
+              </div>
+              <div className="flex items-center gap-2 h-10">
+                <Switch id="activate-trained" checked={activateTrained} onCheckedChange={setActivateTrained} />
+                <Label htmlFor="activate-trained">Activate when trained</Label>
+              </div>
+              <Button onClick={trainModel} disabled={training} className="gap-2">
+                <BrainCircuit className="h-4 w-4" />
+                {training ? 'Training...' : 'Train Model'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {draft && (
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                {draft.name.trim()
+                  ? `New version of ${draft.name.trim()} (v${nextVersion(draft.name.trim())})`
+                  : 'New configuration'}
+              </CardTitle>
+              <CardDescription>
+                Risk values are between 0 (no risk) and 1 (maximum risk)
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="config-name">Name</Label>
+                  <Input
+                    id="config-name"
+                    value={draft.name}
+                    placeholder="default"
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="config-description">Description</Label>
+                  <Textarea
+                    id="config-description"
+                    value={draft.description}
+                    placeholder="What changed and why"
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-medium">Factor weights</h4>
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+                  {(Object.keys(WEIGHT_LABELS) as (keyof RiskModelWeights)[]).map(key => (
+                    <NumberField
+                      key={key}
+                      id={`weight-${key}`}
+                      label={WEIGHT_LABELS[key]}
+                      value={draft.weights[key]}
+                      onChange={(value) => updateWeight(key, value)}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-medium">Risk level cut-offs</h4>
+                <div className="grid grid-cols-2 gap-4 md:w-1/2">
+                  <NumberField
+                    id="level-medium"
+                    label="Medium risk from score"
+                    value={draft.thresholds.risk_levels.medium}
+                    onChange={(value) => updateThresholds(t => { t.risk_levels.medium = value; })}
+                  />
+                  <NumberField
+                    id="level-high"
+                    label="High risk from score"
+                    value={draft.thresholds.risk_levels.high}
+                    onChange={(value) => updateThresholds(t => { t.risk_levels.high = value; })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-medium">Missing inputs</h4>
+                <div className="md:w-1/2 space-y-1">
+                  <Select
+                    value={draft.imputation_strategy}
+                    onValueChange={(value) => setDraft({ ...draft, imputation_strategy: value as ImputationStrategy })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(IMPUTATION_STRATEGY_LABELS) as ImputationStrategy[]).map(strategy => (
+                        <SelectItem key={strategy} value={strategy}>{IMPUTATION_STRATEGY_LABELS[strategy]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    How missing attendance, grades, income or distance are filled in. Imputed inputs lower the prediction's confidence.
+                  </p>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                {BANDED_FACTORS.map(renderBandEditor)}
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <div className="space-y-2 rounded-lg border p-4">
+                  <h4 className="font-medium">Financial</h4>
+                  <div className="grid grid-cols-2 gap-4">
+                    <NumberField
+                      id="financial-fee-default"
+                      label="Fee default risk"
+                      value={draft.thresholds.financial.fee_default}
+                      onChange={(value) => updateThresholds(t => { t.financial.fee_default = value; })}
+                    />
+                    <NumberField
+                      id="financial-no-scholarship"
+                      label="No scholarship risk"
+                      value={draft.thresholds.financial.no_scholarship}
+                      onChange={(value) => updateThresholds(t => { t.financial.no_scholarship = value; })}
+                    />
+                    <NumberField
+                      id="financial-low-income-below"
+                      label="Low income below"
+                      step={10000}
+                      value={draft.thresholds.financial.low_income_below}
+                      onChange={(value) => updateThresholds(t => { t.financial.low_income_below = value; })}
+                    />
+                    <NumberField
+                      id="financial-low-income"
+                      label="Low income risk"
+                      value={draft.thresholds.financial.low_income}
+                      onChange={(value) => updateThresholds(t => { t.financial.low_income = value; })}
+                    />
+                    <NumberField
+                      id="financial-medium-income-below"
+                      label="Medium income below"
+                      step={10000}
+                      value={draft.thresholds.financial.medium_income_below}
+                      onChange={(value) => updateThresholds(t => { t.financial.medium_income_below = value; })}
+                    />
+                    <NumberField
+                      id="financial-medium-income"
+                      label="Medium income risk"
+                      value={draft.thresholds.financial.medium_income}
+                      onChange={(value) => updateThresholds(t => { t.financial.medium_income = value; })}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2 rounded-lg border p-4">
+                  <h4 className="font-medium">Demographics</h4>
+                  <div className="grid grid-cols-2 gap-4">
+                    <NumberField
+                      id="demographics-distance-above"
+                      label="Distance from home above (km)"
+                      step={10}
+                      value={draft.thresholds.demographics.distance_above}
+                      onChange={(value) => updateThresholds(t => { t.demographics.distance_above = value; })}
+                    />
+                    <NumberField
+                      id="demographics-distance"
+                      label="Distance risk"
+                      value={draft.thresholds.demographics.distance}
+                      onChange={(value) => updateThresholds(t => { t.demographics.distance = value; })}
+                    />
+                    <NumberField
+                      id="demographics-hostel"
+                      label="Hostel accommodation risk"
+                      value={draft.thresholds.demographics.hostel}
+                      onChange={(value) => updateThresholds(t => { t.demographics.hostel = value; })}
+                    />
+                    <NumberField
+                      id="demographics-education-gap"
+                      label="Previous education gap risk"
+                      value={draft.thresholds.demographics.education_gap}
+                      onChange={(value) => updateThresholds(t => { t.demographics.education_gap = value; })}
+                    />
+                    <NumberField
+                      id="demographics-late-semester-above"
+                      label="Semester above"
+                      step={1}
+                      value={draft.thresholds.demographics.late_semester_above}
+                      onChange={(value) => updateThresholds(t => { t.demographics.late_semester_above = value; })}
+                    />
+                    <NumberField
+                      id="demographics-late-semester"
+                      label="Late semester risk"
+                      value={draft.thresholds.demographics.late_semester}
+                      onChange={(value) => updateThresholds(t => { t.demographics.late_semester = value; })}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {draftErrors.length > 0 && (
+                <Alert className="border-destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    <ul className="list-disc list-inside">
+                      {draftErrors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={saveDraft} disabled={saving || draftErrors.length > 0}>
+                  {saving ? 'Saving...' : 'Save Version'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default ModelSettings;
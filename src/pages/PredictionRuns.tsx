@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import { Layout } from '@/components/Layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+import { Play, RefreshCw, Timer } from 'lucide-react';
+import {
+  PredictionResponse,
+  PredictionRun,
+  RUN_STATUS_LABELS,
+  RUN_STATUS_VARIANTS,
+  TRIGGER_LABELS,
+  formatDuration,
+  retryPredictionRun,
+  unretriedRuns,
+} from '@/lib/predictionRuns';
+
+const PAGE_SIZE = 100;
+
+const PredictionRuns = () => {
+  const [runs, setRuns] = useState<PredictionRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  useEffect(() => {
+    fetchRuns();
+  }, []);
+
+  const fetchRuns = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('prediction_runs')
+        .select('*')
+        .order('started_at', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (error) throw error;
+      setRuns(data || []);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch prediction runs',
+        variant: 'destructive',
+      });
+      console.error('Fetch prediction runs error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const retryRun = async (run: PredictionRun) => {
+    setBusy(true);
+    try {
+      const result = await retryPredictionRun(run);
+      toast({
+        title: result.failedCount > 0 ? 'Retry Partially Failed' : 'Retry Succeeded',
+        description: `${result.processedCount} of ${result.totalCount} students were scored`,
+        variant: result.failedCount > 0 ? 'destructive' : 'default',
+      });
+      await fetchRuns();
+    } catch (error) {
+      toast({
+        title: 'Retry Failed',
+        description: (error as Error).message || 'Failed to retry prediction run',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const scoreUnscored = async () => {
+    setBusy(true);
+    try {
+      const data = await invokeEdgeFunction<PredictionResponse>('predict-dropout-risk', {
+        processNewStudents: true,
+        source: 'manual',
+      });
+
+      toast({
+        title: 'Scoring Finished',
+        description: `${data.processedCount} of ${data.totalCount} unscored students were scored`,
+      });
+      await fetchRuns();
+    } catch (error) {
+      toast({
+        title: 'Scoring Failed',
+        description: (error as Error).message || 'Failed to score students',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="space-y-6">
+          <div className="animate-pulse">
+            <div className="h-8 bg-muted rounded w-48 mb-4"></div>
+            <div className="h-96 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  const retryable = new Set(unretriedRuns(runs).map(run => run.id));
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Prediction Runs</h1>
+            <p className="text-muted-foreground">
+              Every risk scoring run, what started it, and how it went
+            </p>
+          </div>
+          {can('predictions:run') && (
+            <Button onClick={scoreUnscored} disabled={busy} className="gap-2">
+              <Play className="h-4 w-4" />
+              Score Unscored Students
+            </Button>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Timer className="h-5 w-5" />
+              Recent Runs
+            </CardTitle>
+            <CardDescription>
+              Students whose scores could not be saved are kept with the run and can be retried.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead>Students</TableHead>
+                  <TableHead>Updated</TableHead>
+                  <TableHead>Failed</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell>{new Date(run.started_at).toLocaleString()}</TableCell>
+                    <TableCell>{TRIGGER_LABELS[run.trigger_source]}</TableCell>
+                    <TableCell className="font-medium">{run.model_version || '—'}</TableCell>
+                    <TableCell>{run.student_count}</TableCell>
+                    <TableCell>{run.updated_count}</TableCell>
+                    <TableCell className={run.failed_student_ids.length > 0 ? 'text-destructive' : ''}>
+                      {run.failed_student_ids.length}
+                    </TableCell>
+                    <TableCell>{formatDuration(run.duration_ms)}</TableCell>
+                    <TableCell>
+                      <Badge variant={RUN_STATUS_VARIANTS[run.status]}>{RUN_STATUS_LABELS[run.status]}</Badge>
+                      {run.error_message && (
+                        <span className="block text-xs text-destructive">{run.error_message}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {retryable.has(run.id) && can('predictions:run') && (
+                        <Button variant="outline" size="sm" onClick={() => retryRun(run)} disabled={busy} className="gap-2">
+                          <RefreshCw className="h-4 w-4" />
+                          Retry
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {runs.length === 0 && (
+              <div className="text-center py-8 text-muted-foreground">
+                No prediction runs recorded yet.
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+};
+
+export default PredictionRuns;
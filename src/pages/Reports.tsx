@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Layout } from '@/components/Layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -8,6 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { DatePickerWithRange } from '@/components/ui/date-range-picker';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useDepartmentFilter } from '@/hooks/useDepartmentFilter';
 import { Download, FileText, TrendingUp, Users, AlertTriangle } from 'lucide-react';
 import { addDays } from 'date-fns';
 import { DateRange } from 'react-day-picker';
@@ -20,9 +22,9 @@ interface Student {
   department: string;
   semester: number;
   gender: string;
-  attendance_percentage: number;
-  cgpa: number;
-  sgpa: number;
+  attendance_percentage: number | null;
+  cgpa: number | null;
+  sgpa: number | null;
   fee_default: boolean;
   disciplinary_actions: number;
   scholarship: boolean;
@@ -37,12 +39,14 @@ const Reports = () => {
   const [filteredStudents, setFilteredStudents] = useState<Student[]>([]);
   const [loading, setLoading] = useState(true);
   const [riskFilter, setRiskFilter] = useState<string>('all');
-  const [departmentFilter, setDepartmentFilter] = useState<string>('all');
   const [dateRange, setDateRange] = useState<DateRange | undefined>({
     from: addDays(new Date(), -30),
     to: new Date(),
   });
   const { toast } = useToast();
+  const { departmentFilter, setDepartmentFilter, departmentOptions, allDepartmentsLabel } = useDepartmentFilter(
+    [...new Set(students.map(student => student.department))]
+  );
 
   useEffect(() => {
     fetchStudents();
@@ -97,10 +101,6 @@ const Reports = () => {
     setFilteredStudents(filtered);
   };
 
-  const getDepartments = () => {
-    return [...new Set(students.map(student => student.department))];
-  };
-
   const getStatistics = () => {
     const total = filteredStudents.length;
     const highRisk = filteredStudents.filter(s => s.risk_level === 'high').length;
@@ -108,12 +108,15 @@ const Reports = () => {
     const lowRisk = filteredStudents.filter(s => s.risk_level === 'low').length;
     const unanalyzed = filteredStudents.filter(s => !s.risk_level).length;
     
-    const averageAttendance = total > 0 
-      ? Math.round(filteredStudents.reduce((sum, s) => sum + s.attendance_percentage, 0) / total)
+    // Averages only cover students with the value recorded
+    const attendanceValues = filteredStudents.map(s => s.attendance_percentage).filter((v): v is number => v !== null);
+    const averageAttendance = attendanceValues.length > 0 
+      ? Math.round(attendanceValues.reduce((sum, v) => sum + v, 0) / attendanceValues.length)
       : 0;
     
-    const averageCGPA = total > 0
-      ? Math.round((filteredStudents.reduce((sum, s) => sum + s.cgpa, 0) / total) * 100) / 100
+    const cgpaValues = filteredStudents.map(s => s.cgpa).filter((v): v is number => v !== null);
+    const averageCGPA = cgpaValues.length > 0
+      ? Math.round((cgpaValues.reduce((sum, v) => sum + v, 0) / cgpaValues.length) * 100) / 100
       : 0;
 
     return {
@@ -127,6 +130,9 @@ const Reports = () => {
     };
   };
 
+  // Absolute, so links in a downloaded report open the student's profile
+  const profileUrl = (student: Student) => `${window.location.origin}/students/${student.id}`;
+
   const exportDetailedReport = () => {
     const stats = getStatistics();
     const reportData = [
@@ -145,7 +151,7 @@ const Reports = () => {
       ['Average CGPA:', stats.averageCGPA],
       [''],
       ['DETAILED STUDENT DATA'],
-      ['Name', 'Email', 'Student ID', 'Department', 'Semester', 'Gender', 'Attendance %', 'CGPA', 'SGPA', 'Fee Default', 'Disciplinary Actions', 'Scholarship', 'Extracurriculars', 'Risk Level', 'Risk Score', 'Date Added'],
+      ['Name', 'Email', 'Student ID', 'Department', 'Semester', 'Gender', 'Attendance %', 'CGPA', 'SGPA', 'Fee Default', 'Disciplinary Actions', 'Scholarship', 'Extracurriculars', 'Risk Level', 'Risk Score', 'Date Added', 'Profile'],
       ...filteredStudents.map(student => [
         student.name,
         student.email,
@@ -153,9 +159,9 @@ const Reports = () => {
         student.department,
         student.semester,
         student.gender,
-        student.attendance_percentage,
-        student.cgpa,
-        student.sgpa,
+        student.attendance_percentage ?? 'N/A',
+        student.cgpa ?? 'N/A',
+        student.sgpa ?? 'N/A',
         student.fee_default ? 'Yes' : 'No',
         student.disciplinary_actions,
         student.scholarship ? 'Yes' : 'No',
@@ -163,6 +169,7 @@ const Reports = () => {
         student.risk_level || 'Not Analyzed',
         student.risk_score ? (Math.round(student.risk_score * 100) + '%') : 'N/A',
         new Date(student.created_at).toLocaleDateString(),
+        profileUrl(student),
       ])
     ];
 
@@ -188,11 +195,11 @@ const Reports = () => {
       ['Generated on:', new Date().toLocaleDateString()],
       ['Total High Risk Students:', highRiskStudents.length],
       [''],
-      ['Name', 'Email', 'Student ID', 'Department', 'Attendance %', 'CGPA', 'Risk Score', 'Key Risk Factors'],
+      ['Name', 'Email', 'Student ID', 'Department', 'Attendance %', 'CGPA', 'Risk Score', 'Key Risk Factors', 'Profile'],
       ...highRiskStudents.map(student => {
         const riskFactors = [];
-        if (student.attendance_percentage < 75) riskFactors.push('Low Attendance');
-        if (student.cgpa < 6.0) riskFactors.push('Low CGPA');
+        if (student.attendance_percentage !== null && student.attendance_percentage < 75) riskFactors.push('Low Attendance');
+        if (student.cgpa !== null && student.cgpa < 6.0) riskFactors.push('Low CGPA');
         if (student.fee_default) riskFactors.push('Fee Default');
         if (student.disciplinary_actions > 0) riskFactors.push('Disciplinary Issues');
         if (student.extracurriculars === 0) riskFactors.push('No Extracurriculars');
@@ -202,10 +209,11 @@ const Reports = () => {
           student.email,
           student.student_id,
           student.department,
-          student.attendance_percentage + '%',
-          student.cgpa,
+          student.attendance_percentage === null ? 'N/A' : student.attendance_percentage + '%',
+          student.cgpa ?? 'N/A',
           student.risk_score ? (Math.round(student.risk_score * 100) + '%') : 'N/A',
           riskFactors.join('; ') || 'Other factors',
+          profileUrl(student),
         ];
       })
     ];
@@ -226,6 +234,10 @@ const Reports = () => {
   };
 
   const stats = getStatistics();
+  const topHighRisk = filteredStudents
+    .filter(s => s.risk_level === 'high')
+    .sort((a, b) => (b.risk_score ?? 0) - (a.risk_score ?? 0))
+    .slice(0, 5);
 
   if (loading) {
     return (
@@ -277,8 +289,8 @@ const Reports = () => {
                   <SelectValue placeholder="Filter by department" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Departments</SelectItem>
-                  {getDepartments().map(dept => (
+                  <SelectItem value="all">{allDepartmentsLabel}</SelectItem>
+                  {departmentOptions.map(dept => (
                     <SelectItem key={dept} value={dept}>{dept}</SelectItem>
                   ))}
                 </SelectContent>
@@ -376,6 +388,18 @@ const Reports = () => {
                 <div className="text-sm text-muted-foreground">
                   Includes: High-risk students with key risk factors and intervention recommendations
                 </div>
+                {topHighRisk.length > 0 && (
+                  <ul className="text-sm space-y-1">
+                    {topHighRisk.map(student => (
+                      <li key={student.id} className="flex items-center justify-between gap-2">
+                        <Link to={`/students/${student.id}`} className="hover:underline">
+                          {student.name} <span className="text-muted-foreground">· {student.department}</span>
+                        </Link>
+                        <RiskBadge riskLevel="high" riskScore={student.risk_score || undefined} />
+                      </li>
+                    ))}
+                  </ul>
+                )}
                 <Button 
                   onClick={exportHighRiskReport} 
                   className="w-full gap-2"
@@ -0,0 +1,258 @@
+import { useEffect, useState } from 'react';
+import { Layout } from '@/components/Layout';
+import { RiskAlertRules } from '@/components/RiskAlertRules';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarClock, RefreshCw, Save } from 'lucide-react';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+import { PredictionResponse, PredictionRun, RUN_STATUS_LABELS, RUN_STATUS_VARIANTS, formatDuration } from '@/lib/predictionRuns';
+
+type RescoringSettings = Tables<'rescoring_settings'>;
+
+const FREQUENCY_LABELS: Record<RescoringSettings['frequency'], string> = {
+  disabled: 'Disabled',
+  daily: 'Every day',
+  weekly: 'Once a week',
+};
+
+const DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00 UTC`;
+
+const Settings = () => {
+  const [settings, setSettings] = useState<RescoringSettings | null>(null);
+  const [lastScheduledRun, setLastScheduledRun] = useState<PredictionRun | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [rescoring, setRescoring] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('rescoring_settings')
+        .select('*')
+        .maybeSingle();
+
+      if (error) throw error;
+      setSettings(data);
+
+      const { data: runs, error: runsError } = await supabase
+        .from('prediction_runs')
+        .select('*')
+        .eq('trigger_source', 'scheduled')
+        .order('started_at', { ascending: false })
+        .limit(1);
+
+      if (runsError) throw runsError;
+      setLastScheduledRun(runs?.[0] ?? null);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch settings',
+        variant: 'destructive',
+      });
+      console.error('Fetch settings error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveSchedule = async () => {
+    if (!settings) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('rescoring_settings')
+        .update({
+          frequency: settings.frequency,
+          run_hour: settings.run_hour,
+          run_day: settings.run_day,
+          updated_by: user?.id ?? null,
+        })
+        .eq('id', true);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Schedule Saved',
+        description: settings.frequency === 'disabled'
+          ? 'Scheduled re-scoring is turned off'
+          : `Students will be re-scored ${settings.frequency === 'weekly' ? `every ${DAY_LABELS[settings.run_day]}` : 'every day'} at ${formatHour(settings.run_hour)}`,
+      });
+      await fetchSettings();
+    } catch (error) {
+      toast({
+        title: 'Save Failed',
+        description: (error as Error).message || 'Failed to save re-scoring schedule',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const rescoreAll = async () => {
+    setRescoring(true);
+    try {
+      const data = await invokeEdgeFunction<PredictionResponse>('predict-dropout-risk', {
+        rescoreAll: true,
+        source: 'manual',
+      });
+
+      toast({
+        title: data.failedCount > 0 ? 'Re-scoring Partially Failed' : 'Re-scoring Finished',
+        description: `${data.processedCount} of ${data.totalCount} students were re-scored with ${data.modelVersion}`,
+        variant: data.failedCount > 0 ? 'destructive' : 'default',
+      });
+    } catch (error) {
+      toast({
+        title: 'Re-scoring Failed',
+        description: (error as Error).message || 'Failed to re-score students',
+        variant: 'destructive',
+      });
+    } finally {
+      setRescoring(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout permission="settings:manage">
+        <div className="space-y-6">
+          <div className="animate-pulse">
+            <div className="h-8 bg-muted rounded w-48 mb-4"></div>
+            <div className="h-96 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout permission="settings:manage">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Settings</h1>
+          <p className="text-muted-foreground">
+            Configure how and when risk scores are kept up to date, and who hears about escalations
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Scheduled Re-scoring
+            </CardTitle>
+            <CardDescription>
+              Re-scores every student who has not graduated or dropped out with the active model, so scores follow
+              attendance changes and model updates.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {settings ? (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label>Frequency</Label>
+                  <Select
+                    value={settings.frequency}
+                    onValueChange={(value) => setSettings({ ...settings, frequency: value as RescoringSettings['frequency'] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(FREQUENCY_LABELS) as RescoringSettings['frequency'][]).map(frequency => (
+                        <SelectItem key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Time</Label>
+                  <Select
+                    value={String(settings.run_hour)}
+                    onValueChange={(value) => setSettings({ ...settings, run_hour: Number(value) })}
+                    disabled={settings.frequency === 'disabled'}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <SelectItem key={hour} value={String(hour)}>{formatHour(hour)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Day</Label>
+                  <Select
+                    value={String(settings.run_day)}
+                    onValueChange={(value) => setSettings({ ...settings, run_day: Number(value) })}
+                    disabled={settings.frequency !== 'weekly'}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DAY_LABELS.map((day, index) => (
+                        <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={saveSchedule} disabled={saving} className="gap-2">
+                  <Save className="h-4 w-4" />
+                  Save Schedule
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">The re-scoring schedule has not been set up for this project.</p>
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-4 rounded-lg border p-4">
+              <div className="text-sm space-y-1">
+                <p className="font-medium">Last scheduled run</p>
+                {lastScheduledRun ? (
+                  <p className="text-muted-foreground">
+                    {new Date(lastScheduledRun.started_at).toLocaleString()} ·{' '}
+                    {lastScheduledRun.updated_count} of {lastScheduledRun.student_count} students ·{' '}
+                    {formatDuration(lastScheduledRun.duration_ms)}{' '}
+                    <Badge variant={RUN_STATUS_VARIANTS[lastScheduledRun.status]} className="ml-1">
+                      {RUN_STATUS_LABELS[lastScheduledRun.status]}
+                    </Badge>
+                  </p>
+                ) : (
+                  <p className="text-muted-foreground">No scheduled run yet</p>
+                )}
+              </div>
+              <Button variant="outline" onClick={rescoreAll} disabled={rescoring} className="gap-2">
+                <RefreshCw className={`h-4 w-4 ${rescoring ? 'animate-spin' : ''}`} />
+                Re-score All Now
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <RiskAlertRules />
+      </div>
+    </Layout>
+  );
+};
+
+export default Settings;
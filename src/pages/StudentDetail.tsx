@@ -0,0 +1,387 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { Layout } from '@/components/Layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { RiskBadge } from '@/components/RiskBadge';
+import { RiskTimeline } from '@/components/RiskTimeline';
+import { WhatIfSimulator } from '@/components/WhatIfSimulator';
+import { StudentInterventions } from '@/components/StudentInterventions';
+import { StudentAuditTrail } from '@/components/StudentAuditTrail';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { FACTOR_LABELS, FactorKey, IMPUTABLE_FIELD_LABELS, PredictionFactors } from '@/lib/riskModelConfig';
+import { CASE_STATUS_LABELS, StudentCase } from '@/lib/cases';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, Briefcase } from 'lucide-react';
+
+type Student = Tables<'students'>;
+
+const outcomeLabels: Record<NonNullable<Student['outcome']>, string> = {
+  enrolled: 'Still enrolled',
+  graduated: 'Graduated',
+  dropped_out: 'Dropped out',
+};
+
+const TABS = ['profile', 'risk', 'interventions', 'audit'] as const;
+
+type Tab = typeof TABS[number];
+
+const formatOptional = (value: number | null, suffix = '') => (value === null ? 'Not recorded' : `${value.toLocaleString()}${suffix}`);
+
+const getRiskExplanation = (student: Student) => {
+  if (!student.risk_score || !student.prediction_factors) {
+    return 'Risk analysis not available';
+  }
+
+  const factors = [];
+  if (student.attendance_percentage !== null && student.attendance_percentage < 75) factors.push(`low attendance (${student.attendance_percentage}%)`);
+  if (student.cgpa !== null && student.cgpa < 6.0) factors.push(`low CGPA (${student.cgpa})`);
+  if (student.fee_default) factors.push('fee default');
+  if (student.disciplinary_actions > 0) factors.push(`${student.disciplinary_actions} disciplinary action(s)`);
+  if (!student.scholarship && student.cgpa !== null && student.cgpa > 7.0) factors.push('no scholarship despite good grades');
+  if (student.extracurriculars === 0) factors.push('no extracurricular activities');
+
+  const riskPercentage = Math.round(student.risk_score * 100);
+
+  return factors.length > 0
+    ? `Risk: ${student.risk_level?.toUpperCase()} (${riskPercentage}%) due to ${factors.join(', ')}.`
+    : `Risk: ${student.risk_level?.toUpperCase()} (${riskPercentage}%) - performing well overall.`;
+};
+
+const StudentDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [student, setStudent] = useState<Student | null>(null);
+  const [openCase, setOpenCase] = useState<StudentCase | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { can } = useAuth();
+  const { toast } = useToast();
+
+  const requestedTab = searchParams.get('tab') as Tab | null;
+  const tab: Tab = requestedTab && TABS.includes(requestedTab) ? requestedTab : 'profile';
+
+  useEffect(() => {
+    fetchStudent();
+  }, [id]);
+
+  const fetchStudent = async () => {
+    if (!id) return;
+
+    setLoading(true);
+    try {
+      const [studentResult, caseResult] = await Promise.all([
+        supabase.from('students').select('*').eq('id', id).maybeSingle(),
+        supabase
+          .from('student_cases')
+          .select('*')
+          .eq('student_id', id)
+          .is('closed_at', null)
+          .maybeSingle(),
+      ]);
+
+      if (studentResult.error) throw studentResult.error;
+      if (caseResult.error) throw caseResult.error;
+
+      setStudent(studentResult.data);
+      setOpenCase(caseResult.data);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch student',
+        variant: 'destructive',
+      });
+      console.error('Fetch student error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changeTab = (value: string) => {
+    setSearchParams(value === 'profile' ? {} : { tab: value }, { replace: true });
+  };
+
+  const updateOutcome = async (value: string) => {
+    if (!student) return;
+
+    const outcome = value === 'unknown' ? null : value as Student['outcome'];
+    const { error } = await supabase
+      .from('students')
+      .update({
+        outcome,
+        outcome_recorded_at: outcome ? new Date().toISOString() : null,
+      })
+      .eq('id', student.id);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to record outcome',
+        variant: 'destructive',
+      });
+      console.error('Update outcome error:', error);
+      return;
+    }
+
+    setStudent({ ...student, outcome });
+    toast({
+      title: 'Outcome Recorded',
+      description: `${student.name}: ${outcome ? outcomeLabels[outcome] : 'outcome cleared'}`,
+    });
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="space-y-6">
+          <div className="animate-pulse">
+            <div className="h-8 bg-muted rounded w-48 mb-4"></div>
+            <div className="h-96 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!student) {
+    return (
+      <Layout>
+        <div className="flex flex-col items-center justify-center py-24 text-center text-muted-foreground space-y-4">
+          <h2 className="text-lg font-semibold text-foreground">Student not found</h2>
+          <p>The student may have been removed, or they are outside the departments you can see.</p>
+          <Button variant="outline" asChild>
+            <Link to="/students">Back to Students</Link>
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  const factors = student.prediction_factors as unknown as Partial<PredictionFactors> | null;
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <Button variant="ghost" size="sm" asChild className="gap-2 -ml-3">
+            <Link to="/students">
+              <ArrowLeft className="h-4 w-4" />
+              Students
+            </Link>
+          </Button>
+          <div className="flex flex-wrap justify-between items-start gap-4">
+            <div>
+              <h1 className="text-3xl font-bold">{student.name}</h1>
+              <p className="text-muted-foreground">
+                {student.student_id} · {student.department} · Semester {student.semester}
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              {openCase && (
+                <Badge variant="outline" className="gap-1">
+                  <Briefcase className="h-3 w-3" />
+                  Case: {CASE_STATUS_LABELS[openCase.status]}
+                </Badge>
+              )}
+              {student.risk_level ? (
+                <RiskBadge riskLevel={student.risk_level} riskScore={student.risk_score || undefined} />
+              ) : (
+                <Badge variant="outline">Not Analyzed</Badge>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <Tabs value={tab} onValueChange={changeTab}>
+          <TabsList>
+            <TabsTrigger value="profile">Profile</TabsTrigger>
+            <TabsTrigger value="risk">Risk</TabsTrigger>
+            <TabsTrigger value="interventions">Interventions</TabsTrigger>
+            <TabsTrigger value="audit">Audit Trail</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="profile">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Basic Information</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <p><strong>Email:</strong> {student.email}</p>
+                  <p><strong>Student ID:</strong> {student.student_id}</p>
+                  <p><strong>Department:</strong> {student.department}</p>
+                  <p><strong>Semester:</strong> {student.semester}</p>
+                  <p><strong>Gender:</strong> {student.gender}</p>
+                  <p><strong>Added:</strong> {new Date(student.created_at).toLocaleDateString()}</p>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Academic Performance</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <p><strong>Attendance:</strong> {formatOptional(student.attendance_percentage, '%')}</p>
+                  <p><strong>CGPA:</strong> {formatOptional(student.cgpa)}</p>
+                  <p><strong>SGPA:</strong> {formatOptional(student.sgpa)}</p>
+                  <p><strong>Scholarship:</strong> {student.scholarship ? 'Yes' : 'No'}</p>
+                  <p><strong>Extracurriculars:</strong> {student.extracurriculars}</p>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Background</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <p><strong>Family Income:</strong> {formatOptional(student.family_income)}</p>
+                  <p><strong>Distance from Home:</strong> {formatOptional(student.distance_from_home, ' km')}</p>
+                  <p><strong>Hostel Accommodation:</strong> {student.hostel_accommodation ? 'Yes' : 'No'}</p>
+                  <p><strong>Previous Education Gap:</strong> {student.previous_education_gap ? 'Yes' : 'No'}</p>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Risk Factors</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <p><strong>Fee Default:</strong> {student.fee_default ? 'Yes' : 'No'}</p>
+                  <p><strong>Disciplinary Actions:</strong> {student.disciplinary_actions}</p>
+                </CardContent>
+              </Card>
+
+              <Card className="md:col-span-2">
+                <CardHeader>
+                  <CardTitle>Recorded Outcome</CardTitle>
+                  <CardDescription>Recorded outcomes are used to train and evaluate the risk model.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Select
+                    value={student.outcome ?? 'unknown'}
+                    onValueChange={updateOutcome}
+                    disabled={!can('students:write')}
+                  >
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="unknown">Not recorded</SelectItem>
+                      {Object.entries(outcomeLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {student.outcome_recorded_at && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Recorded {new Date(student.outcome_recorded_at).toLocaleDateString()}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="risk">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Risk Analysis</CardTitle>
+                  {factors?.model_version && (
+                    <CardDescription>Scored with {factors.model_version}</CardDescription>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm">{getRiskExplanation(student)}</p>
+                  {factors?.confidence !== undefined && (
+                    <p className="text-sm text-muted-foreground">
+                      Confidence: {Math.round(factors.confidence * 100)}%
+                      {factors.missing_fields && factors.missing_fields.length > 0 && (
+                        <> · imputed {factors.missing_fields
+                          .map(field => `${IMPUTABLE_FIELD_LABELS[field].toLowerCase()} (${factors.imputed_values?.[field]})`)
+                          .join(', ')}</>
+                      )}
+                    </p>
+                  )}
+                  {factors && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium">Factor breakdown</h4>
+                      {(Object.keys(FACTOR_LABELS) as FactorKey[])
+                        .filter(factor => factors[factor] !== undefined)
+                        .map(factor => (
+                          <div key={factor} className="grid grid-cols-[8rem_1fr_3rem] items-center gap-2 text-sm">
+                            <span className="text-muted-foreground">{FACTOR_LABELS[factor]}</span>
+                            <Progress value={(factors[factor] ?? 0) * 100} className="h-2" />
+                            <span className="text-right">{Math.round((factors[factor] ?? 0) * 100)}%</span>
+                          </div>
+                        ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Risk History</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <RiskTimeline studentId={student.id} />
+                </CardContent>
+              </Card>
+
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle>What-if Simulator</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <WhatIfSimulator
+                    key={student.id}
+                    student={student}
+                    imputation={factors?.imputed_values}
+                  />
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="interventions">
+            <Card>
+              <CardHeader>
+                <CardTitle>Interventions</CardTitle>
+                {openCase && (
+                  <CardDescription>
+                    New interventions are added to the open case. <Link to="/cases" className="underline">View cases</Link>
+                  </CardDescription>
+                )}
+              </CardHeader>
+              <CardContent>
+                <StudentInterventions studentId={student.id} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="audit">
+            <Card>
+              <CardHeader>
+                <CardTitle>Audit Trail</CardTitle>
+                <CardDescription>
+                  Every change to this student's record and who made it. Risk score changes are under Risk History.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <StudentAuditTrail studentId={student.id} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+    </Layout>
+  );
+};
+
+export default StudentDetail;
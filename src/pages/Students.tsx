@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Layout } from '@/components/Layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -7,9 +8,9 @@ import { Badge } from '@/components/ui/badge';
 import { RiskBadge } from '@/components/RiskBadge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useDepartmentFilter } from '@/hooks/useDepartmentFilter';
 import { Search, Eye, Filter, Download } from 'lucide-react';
 
 interface Student {
@@ -20,16 +21,21 @@ interface Student {
   department: string;
   semester: number;
   gender: 'male' | 'female' | 'other';
-  attendance_percentage: number;
-  cgpa: number;
-  sgpa: number;
+  attendance_percentage: number | null;
+  cgpa: number | null;
+  sgpa: number | null;
   fee_default: boolean;
   disciplinary_actions: number;
   scholarship: boolean;
   extracurriculars: number;
+  family_income: number | null;
+  distance_from_home: number | null;
+  hostel_accommodation: boolean;
+  previous_education_gap: boolean;
   risk_score: number | null;
   risk_level: 'low' | 'medium' | 'high' | null;
   prediction_factors: any;
+  outcome: 'enrolled' | 'graduated' | 'dropped_out' | null;
   created_at: string;
 }
 
@@ -39,9 +45,10 @@ const Students = () => {
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [riskFilter, setRiskFilter] = useState<string>('all');
-  const [departmentFilter, setDepartmentFilter] = useState<string>('all');
-  const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
   const { toast } = useToast();
+  const { departmentFilter, setDepartmentFilter, departmentOptions, allDepartmentsLabel } = useDepartmentFilter(
+    [...new Set(students.map(student => student.department))]
+  );
 
   useEffect(() => {
     fetchStudents();
@@ -99,10 +106,6 @@ const Students = () => {
     setFilteredStudents(filtered);
   };
 
-  const getDepartments = () => {
-    return [...new Set(students.map(student => student.department))];
-  };
-
   const exportToCSV = () => {
     const csv = [
       // Headers
@@ -114,9 +117,9 @@ const Students = () => {
         student.student_id,
         student.department,
         student.semester,
-        student.attendance_percentage,
-        student.cgpa,
-        student.sgpa,
+        student.attendance_percentage ?? 'N/A',
+        student.cgpa ?? 'N/A',
+        student.sgpa ?? 'N/A',
         student.risk_level || 'N/A',
         student.risk_score ? Math.round(student.risk_score * 100) + '%' : 'N/A'
       ].join(','))
@@ -131,26 +134,6 @@ const Students = () => {
     window.URL.revokeObjectURL(url);
   };
 
-  const getRiskExplanation = (student: Student) => {
-    if (!student.risk_score || !student.prediction_factors) {
-      return 'Risk analysis not available';
-    }
-
-    const factors = [];
-    if (student.attendance_percentage < 75) factors.push(`low attendance (${student.attendance_percentage}%)`);
-    if (student.cgpa < 6.0) factors.push(`low CGPA (${student.cgpa})`);
-    if (student.fee_default) factors.push('fee default');
-    if (student.disciplinary_actions > 0) factors.push(`${student.disciplinary_actions} disciplinary action(s)`);
-    if (!student.scholarship && student.cgpa > 7.0) factors.push('no scholarship despite good grades');
-    if (student.extracurriculars === 0) factors.push('no extracurricular activities');
-
-    const riskPercentage = Math.round(student.risk_score * 100);
-    
-    return factors.length > 0
-      ? `Risk: ${student.risk_level?.toUpperCase()} (${riskPercentage}%) due to ${factors.join(', ')}.`
-      : `Risk: ${student.risk_level?.toUpperCase()} (${riskPercentage}%) - performing well overall.`;
-  };
-
   if (loading) {
     return (
       <Layout>
@@ -217,8 +200,8 @@ const Students = () => {
                   <SelectValue placeholder="Filter by department" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Departments</SelectItem>
-                  {getDepartments().map(dept => (
+                  <SelectItem value="all">{allDepartmentsLabel}</SelectItem>
+                  {departmentOptions.map(dept => (
                     <SelectItem key={dept} value={dept}>{dept}</SelectItem>
                   ))}
                 </SelectContent>
@@ -252,19 +235,29 @@ const Students = () => {
               <TableBody>
                 {filteredStudents.map((student) => (
                   <TableRow key={student.id}>
-                    <TableCell className="font-medium">{student.name}</TableCell>
+                    <TableCell className="font-medium">
+                      <Link to={`/students/${student.id}`} className="hover:underline">{student.name}</Link>
+                    </TableCell>
                     <TableCell>{student.student_id}</TableCell>
                     <TableCell>{student.department}</TableCell>
                     <TableCell>{student.semester}</TableCell>
                     <TableCell>
-                      <Badge variant={student.attendance_percentage < 75 ? "destructive" : "default"}>
-                        {student.attendance_percentage}%
-                      </Badge>
+                      {student.attendance_percentage === null ? (
+                        <Badge variant="outline">Missing</Badge>
+                      ) : (
+                        <Badge variant={student.attendance_percentage < 75 ? "destructive" : "default"}>
+                          {student.attendance_percentage}%
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell>
-                      <Badge variant={student.cgpa < 6.0 ? "destructive" : "default"}>
-                        {student.cgpa}
-                      </Badge>
+                      {student.cgpa === null ? (
+                        <Badge variant="outline">Missing</Badge>
+                      ) : (
+                        <Badge variant={student.cgpa < 6.0 ? "destructive" : "default"}>
+                          {student.cgpa}
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell>
                       {student.risk_level ? (
@@ -277,73 +270,11 @@ const Students = () => {
                       )}
                     </TableCell>
                     <TableCell>
-                      <Dialog>
-                        <DialogTrigger asChild>
-                          <Button 
-                            variant="outline" 
-                            size="sm"
-                            onClick={() => setSelectedStudent(student)}
-                          >
-                            <Eye className="h-4 w-4" />
-                          </Button>
-                        </DialogTrigger>
-                        <DialogContent className="max-w-2xl">
-                          <DialogHeader>
-                            <DialogTitle>{student.name} - Profile Details</DialogTitle>
-                            <DialogDescription>
-                              Complete student information and risk analysis
-                            </DialogDescription>
-                          </DialogHeader>
-                          
-                          {selectedStudent && (
-                            <div className="space-y-6">
-                              <div className="grid grid-cols-2 gap-4">
-                                <div>
-                                  <h4 className="font-semibold mb-2">Basic Information</h4>
-                                  <div className="space-y-2 text-sm">
-                                    <p><strong>Email:</strong> {selectedStudent.email}</p>
-                                    <p><strong>Student ID:</strong> {selectedStudent.student_id}</p>
-                                    <p><strong>Department:</strong> {selectedStudent.department}</p>
-                                    <p><strong>Semester:</strong> {selectedStudent.semester}</p>
-                                    <p><strong>Gender:</strong> {selectedStudent.gender}</p>
-                                  </div>
-                                </div>
-                                
-                                <div>
-                                  <h4 className="font-semibold mb-2">Academic Performance</h4>
-                                  <div className="space-y-2 text-sm">
-                                    <p><strong>Attendance:</strong> {selectedStudent.attendance_percentage}%</p>
-                                    <p><strong>CGPA:</strong> {selectedStudent.cgpa}</p>
-                                    <p><strong>SGPA:</strong> {selectedStudent.sgpa}</p>
-                                    <p><strong>Scholarship:</strong> {selectedStudent.scholarship ? 'Yes' : 'No'}</p>
-                                    <p><strong>Extracurriculars:</strong> {selectedStudent.extracurriculars}</p>
-                                  </div>
-                                </div>
-                              </div>
-                              
-                              <div>
-                                <h4 className="font-semibold mb-2">Risk Factors</h4>
-                                <div className="space-y-2 text-sm">
-                                  <p><strong>Fee Default:</strong> {selectedStudent.fee_default ? 'Yes' : 'No'}</p>
-                                  <p><strong>Disciplinary Actions:</strong> {selectedStudent.disciplinary_actions}</p>
-                                </div>
-                              </div>
-                              
-                              {selectedStudent.risk_level && (
-                                <div>
-                                  <h4 className="font-semibold mb-2">Risk Analysis</h4>
-                                  <RiskBadge 
-                                    riskLevel={selectedStudent.risk_level} 
-                                    riskScore={selectedStudent.risk_score || undefined}
-                                    className="mb-2"
-                                  />
-                                  <p className="text-sm">{getRiskExplanation(selectedStudent)}</p>
-                                </div>
-                              )}
-                            </div>
-                          )}
-                        </DialogContent>
-                      </Dialog>
+                      <Button variant="outline" size="sm" asChild>
+                        <Link to={`/students/${student.id}`} aria-label={`Open ${student.name}'s profile`}>
+                          <Eye className="h-4 w-4" />
+                        </Link>
+                      </Button>
                     </TableCell>
                   </TableRow>
                 ))}
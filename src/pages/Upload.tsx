@@ -1,4 +1,4 @@
-import { useState, useRef } from 'react';
+import { useEffect, useMemo, useState, useRef } from 'react';
 import { Layout } from '@/components/Layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -6,12 +6,24 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
-import { Upload as UploadIcon, FileSpreadsheet, AlertCircle, CheckCircle } from 'lucide-react';
+import { ColumnMappingStep } from '@/components/ColumnMappingStep';
+import { ImportPreview } from '@/components/ImportPreview';
+import { PredictionRunSummary } from '@/components/PredictionRunSummary';
+import { DecimalSeparator, SheetData, isExcelFile, readCsv, readWorkbook } from '@/lib/spreadsheet';
+import { ColumnMapping, suggestMapping } from '@/lib/columnMapping';
+import { ImportRow, RejectedRow, buildErrorReport, buildImportRows, updateImportRow } from '@/lib/importValidation';
+import { ExistingStudent, ImportMode, planImport } from '@/lib/importDiff';
+import { Upload as UploadIcon, FileSpreadsheet, AlertCircle, CheckCircle, Download } from 'lucide-react';
+
+type ImportJob = Tables<'import_jobs'>;
 
 interface UploadStatus {
-  status: 'idle' | 'uploading' | 'processing' | 'success' | 'error';
+  status: 'idle' | 'uploading' | 'selecting' | 'mapping' | 'reviewing' | 'processing' | 'success' | 'error';
   message: string;
   progress: number;
   processedCount?: number;
@@ -24,7 +36,21 @@ const Upload = () => {
     message: '',
     progress: 0,
   });
+  const [sheets, setSheets] = useState<SheetData[]>([]);
+  const [selectedSheet, setSelectedSheet] = useState('');
+  const [mappingSheet, setMappingSheet] = useState<SheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [importRows, setImportRows] = useState<ImportRow[]>([]);
+  const [rejectedRows, setRejectedRows] = useState<RejectedRow[]>([]);
+  const [importMode, setImportMode] = useState<ImportMode>('upsert');
+  const [existingStudents, setExistingStudents] = useState<ExistingStudent[] | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  // Realtime and the catch-up fetch can both report the finished job
+  const finishedJobRef = useRef<string | null>(null);
+  const [completedJobId, setCompletedJobId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { user } = useAuth();
   const { toast } = useToast();
 
   const resetUpload = () => {
@@ -33,6 +59,13 @@ const Upload = () => {
       message: '',
       progress: 0,
     });
+    setSheets([]);
+    setMappingSheet(null);
+    setImportRows([]);
+    setRejectedRows([]);
+    setExistingStudents(null);
+    setActiveJobId(null);
+    setCompletedJobId(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -57,193 +90,273 @@ const Upload = () => {
       return;
     }
 
+    setFileName(file.name);
     setUploadStatus({
       status: 'uploading',
-      message: 'Uploading file...',
+      message: 'Reading file...',
       progress: 20,
     });
 
     try {
-      // Read file content
-      const fileContent = await readFileContent(file);
-      
-      setUploadStatus({
-        status: 'processing',
-        message: 'Processing student data...',
-        progress: 40,
-      });
+      // Excel workbooks are parsed as binary; CSV files as text
+      const fileSheets = isExcelFile(file) ? await readWorkbook(file) : [await readCsv(file)];
+      const usableSheets = fileSheets.filter(sheet => sheet.rows.length > 0);
 
-      // Parse CSV content
-      const students = parseCSVContent(fileContent);
-      
-      if (students.length === 0) {
-        throw new Error('No valid student records found in the file');
+      if (usableSheets.length === 0) {
+        throw new Error('File must contain header row and at least one data row');
       }
 
-      setUploadStatus({
-        status: 'processing',
-        message: `Processing ${students.length} student records...`,
-        progress: 60,
-        totalCount: students.length,
-      });
-
-      // Insert students into database in batches
-      let processedCount = 0;
-      const batchSize = 50;
-      
-      for (let i = 0; i < students.length; i += batchSize) {
-        const batch = students.slice(i, i + batchSize);
-        
-        const { error } = await supabase
-          .from('students')
-          .insert(batch);
-
-        if (error) {
-          console.error('Batch insert error:', error);
-          // Continue processing other batches
-        }
-        
-        processedCount += batch.length;
+      if (usableSheets.length > 1) {
+        setSheets(usableSheets);
+        setSelectedSheet(usableSheets[0].name);
         setUploadStatus({
-          status: 'processing',
-          message: `Processed ${processedCount} of ${students.length} records...`,
-          progress: 60 + (processedCount / students.length) * 30,
-          processedCount,
-          totalCount: students.length,
+          status: 'selecting',
+          message: `This workbook has ${usableSheets.length} sheets with data. Choose the one with student records.`,
+          progress: 30,
         });
+        return;
       }
 
-      // Call ML prediction function
-      setUploadStatus({
-        status: 'processing',
-        message: 'Running risk prediction analysis...',
-        progress: 90,
-        processedCount,
-        totalCount: students.length,
-      });
+      startMapping(usableSheets[0]);
+    } catch (error) {
+      reportUploadError(error as Error);
+    }
+  };
 
-      // Trigger ML prediction for all new students
-      const { error: mlError } = await supabase.functions.invoke('predict-dropout-risk', {
-        body: { processNewStudents: true }
-      });
+  const startMapping = (sheet: SheetData) => {
+    setSheets([]);
+    setMappingSheet(sheet);
+    setMapping(suggestMapping(sheet.headers));
+    setUploadStatus({
+      status: 'mapping',
+      message: `Map the ${sheet.headers.length} columns in ${sheet.name} to student fields.`,
+      progress: 35,
+    });
+  };
 
-      if (mlError) {
-        console.error('ML prediction error:', mlError);
-        // Don't fail the upload, just log the error
-      }
+  const importSelectedSheet = () => {
+    const sheet = sheets.find(s => s.name === selectedSheet);
+    if (sheet) startMapping(sheet);
+  };
 
-      setUploadStatus({
-        status: 'success',
-        message: `Successfully uploaded and processed ${processedCount} student records!`,
-        progress: 100,
-        processedCount,
-        totalCount: students.length,
-      });
+  const reviewMappedSheet = async () => {
+    if (!mappingSheet) return;
 
-      toast({
-        title: 'Upload Successful',
-        description: `${processedCount} student records have been uploaded and analyzed`,
-      });
+    const rows = buildImportRows(mappingSheet, mapping);
+    setImportRows(rows);
+    setExistingStudents(null);
+    setUploadStatus({
+      status: 'reviewing',
+      message: `Review ${rows.length} rows before importing.`,
+      progress: 45,
+    });
 
-    } catch (error: any) {
-      console.error('Upload error:', error);
-      setUploadStatus({
-        status: 'error',
-        message: error.message || 'Failed to upload and process file',
-        progress: 0,
-      });
-      
-      toast({
-        title: 'Upload Failed',
-        description: error.message || 'Failed to upload and process file',
-        variant: 'destructive',
-      });
+    try {
+      setExistingStudents(await fetchExistingStudents(rows.map(row => row.values.student_id).filter(Boolean)));
+    } catch (error) {
+      reportUploadError(error as Error);
     }
   };
 
-  const readFileContent = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => resolve(e.target?.result as string);
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsText(file);
+  // Looked up in chunks to keep the `in` filter within URL length limits
+  const fetchExistingStudents = async (studentIds: string[]): Promise<ExistingStudent[]> => {
+    const unique = [...new Set(studentIds)];
+    const found: ExistingStudent[] = [];
+    const chunkSize = 200;
+
+    for (let i = 0; i < unique.length; i += chunkSize) {
+      const { data, error } = await supabase
+        .from('students')
+        .select('*')
+        .in('student_id', unique.slice(i, i + chunkSize));
+
+      if (error) throw error;
+      found.push(...(data || []));
+    }
+    return found;
+  };
+
+  const backToMapping = () => {
+    setImportRows([]);
+    setUploadStatus({
+      status: 'mapping',
+      message: `Map the ${mappingSheet?.headers.length ?? 0} columns in ${mappingSheet?.name ?? 'the file'} to student fields.`,
+      progress: 35,
     });
   };
 
-  const parseCSVContent = (content: string) => {
-    const lines = content.split('\n').filter(line => line.trim());
-    if (lines.length < 2) {
-      throw new Error('File must contain header row and at least one data row');
+  const editImportRow = async (rowNumber: number, field: string, value: string) => {
+    setImportRows(prev => updateImportRow(prev, rowNumber, field, value, mappingSheet?.decimalSeparator));
+
+    // A corrected Student ID may belong to a student that was not looked up yet
+    const studentId = value.trim();
+    if (field !== 'student_id' || !studentId || existingStudents?.some(s => s.student_id === studentId)) return;
+    try {
+      const found = await fetchExistingStudents([studentId]);
+      if (found.length > 0) setExistingStudents(prev => [...(prev || []), ...found]);
+    } catch (error) {
+      console.error('Fetch existing student error:', error);
     }
+  };
 
-    const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-    const students = [];
-
-    // Expected headers mapping
-    const headerMap: { [key: string]: string } = {
-      'name': 'name',
-      'email': 'email',
-      'student_id': 'student_id',
-      'studentid': 'student_id',
-      'department': 'department',
-      'semester': 'semester',
-      'gender': 'gender',
-      'attendance': 'attendance_percentage',
-      'attendance_percentage': 'attendance_percentage',
-      'cgpa': 'cgpa',
-      'sgpa': 'sgpa',
-      'fee_default': 'fee_default',
-      'feedefault': 'fee_default',
-      'disciplinary_actions': 'disciplinary_actions',
-      'disciplinaryactions': 'disciplinary_actions',
-      'scholarship': 'scholarship',
-      'extracurriculars': 'extracurriculars',
-      'family_income': 'family_income',
-      'familyincome': 'family_income',
-      'distance_from_home': 'distance_from_home',
-      'distancefromhome': 'distance_from_home',
-      'hostel_accommodation': 'hostel_accommodation',
-      'hostelaccommodation': 'hostel_accommodation',
-      'previous_education_gap': 'previous_education_gap',
-      'previouseducationgap': 'previous_education_gap',
+  const importPlan = useMemo(
+    () => existingStudents ? planImport(importRows, existingStudents, importMode) : null,
+    [importRows, existingStudents, importMode]
+  );
+
+  const confirmImport = async () => {
+    if (!importPlan) return;
+
+    const rows = importRows;
+    const decimalSeparator = mappingSheet?.decimalSeparator ?? '.';
+    const job: TablesInsert<'import_jobs'> = {
+      file_name: fileName,
+      sheet_name: mappingSheet?.name ?? null,
+      mode: importMode,
+      column_mapping: mapping,
+      total_rows: rows.length,
+      uploaded_by: user?.id ?? null,
     };
+    setMappingSheet(null);
+    setImportRows([]);
+    setExistingStudents(null);
+    try {
+      await queueImport(rows, decimalSeparator, job);
+    } catch (error) {
+      reportUploadError(error as Error);
+    }
+  };
 
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map(v => v.trim());
-      if (values.length < headers.length) continue;
-
-      const student: any = {};
-      
-      headers.forEach((header, index) => {
-        const mappedField = headerMap[header];
-        if (mappedField && values[index]) {
-          let value: any = values[index];
-          
-          // Type conversions
-          if (['semester', 'disciplinary_actions', 'extracurriculars'].includes(mappedField)) {
-            value = parseInt(value) || 0;
-          } else if (['attendance_percentage', 'cgpa', 'sgpa', 'family_income', 'distance_from_home'].includes(mappedField)) {
-            value = parseFloat(value) || 0;
-          } else if (['fee_default', 'scholarship', 'hostel_accommodation', 'previous_education_gap'].includes(mappedField)) {
-            value = value.toLowerCase() === 'true' || value.toLowerCase() === 'yes' || value === '1';
-          } else if (mappedField === 'gender') {
-            value = value.toLowerCase();
-            if (!['male', 'female', 'other'].includes(value)) {
-              value = 'other';
-            }
-          }
-          
-          student[mappedField] = value;
-        }
+  // The reviewed rows go to storage and the import-students function writes them, so closing the tab does not stop the import
+  const queueImport = async (rows: ImportRow[], decimalSeparator: DecimalSeparator, job: TablesInsert<'import_jobs'>) => {
+    setUploadStatus({
+      status: 'uploading',
+      message: `Uploading ${rows.length} rows for processing...`,
+      progress: 50,
+    });
+
+    const storagePath = `${crypto.randomUUID()}.json`;
+    // The function validates the raw values again, so it needs to know how this file writes decimals
+    const payload = JSON.stringify({
+      rows: rows.map(({ rowNumber, values }) => ({ rowNumber, values })),
+      decimalSeparator,
+    });
+    const { error: uploadError } = await supabase.storage
+      .from('imports')
+      .upload(storagePath, new Blob([payload], { type: 'application/json' }));
+
+    if (uploadError) throw uploadError;
+
+    const { data: createdJob, error: jobError } = await supabase
+      .from('import_jobs')
+      .insert({ ...job, status: 'queued', storage_path: storagePath })
+      .select('*')
+      .single();
+
+    if (jobError) throw jobError;
+
+    showJobProgress(createdJob);
+    setActiveJobId(createdJob.id);
+
+    const { error: invokeError } = await supabase.functions.invoke('import-students', {
+      body: { jobId: createdJob.id }
+    });
+
+    if (invokeError) throw invokeError;
+  };
+
+  useEffect(() => {
+    if (!activeJobId) return;
+
+    const channel = supabase
+      .channel(`import-job-${activeJobId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'import_jobs', filter: `id=eq.${activeJobId}` },
+        (payload) => showJobProgress(payload.new as ImportJob)
+      )
+      .subscribe(async (status) => {
+        // Catch up on anything that happened before the subscription was live
+        if (status !== 'SUBSCRIBED') return;
+        const { data } = await supabase.from('import_jobs').select('*').eq('id', activeJobId).maybeSingle();
+        if (data) showJobProgress(data);
       });
 
-      // Validate required fields
-      if (student.name && student.email && student.student_id && student.department) {
-        students.push(student);
-      }
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [activeJobId]);
+
+  const showJobProgress = (job: ImportJob) => {
+    const rejected = (job.errors as unknown as RejectedRow[]) || [];
+
+    if (job.status === 'queued' || job.status === 'processing') {
+      setUploadStatus({
+        status: 'processing',
+        message: 'Importing on the server. You can leave this page; progress is also shown in Import History.',
+        progress: 50 + (job.processed_rows / Math.max(job.total_rows, 1)) * 50,
+        processedCount: job.processed_rows,
+        totalCount: job.total_rows,
+      });
+      return;
+    }
+
+    if (finishedJobRef.current === job.id) return;
+    finishedJobRef.current = job.id;
+    setActiveJobId(null);
+    setRejectedRows(rejected);
+
+    if (job.status === 'failed') {
+      reportUploadError(new Error(job.failure_reason || 'The import failed. Download the error report for details.'));
+      return;
     }
 
-    return students;
+    const summary = [
+      `${job.inserted_count} added`,
+      `${job.updated_count} updated`,
+      `${job.unchanged_count} unchanged`,
+      job.skipped_count > 0 && `${job.skipped_count} skipped`,
+      job.rejected_count > 0 && `${job.rejected_count} rejected`,
+    ].filter(Boolean).join(', ');
+
+    setCompletedJobId(job.id);
+    setUploadStatus({
+      status: 'success',
+      message: `Import finished: ${summary}. It can be undone from Import History.`,
+      progress: 100,
+      processedCount: job.inserted_count + job.updated_count,
+      totalCount: job.total_rows,
+    });
+
+    toast({
+      title: 'Upload Successful',
+      description: `${job.inserted_count + job.updated_count} student records have been uploaded`,
+    });
+  };
+
+  const downloadErrorReport = (rows: RejectedRow[]) => {
+    const blob = new Blob([buildErrorReport(rows)], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `upload_errors_${new Date().toISOString().split('T')[0]}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const reportUploadError = (error: Error) => {
+    console.error('Upload error:', error);
+    setUploadStatus({
+      status: 'error',
+      message: error.message || 'Failed to upload and process file',
+      progress: 0,
+    });
+    
+    toast({
+      title: 'Upload Failed',
+      description: error.message || 'Failed to upload and process file',
+      variant: 'destructive',
+    });
   };
 
   const handleDrop = (e: React.DragEvent) => {
@@ -259,7 +372,7 @@ const Upload = () => {
   };
 
   return (
-    <Layout>
+    <Layout permission="imports:manage">
       <div className="space-y-6">
         <div>
           <h1 className="text-3xl font-bold">Upload Student Data</h1>
@@ -273,7 +386,7 @@ const Upload = () => {
           <CardHeader>
             <CardTitle>File Format Requirements</CardTitle>
             <CardDescription>
-              Please ensure your file contains the following columns (case-insensitive):
+              Your file should contain the following columns. Differently named columns can be mapped after choosing a file.
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -377,11 +490,70 @@ const Upload = () => {
                     )}
                   </AlertDescription>
                 </Alert>
+
+                {uploadStatus.status === 'selecting' && (
+                  <div className="flex flex-wrap items-end gap-4">
+                    <div className="space-y-2">
+                      <Label>Sheet</Label>
+                      <Select value={selectedSheet} onValueChange={setSelectedSheet}>
+                        <SelectTrigger className="w-64">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {sheets.map(sheet => (
+                            <SelectItem key={sheet.name} value={sheet.name}>
+                              {sheet.name} ({sheet.rows.length} rows)
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button onClick={importSelectedSheet} className="gap-2">
+                      <UploadIcon className="h-4 w-4" />
+                      Use Sheet
+                    </Button>
+                  </div>
+                )}
+
+                {uploadStatus.status === 'success' && completedJobId && (
+                  <PredictionRunSummary importJobId={completedJobId} />
+                )}
+
+                {['success', 'error'].includes(uploadStatus.status) && rejectedRows.length > 0 && (
+                  <Button variant="outline" onClick={() => downloadErrorReport(rejectedRows)} className="gap-2">
+                    <Download className="h-4 w-4" />
+                    Download Error Report ({rejectedRows.length} rows)
+                  </Button>
+                )}
               </div>
             )}
           </CardContent>
         </Card>
 
+        {mappingSheet && uploadStatus.status === 'mapping' && (
+          <ColumnMappingStep
+            key={mappingSheet.name}
+            sheet={mappingSheet}
+            mapping={mapping}
+            onMappingChange={setMapping}
+            onConfirm={reviewMappedSheet}
+            onCancel={resetUpload}
+          />
+        )}
+
+        {uploadStatus.status === 'reviewing' && (
+          <ImportPreview
+            rows={importRows}
+            plan={importPlan}
+            mode={importMode}
+            onModeChange={setImportMode}
+            onEdit={editImportRow}
+            onConfirm={confirmImport}
+            onBack={backToMapping}
+            onDownloadErrors={() => downloadErrorReport(importRows.filter(row => row.errors.length > 0))}
+          />
+        )}
+
         {/* Sample Data */}
         <Card>
           <CardHeader>
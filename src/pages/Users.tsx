@@ -0,0 +1,562 @@
+import { useEffect, useState } from 'react';
+import { Layout } from '@/components/Layout';
+import { DepartmentPicker } from '@/components/DepartmentPicker';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { LogOut, Pencil, Save, ShieldCheck, UserCog, UserPlus } from 'lucide-react';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
+import { AppRole, DEPARTMENT_SCOPED_ROLES, ROLE_LABELS } from '@/lib/permissions';
+
+type Profile = Tables<'profiles'>;
+type AuthSettings = Tables<'auth_settings'>;
+
+const SIGNUP_MODE_LABELS: Record<AuthSettings['signup_mode'], string> = {
+  disabled: 'Invitation only',
+  domain: 'Allowed email domains',
+  open: 'Anyone',
+};
+
+interface Invitation {
+  email: string;
+  displayName: string;
+  role: AppRole;
+  departments: string[];
+}
+
+const EMPTY_INVITATION: Invitation = { email: '', displayName: '', role: 'viewer', departments: [] };
+
+const Users = () => {
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [userDepartments, setUserDepartments] = useState<Record<string, string[]>>({});
+  const [knownDepartments, setKnownDepartments] = useState<string[]>([]);
+  const [authSettings, setAuthSettings] = useState<AuthSettings | null>(null);
+  const [allowedDomainsText, setAllowedDomainsText] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
+  const [inviting, setInviting] = useState(false);
+  const [editingDepartments, setEditingDepartments] = useState<{ profile: Profile; departments: string[] } | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const fetchUsers = async () => {
+    try {
+      const [profilesResult, departmentsResult, studentsResult, settingsResult] = await Promise.all([
+        supabase.from('profiles').select('*').order('display_name'),
+        supabase.from('user_departments').select('user_id, department').order('department'),
+        supabase.from('students').select('department'),
+        supabase.from('auth_settings').select('*').maybeSingle(),
+      ]);
+
+      if (profilesResult.error) throw profilesResult.error;
+      if (departmentsResult.error) throw departmentsResult.error;
+      if (studentsResult.error) throw studentsResult.error;
+      if (settingsResult.error) throw settingsResult.error;
+
+      setProfiles(profilesResult.data || []);
+
+      const byUser: Record<string, string[]> = {};
+      for (const row of departmentsResult.data || []) {
+        (byUser[row.user_id] ??= []).push(row.department);
+      }
+      setUserDepartments(byUser);
+
+      setKnownDepartments([...new Set((studentsResult.data || []).map(student => student.department))].sort());
+      setAuthSettings(settingsResult.data);
+      setAllowedDomainsText(settingsResult.data?.allowed_domains.join(', ') ?? '');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch users',
+        variant: 'destructive',
+      });
+      console.error('Fetch users error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveSignupPolicy = async () => {
+    if (!authSettings) return;
+
+    const allowedDomains = allowedDomainsText
+      .split(',')
+      .map(domain => domain.trim().replace(/^@/, '').toLowerCase())
+      .filter(Boolean);
+
+    if (authSettings.signup_mode === 'domain' && allowedDomains.length === 0) {
+      toast({
+        title: 'No Domains',
+        description: 'Add at least one email domain, or choose invitation only',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const { error } = await supabase
+      .from('auth_settings')
+      .update({
+        signup_mode: authSettings.signup_mode,
+        allowed_domains: allowedDomains,
+        updated_by: user?.id ?? null,
+      })
+      .eq('id', true);
+
+    if (error) {
+      toast({
+        title: 'Save Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Sign-up Policy Saved',
+      description: SIGNUP_MODE_LABELS[authSettings.signup_mode],
+    });
+    await fetchUsers();
+  };
+
+  const changeRole = async (profile: Profile, role: AppRole) => {
+    const { error } = await supabase
+      .from('profiles')
+      .update({ role })
+      .eq('user_id', profile.user_id);
+
+    if (error) {
+      toast({
+        title: 'Role Not Changed',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setProfiles(prev => prev.map(p => (p.user_id === profile.user_id ? { ...p, role } : p)));
+    toast({
+      title: 'Role Changed',
+      description: `${profile.display_name || profile.email} is now ${ROLE_LABELS[role].toLowerCase()}`,
+    });
+  };
+
+  const saveDepartments = async () => {
+    if (!editingDepartments) return;
+
+    const { profile, departments } = editingDepartments;
+    const current = userDepartments[profile.user_id] ?? [];
+    const removed = current.filter(d => !departments.includes(d));
+    const added = departments.filter(d => !current.includes(d));
+
+    try {
+      if (removed.length > 0) {
+        const { error } = await supabase
+          .from('user_departments')
+          .delete()
+          .eq('user_id', profile.user_id)
+          .in('department', removed);
+
+        if (error) throw error;
+      }
+
+      if (added.length > 0) {
+        const { error } = await supabase
+          .from('user_departments')
+          .insert(added.map(department => ({ user_id: profile.user_id, department })));
+
+        if (error) throw error;
+      }
+
+      setEditingDepartments(null);
+      await fetchUsers();
+    } catch (error) {
+      toast({
+        title: 'Departments Not Saved',
+        description: (error as Error).message || 'Failed to save departments',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const sendInvitation = async () => {
+    if (!invitation) return;
+
+    setInviting(true);
+    try {
+      await invokeEdgeFunction('manage-users', { action: 'invite', ...invitation });
+      toast({
+        title: 'Invitation Sent',
+        description: `${invitation.email} will get an email to set up their account`,
+      });
+      setInvitation(null);
+      await fetchUsers();
+    } catch (error) {
+      toast({
+        title: 'Invitation Failed',
+        description: (error as Error).message || 'Failed to send invitation',
+        variant: 'destructive',
+      });
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const runAccountAction = async (profile: Profile, action: 'deactivate' | 'reactivate' | 'sign_out') => {
+    const name = profile.display_name || profile.email;
+    setBusyUserId(profile.user_id);
+    try {
+      await invokeEdgeFunction('manage-users', { action, userId: profile.user_id });
+      toast({
+        title: action === 'sign_out' ? 'Signed Out' : action === 'deactivate' ? 'Account Deactivated' : 'Account Reactivated',
+        description: action === 'sign_out'
+          ? `${name} has been signed out of every device`
+          : action === 'deactivate'
+            ? `${name} can no longer sign in`
+            : `${name} can sign in again`,
+      });
+      await fetchUsers();
+    } catch (error) {
+      toast({
+        title: 'Action Failed',
+        description: (error as Error).message || 'Failed to update account',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout permission="users:manage">
+        <div className="space-y-6">
+          <div className="animate-pulse">
+            <div className="h-8 bg-muted rounded w-48 mb-4"></div>
+            <div className="h-96 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout permission="users:manage">
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Users</h1>
+            <p className="text-muted-foreground">
+              Manage who can sign in, their roles and the departments they see
+            </p>
+          </div>
+          <Button onClick={() => setInvitation(EMPTY_INVITATION)} className="gap-2">
+            <UserPlus className="h-4 w-4" />
+            Invite User
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Sign-up Policy
+            </CardTitle>
+            <CardDescription>
+              Who may create an account without an invitation. New accounts start as viewers.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {authSettings ? (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label>Self-registration</Label>
+                  <Select
+                    value={authSettings.signup_mode}
+                    onValueChange={(value) => setAuthSettings({ ...authSettings, signup_mode: value as AuthSettings['signup_mode'] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(SIGNUP_MODE_LABELS) as AuthSettings['signup_mode'][]).map(mode => (
+                        <SelectItem key={mode} value={mode}>{SIGNUP_MODE_LABELS[mode]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="allowed-domains">Allowed domains</Label>
+                  <Input
+                    id="allowed-domains"
+                    value={allowedDomainsText}
+                    onChange={(e) => setAllowedDomainsText(e.target.value)}
+                    placeholder="school.edu, staff.school.edu"
+                    disabled={authSettings.signup_mode !== 'domain'}
+                  />
+                </div>
+                <Button onClick={saveSignupPolicy} className="gap-2">
+                  <Save className="h-4 w-4" />
+                  Save Policy
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">The sign-up policy has not been set up for this project.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserCog className="h-5 w-5" />
+              Accounts ({profiles.length})
+            </CardTitle>
+            <CardDescription>
+              Department heads and faculty only see students in their assigned departments.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Departments</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profiles.map((profile) => {
+                  const isSelf = profile.user_id === user?.id;
+                  const departments = userDepartments[profile.user_id] ?? [];
+                  const busy = busyUserId === profile.user_id;
+
+                  return (
+                    <TableRow key={profile.user_id}>
+                      <TableCell className="font-medium">
+                        {profile.display_name || '—'}
+                        {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                      </TableCell>
+                      <TableCell>{profile.email || '—'}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={profile.role}
+                          onValueChange={(value) => changeRole(profile, value as AppRole)}
+                          disabled={isSelf}
+                        >
+                          <SelectTrigger className="w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(ROLE_LABELS) as AppRole[]).map(role => (
+                              <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap items-center gap-1">
+                          {DEPARTMENT_SCOPED_ROLES.includes(profile.role) ? (
+                            departments.length > 0 ? (
+                              departments.map(department => (
+                                <Badge key={department} variant="secondary">{department}</Badge>
+                              ))
+                            ) : (
+                              <span className="text-sm text-destructive">None assigned</span>
+                            )
+                          ) : (
+                            <span className="text-sm text-muted-foreground">All departments</span>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setEditingDepartments({ profile, departments })}
+                          >
+                            <Pencil className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {profile.deactivated_at ? (
+                          <Badge variant="destructive">Deactivated</Badge>
+                        ) : (
+                          <Badge variant="outline">Active</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {!isSelf && (
+                          <div className="flex gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="gap-2"
+                              onClick={() => runAccountAction(profile, 'sign_out')}
+                              disabled={busy || profile.deactivated_at !== null}
+                            >
+                              <LogOut className="h-4 w-4" />
+                              Sign out
+                            </Button>
+                            {profile.deactivated_at ? (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => runAccountAction(profile, 'reactivate')}
+                                disabled={busy}
+                              >
+                                Reactivate
+                              </Button>
+                            ) : (
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button variant="outline" size="sm" disabled={busy}>
+                                    Deactivate
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Deactivate {profile.display_name || profile.email}?</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      They will be signed out everywhere and will not be able to sign in until reactivated.
+                                      Their notes and history are kept.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction onClick={() => runAccountAction(profile, 'deactivate')}>
+                                      Deactivate
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={invitation !== null} onOpenChange={(open) => !open && setInvitation(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite User</DialogTitle>
+            <DialogDescription>
+              They will get an email with a link to set their password.
+            </DialogDescription>
+          </DialogHeader>
+          {invitation && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="invite-email">Email</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  value={invitation.email}
+                  onChange={(e) => setInvitation({ ...invitation, email: e.target.value })}
+                  placeholder="jane.smith@school.edu"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invite-name">Display Name</Label>
+                <Input
+                  id="invite-name"
+                  value={invitation.displayName}
+                  onChange={(e) => setInvitation({ ...invitation, displayName: e.target.value })}
+                  placeholder="Dr. Jane Smith"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select
+                  value={invitation.role}
+                  onValueChange={(value) => setInvitation({ ...invitation, role: value as AppRole })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ROLE_LABELS) as AppRole[]).map(role => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {DEPARTMENT_SCOPED_ROLES.includes(invitation.role) && (
+                <div className="space-y-2">
+                  <Label>Departments</Label>
+                  <DepartmentPicker
+                    options={knownDepartments}
+                    value={invitation.departments}
+                    onChange={(departments) => setInvitation({ ...invitation, departments })}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setInvitation(null)}>Cancel</Button>
+            <Button onClick={sendInvitation} disabled={inviting || !invitation?.email.trim()}>
+              Send Invitation
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={editingDepartments !== null} onOpenChange={(open) => !open && setEditingDepartments(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Departments for {editingDepartments?.profile.display_name || editingDepartments?.profile.email}</DialogTitle>
+            <DialogDescription>
+              Only used while their role is department head or faculty.
+            </DialogDescription>
+          </DialogHeader>
+          {editingDepartments && (
+            <DepartmentPicker
+              options={knownDepartments}
+              value={editingDepartments.departments}
+              onChange={(departments) => setEditingDepartments({ ...editingDepartments, departments })}
+            />
+          )}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setEditingDepartments(null)}>Cancel</Button>
+            <Button onClick={saveDepartments}>Save Departments</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+};
+
+export default Users;
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+  LogisticFeatureSource,
+  featureContributions,
+  fitLogisticRegression,
+  predictProbability,
+} from './logisticRegression.ts';
+
+const student = (overrides: Partial<LogisticFeatureSource> = {}): LogisticFeatureSource => ({
+  attendance_percentage: 80,
+  cgpa: 7,
+  sgpa: 7,
+  fee_default: false,
+  disciplinary_actions: 0,
+  scholarship: false,
+  extracurriculars: 1,
+  semester: 3,
+  family_income: 300000,
+  distance_from_home: 10,
+  hostel_accommodation: false,
+  previous_education_gap: false,
+  ...overrides,
+});
+
+describe('fitLogisticRegression', () => {
+  it('takes one gradient step on the standardised features', () => {
+    // Attendance standardises to +1 and -1; every other feature is constant and standardises to 0
+    const { coefficients } = fitLogisticRegression(
+      [student({ attendance_percentage: 90 }), student({ attendance_percentage: 50 })],
+      [0, 1],
+      { iterations: 1, learningRate: 0.1, l2: 0 }
+    );
+
+    expect(coefficients.means.attendance_percentage).toBe(70);
+    expect(coefficients.stds.attendance_percentage).toBe(20);
+    // Errors from zero weights are 0.5 and -0.5, so the gradient is ((0.5 * 1) + (-0.5 * -1)) / 2
+    expect(coefficients.weights.attendance_percentage).toBeCloseTo(-0.05);
+    expect(coefficients.intercept).toBeCloseTo(0);
+    expect(coefficients.weights.cgpa).toBe(0);
+  });
+
+  it('moves the intercept towards the base rate', () => {
+    const students = [student(), student(), student(), student()];
+    const { coefficients } = fitLogisticRegression(students, [1, 1, 1, 0], { iterations: 1, learningRate: 0.1 });
+    // (0.5 - 0.75) is the mean error, stepped against
+    expect(coefficients.intercept).toBeCloseTo(0.025);
+  });
+
+  it('gives constant features a unit scale', () => {
+    const { coefficients } = fitLogisticRegression([student(), student()], [0, 1], { iterations: 1 });
+    expect(coefficients.stds.cgpa).toBe(1);
+  });
+
+  it('learns that low attendance means dropping out', () => {
+    const students = Array.from({ length: 40 }, (_, i) => student({ attendance_percentage: 40 + i * 1.5 }));
+    const labels = students.map(s => (s.attendance_percentage < 70 ? 1 : 0));
+    const { coefficients, metrics } = fitLogisticRegression(students, labels);
+
+    expect(coefficients.weights.attendance_percentage).toBeLessThan(0);
+    expect(predictProbability(coefficients, student({ attendance_percentage: 45 }))).toBeGreaterThan(0.8);
+    expect(predictProbability(coefficients, student({ attendance_percentage: 95 }))).toBeLessThan(0.2);
+    expect(metrics.samples).toBe(40);
+    expect(metrics.positives).toBe(20);
+    expect(metrics.accuracy).toBeGreaterThan(0.9);
+  });
+
+  it('shrinks weights as the L2 penalty grows', () => {
+    const students = Array.from({ length: 20 }, (_, i) => student({ cgpa: 4 + i * 0.3 }));
+    const labels = students.map(s => (s.cgpa < 7 ? 1 : 0));
+    const loose = fitLogisticRegression(students, labels, { l2: 0 });
+    const strict = fitLogisticRegression(students, labels, { l2: 1 });
+
+    expect(Math.abs(strict.coefficients.weights.cgpa)).toBeLessThan(Math.abs(loose.coefficients.weights.cgpa));
+  });
+
+  it('needs one label per student', () => {
+    expect(() => fitLogisticRegression([student()], [1, 0])).toThrow('exactly one label');
+  });
+});
+
+describe('featureContributions', () => {
+  it('treats a missing value as the training mean', () => {
+    const { coefficients } = fitLogisticRegression(
+      [student({ family_income: 100000 }), student({ family_income: 500000 })],
+      [1, 0],
+      { iterations: 10 }
+    );
+    expect(featureContributions(coefficients, student({ family_income: null })).family_income).toBeCloseTo(0);
+  });
+});
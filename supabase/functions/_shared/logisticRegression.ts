@@ -0,0 +1,173 @@
+// Logistic regression over the student features used by the risk model.
+// Plain TypeScript with no dependencies so it can be shared by edge functions.
+
+export const LOGISTIC_FEATURES = [
+  'attendance_percentage',
+  'cgpa',
+  'sgpa',
+  'fee_default',
+  'disciplinary_actions',
+  'scholarship',
+  'extracurriculars',
+  'semester',
+  'family_income',
+  'distance_from_home',
+  'hostel_accommodation',
+  'previous_education_gap',
+] as const;
+
+export type LogisticFeature = typeof LOGISTIC_FEATURES[number];
+
+export interface LogisticFeatureSource {
+  attendance_percentage: number | null;
+  cgpa: number | null;
+  sgpa: number | null;
+  fee_default: boolean;
+  disciplinary_actions: number;
+  scholarship: boolean;
+  extracurriculars: number;
+  semester: number;
+  family_income?: number | null;
+  distance_from_home?: number | null;
+  hostel_accommodation: boolean;
+  previous_education_gap: boolean;
+}
+
+export interface LogisticCoefficients {
+  intercept: number;
+  weights: Record<LogisticFeature, number>;
+  // Standardisation parameters learned from the training set
+  means: Record<LogisticFeature, number>;
+  stds: Record<LogisticFeature, number>;
+}
+
+export interface TrainingOptions {
+  learningRate?: number;
+  iterations?: number;
+  l2?: number;
+}
+
+export interface TrainingMetrics {
+  samples: number;
+  positives: number;
+  accuracy: number;
+  log_loss: number;
+  iterations: number;
+  l2: number;
+}
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+const featureValue = (student: LogisticFeatureSource, feature: LogisticFeature): number | null => {
+  const value = student[feature];
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return Number(value);
+};
+
+const emptyRecord = (): Record<LogisticFeature, number> =>
+  Object.fromEntries(LOGISTIC_FEATURES.map(feature => [feature, 0])) as Record<LogisticFeature, number>;
+
+// Missing values become the training mean, i.e. zero once standardised
+function standardise(student: LogisticFeatureSource, coefficients: LogisticCoefficients): number[] {
+  return LOGISTIC_FEATURES.map(feature => {
+    const value = featureValue(student, feature);
+    if (value === null) return 0;
+    return (value - coefficients.means[feature]) / coefficients.stds[feature];
+  });
+}
+
+export function fitLogisticRegression(
+  students: LogisticFeatureSource[],
+  labels: number[],
+  { learningRate = 0.1, iterations = 2000, l2 = 0.01 }: TrainingOptions = {}
+): { coefficients: LogisticCoefficients; metrics: TrainingMetrics } {
+  if (students.length !== labels.length) {
+    throw new Error('Each training student needs exactly one label');
+  }
+
+  const means = emptyRecord();
+  const stds = emptyRecord();
+
+  LOGISTIC_FEATURES.forEach(feature => {
+    const values = students.map(student => featureValue(student, feature)).filter((v): v is number => v !== null);
+    const mean = values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+    const variance = values.length > 0
+      ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length
+      : 0;
+    means[feature] = mean;
+    // Constant features keep a unit scale so they do not divide by zero
+    stds[feature] = Math.sqrt(variance) || 1;
+  });
+
+  const coefficients: LogisticCoefficients = { intercept: 0, weights: emptyRecord(), means, stds };
+  const matrix = students.map(student => standardise(student, coefficients));
+  const weights = new Array(LOGISTIC_FEATURES.length).fill(0);
+  let intercept = 0;
+  const n = matrix.length;
+
+  // Batch gradient descent on the L2-regularised log loss
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const gradient = new Array(weights.length).fill(0);
+    let interceptGradient = 0;
+
+    for (let i = 0; i < n; i++) {
+      const row = matrix[i];
+      const z = row.reduce((sum, x, j) => sum + x * weights[j], intercept);
+      const error = sigmoid(z) - labels[i];
+      interceptGradient += error;
+      row.forEach((x, j) => {
+        gradient[j] += error * x;
+      });
+    }
+
+    intercept -= (learningRate * interceptGradient) / n;
+    for (let j = 0; j < weights.length; j++) {
+      weights[j] -= learningRate * (gradient[j] / n + l2 * weights[j]);
+    }
+  }
+
+  coefficients.intercept = intercept;
+  LOGISTIC_FEATURES.forEach((feature, j) => {
+    coefficients.weights[feature] = weights[j];
+  });
+
+  let correct = 0;
+  let logLoss = 0;
+  students.forEach((student, i) => {
+    const probability = Math.min(Math.max(predictProbability(coefficients, student), 1e-15), 1 - 1e-15);
+    if ((probability >= 0.5 ? 1 : 0) === labels[i]) correct++;
+    logLoss -= labels[i] * Math.log(probability) + (1 - labels[i]) * Math.log(1 - probability);
+  });
+
+  return {
+    coefficients,
+    metrics: {
+      samples: n,
+      positives: labels.filter(label => label === 1).length,
+      accuracy: n > 0 ? correct / n : 0,
+      log_loss: n > 0 ? logLoss / n : 0,
+      iterations,
+      l2,
+    },
+  };
+}
+
+// Per-feature contribution to the log-odds, before the intercept
+export function featureContributions(
+  coefficients: LogisticCoefficients,
+  student: LogisticFeatureSource
+): Record<LogisticFeature, number> {
+  const standardised = standardise(student, coefficients);
+  const contributions = emptyRecord();
+  LOGISTIC_FEATURES.forEach((feature, j) => {
+    contributions[feature] = standardised[j] * (coefficients.weights[feature] ?? 0);
+  });
+  return contributions;
+}
+
+export function predictProbability(coefficients: LogisticCoefficients, student: LogisticFeatureSource): number {
+  const contributions = featureContributions(coefficients, student);
+  const z = Object.values(contributions).reduce((sum, c) => sum + c, coefficients.intercept);
+  return sigmoid(z);
+}
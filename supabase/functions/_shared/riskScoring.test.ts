@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BUILTIN_MODEL,
+  DEFAULT_THRESHOLDS,
+  NEUTRAL_VALUES,
+  ScoringInput,
+  buildImputationTable,
+  determineRiskLevel,
+  imputationValuesFor,
+  predictDropoutRisk,
+  riskFromBands,
+  withDefaults,
+} from './riskScoring.ts';
+
+const attendance = DEFAULT_THRESHOLDS.attendance;
+
+const student = (overrides: Partial<ScoringInput> = {}): ScoringInput => ({
+  attendance_percentage: 95,
+  cgpa: 9,
+  sgpa: 9,
+  fee_default: false,
+  disciplinary_actions: 0,
+  scholarship: true,
+  extracurriculars: 3,
+  semester: 2,
+  family_income: 800000,
+  distance_from_home: 10,
+  hostel_accommodation: false,
+  previous_education_gap: false,
+  ...overrides,
+});
+
+describe('riskFromBands', () => {
+  it('picks the highest band the value reaches', () => {
+    expect(riskFromBands(95, attendance)).toBe(0.1);
+    expect(riskFromBands(85, attendance)).toBe(0.3);
+    expect(riskFromBands(60, attendance)).toBe(0.7);
+  });
+
+  it('includes the band minimum', () => {
+    expect(riskFromBands(90, attendance)).toBe(0.1);
+    expect(riskFromBands(89.99, attendance)).toBe(0.3);
+  });
+
+  it('falls back below every band', () => {
+    expect(riskFromBands(12, attendance)).toBe(0.9);
+  });
+
+  it('does not depend on the order the bands are stored in', () => {
+    const reversed = { ...attendance, bands: [...attendance.bands].reverse() };
+    expect(riskFromBands(85, reversed)).toBe(0.3);
+  });
+
+  it('uses the fallback when there are no bands', () => {
+    expect(riskFromBands(50, { bands: [], fallback: 0.4 })).toBe(0.4);
+  });
+});
+
+describe('determineRiskLevel', () => {
+  it('applies the configured cut-offs inclusively', () => {
+    expect(determineRiskLevel(0.7, DEFAULT_THRESHOLDS)).toBe('high');
+    expect(determineRiskLevel(0.69, DEFAULT_THRESHOLDS)).toBe('medium');
+    expect(determineRiskLevel(0.4, DEFAULT_THRESHOLDS)).toBe('medium');
+    expect(determineRiskLevel(0.39, DEFAULT_THRESHOLDS)).toBe('low');
+  });
+});
+
+describe('withDefaults', () => {
+  it('fills in thresholds missing from a stored config', () => {
+    const { weights, thresholds } = withDefaults({ attendance: 0.5 }, { risk_levels: { high: 0.8, medium: 0.5 } });
+    expect(weights.attendance).toBe(0.5);
+    expect(weights.academic).toBe(BUILTIN_MODEL.weights.academic);
+    expect(thresholds.risk_levels).toEqual({ high: 0.8, medium: 0.5 });
+    expect(thresholds.financial).toEqual(DEFAULT_THRESHOLDS.financial);
+    expect(thresholds.attendance).toEqual(DEFAULT_THRESHOLDS.attendance);
+  });
+});
+
+describe('predictDropoutRisk', () => {
+  it('scores an engaged, well-performing student as low risk', () => {
+    const result = predictDropoutRisk(student(), BUILTIN_MODEL);
+    expect(result.risk_level).toBe('low');
+    expect(result.prediction_factors.model_version).toBe('builtin@v1');
+  });
+
+  it('scores a struggling student as high risk', () => {
+    const result = predictDropoutRisk(
+      student({
+        attendance_percentage: 40,
+        cgpa: 4,
+        sgpa: 4,
+        fee_default: true,
+        scholarship: false,
+        family_income: 100000,
+        disciplinary_actions: 3,
+        extracurriculars: 0,
+      }),
+      BUILTIN_MODEL
+    );
+    expect(result.risk_level).toBe('high');
+    expect(result.prediction_factors.attendance_impact).toBe(0.9);
+    expect(result.prediction_factors.financial_impact).toBe(1);
+  });
+
+  it('weights each factor by the model weights', () => {
+    const onlyAttendance = {
+      ...BUILTIN_MODEL,
+      weights: { attendance: 1, academic: 0, financial: 0, behavioral: 0, engagement: 0, demographics: 0 },
+    };
+    expect(predictDropoutRisk(student({ attendance_percentage: 75 }), onlyAttendance).risk_score).toBe(0.5);
+  });
+});
+
+describe('buildImputationTable', () => {
+  const table = buildImputationTable([
+    { department: 'CSE', attendance_percentage: 80, cgpa: 7, sgpa: 7, family_income: null, distance_from_home: 10 },
+    { department: 'CSE', attendance_percentage: 90, cgpa: null, sgpa: 8, family_income: null, distance_from_home: 20 },
+    { department: 'ME', attendance_percentage: 60, cgpa: 5, sgpa: 5, family_income: 300000, distance_from_home: null },
+  ]);
+
+  it('takes medians over recorded values only', () => {
+    expect(table.global).toEqual({
+      attendance_percentage: 80,
+      cgpa: 6,
+      sgpa: 7,
+      family_income: 300000,
+      distance_from_home: 15,
+    });
+    expect(table.departments.CSE).toEqual({ attendance_percentage: 85, cgpa: 7, sgpa: 7.5, distance_from_home: 15 });
+  });
+
+  it('falls back from department to global medians', () => {
+    expect(imputationValuesFor(table, 'CSE', 'department_median').family_income).toBe(300000);
+    expect(imputationValuesFor(table, 'CSE', 'department_median').attendance_percentage).toBe(85);
+    expect(imputationValuesFor(table, 'Unknown', 'department_median')).toEqual(table.global);
+    expect(imputationValuesFor(table, 'CSE', 'global_median').attendance_percentage).toBe(80);
+    expect(imputationValuesFor(table, 'CSE', 'neutral')).toEqual({});
+  });
+});
+
+describe('predictDropoutRisk with missing inputs', () => {
+  it('is fully confident when nothing is missing', () => {
+    const { prediction_factors } = predictDropoutRisk(student(), BUILTIN_MODEL);
+    expect(prediction_factors.missing_fields).toEqual([]);
+    expect(prediction_factors.imputed_values).toEqual({});
+    expect(prediction_factors.confidence).toBe(1);
+  });
+
+  it('imputes from the supplied medians at half the confidence cost of a neutral value', () => {
+    const missingAttendance = student({ attendance_percentage: null });
+
+    const fromMedian = predictDropoutRisk(missingAttendance, BUILTIN_MODEL, { attendance_percentage: 62 });
+    expect(fromMedian.prediction_factors.missing_fields).toEqual(['attendance_percentage']);
+    expect(fromMedian.prediction_factors.imputed_values).toEqual({ attendance_percentage: 62 });
+    expect(fromMedian.prediction_factors.attendance_impact).toBe(0.7);
+    expect(fromMedian.prediction_factors.confidence).toBe(0.88);
+
+    const neutral = predictDropoutRisk(missingAttendance, BUILTIN_MODEL);
+    expect(neutral.prediction_factors.imputed_values).toEqual({
+      attendance_percentage: NEUTRAL_VALUES.attendance_percentage,
+    });
+    expect(neutral.prediction_factors.confidence).toBe(0.75);
+  });
+
+  it('loses confidence for every missing input', () => {
+    const { prediction_factors } = predictDropoutRisk(
+      student({ cgpa: null, sgpa: null, family_income: null }),
+      BUILTIN_MODEL
+    );
+    expect(prediction_factors.missing_fields).toEqual(['cgpa', 'sgpa', 'family_income']);
+    // academic 0.20 split over two fields, plus financial 0.15 over three
+    expect(prediction_factors.confidence).toBe(0.75);
+  });
+});
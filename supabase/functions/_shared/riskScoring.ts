@@ -0,0 +1,497 @@
+// Dropout risk scoring shared by the edge functions and the React app.
+// Keep this file free of Deno- and browser-specific APIs.
+
+import {
+  LogisticCoefficients,
+  LogisticFeature,
+  featureContributions,
+  predictProbability,
+} from './logisticRegression.ts';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export type RiskModelType = 'heuristic' | 'logistic_regression';
+
+export type ImputationStrategy = 'department_median' | 'global_median' | 'neutral';
+
+export interface ScoringInput {
+  attendance_percentage: number | null;
+  cgpa: number | null;
+  sgpa: number | null;
+  fee_default: boolean;
+  disciplinary_actions: number;
+  scholarship: boolean;
+  extracurriculars: number;
+  semester: number;
+  family_income?: number | null;
+  distance_from_home?: number | null;
+  hostel_accommodation: boolean;
+  previous_education_gap: boolean;
+}
+
+// Plain object types (not interfaces) so configs can be stored directly as Json
+export type RiskBand = {
+  min: number;
+  risk: number;
+};
+
+export type BandedThreshold = {
+  bands: RiskBand[];
+  fallback: number;
+};
+
+export type RiskModelWeights = {
+  attendance: number;
+  academic: number;
+  financial: number;
+  behavioral: number;
+  engagement: number;
+  demographics: number;
+};
+
+export type RiskModelThresholds = {
+  risk_levels: { high: number; medium: number };
+  attendance: BandedThreshold;
+  academic: BandedThreshold;
+  behavioral: BandedThreshold;
+  engagement: BandedThreshold;
+  financial: {
+    fee_default: number;
+    no_scholarship: number;
+    low_income_below: number;
+    low_income: number;
+    medium_income_below: number;
+    medium_income: number;
+  };
+  demographics: {
+    distance_above: number;
+    distance: number;
+    hostel: number;
+    education_gap: number;
+    late_semester_above: number;
+    late_semester: number;
+  };
+};
+
+export interface ScoringModel {
+  name: string;
+  version: number;
+  model_type: RiskModelType;
+  coefficients: LogisticCoefficients | null;
+  weights: RiskModelWeights;
+  thresholds: RiskModelThresholds;
+  imputation_strategy: ImputationStrategy;
+}
+
+// Numeric inputs that may be absent on a student record and are filled in before scoring
+export const IMPUTABLE_FIELDS = [
+  'attendance_percentage',
+  'cgpa',
+  'sgpa',
+  'family_income',
+  'distance_from_home',
+] as const;
+
+export type ImputableField = typeof IMPUTABLE_FIELDS[number];
+
+export type ImputationValues = Partial<Record<ImputableField, number>>;
+
+export interface ImputationTable {
+  global: ImputationValues;
+  departments: Record<string, ImputationValues>;
+}
+
+export type FactorKey =
+  | 'attendance_impact'
+  | 'academic_impact'
+  | 'financial_impact'
+  | 'behavioral_impact'
+  | 'engagement_impact'
+  | 'demographic_impact';
+
+export interface PredictionFactors extends Record<FactorKey, number> {
+  model_version: string;
+  missing_fields: ImputableField[];
+  imputed_values: ImputationValues;
+  confidence: number;
+}
+
+export interface PredictionResult {
+  risk_score: number;
+  risk_level: RiskLevel;
+  prediction_factors: PredictionFactors;
+}
+
+export const DEFAULT_WEIGHTS: RiskModelWeights = {
+  attendance: 0.25,
+  academic: 0.20,
+  financial: 0.15,
+  behavioral: 0.15,
+  engagement: 0.10,
+  demographics: 0.15,
+};
+
+export const DEFAULT_THRESHOLDS: RiskModelThresholds = {
+  risk_levels: { high: 0.7, medium: 0.4 },
+  attendance: {
+    bands: [
+      { min: 90, risk: 0.1 },
+      { min: 80, risk: 0.3 },
+      { min: 70, risk: 0.5 },
+      { min: 60, risk: 0.7 },
+    ],
+    fallback: 0.9,
+  },
+  academic: {
+    bands: [
+      { min: 8.0, risk: 0.1 },
+      { min: 7.0, risk: 0.2 },
+      { min: 6.0, risk: 0.4 },
+      { min: 5.0, risk: 0.6 },
+    ],
+    fallback: 0.8,
+  },
+  behavioral: {
+    bands: [
+      { min: 3, risk: 0.8 },
+      { min: 2, risk: 0.6 },
+      { min: 1, risk: 0.4 },
+    ],
+    fallback: 0.1,
+  },
+  engagement: {
+    bands: [
+      { min: 3, risk: 0.1 },
+      { min: 2, risk: 0.2 },
+      { min: 1, risk: 0.3 },
+    ],
+    fallback: 0.5,
+  },
+  financial: {
+    fee_default: 0.6,
+    no_scholarship: 0.2,
+    low_income_below: 200000,
+    low_income: 0.3,
+    medium_income_below: 500000,
+    medium_income: 0.1,
+  },
+  demographics: {
+    distance_above: 500,
+    distance: 0.2,
+    hostel: 0.1,
+    education_gap: 0.3,
+    late_semester_above: 6,
+    late_semester: 0.1,
+  },
+};
+
+// Used when no configuration has been activated in risk_model_configs
+export const BUILTIN_MODEL: ScoringModel = {
+  name: 'builtin',
+  version: 1,
+  model_type: 'heuristic',
+  coefficients: null,
+  weights: DEFAULT_WEIGHTS,
+  thresholds: DEFAULT_THRESHOLDS,
+  imputation_strategy: 'department_median',
+};
+
+// Used when no median is available: values that add little or no risk under the default thresholds
+export const NEUTRAL_VALUES: Record<ImputableField, number> = {
+  attendance_percentage: 75,
+  cgpa: 6.5,
+  sgpa: 6.5,
+  family_income: 500000,
+  distance_from_home: 0,
+};
+
+export function formatModelVersion(model: Pick<ScoringModel, 'name' | 'version'>): string {
+  return `${model.name}@v${model.version}`;
+}
+
+// Stored configs may predate a threshold; anything missing falls back to the defaults
+export function withDefaults(
+  weights: Partial<RiskModelWeights> | null | undefined,
+  thresholds: Partial<RiskModelThresholds> | null | undefined
+): { weights: RiskModelWeights; thresholds: RiskModelThresholds } {
+  return {
+    weights: { ...DEFAULT_WEIGHTS, ...weights },
+    thresholds: {
+      ...DEFAULT_THRESHOLDS,
+      ...thresholds,
+      risk_levels: { ...DEFAULT_THRESHOLDS.risk_levels, ...thresholds?.risk_levels },
+      financial: { ...DEFAULT_THRESHOLDS.financial, ...thresholds?.financial },
+      demographics: { ...DEFAULT_THRESHOLDS.demographics, ...thresholds?.demographics },
+    },
+  };
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function determineRiskLevel(riskScore: number, thresholds: RiskModelThresholds): RiskLevel {
+  if (riskScore >= thresholds.risk_levels.high) return 'high';
+  if (riskScore >= thresholds.risk_levels.medium) return 'medium';
+  return 'low';
+}
+
+const median = (values: number[]): number | undefined => {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const mediansOf = (students: Pick<ScoringInput, ImputableField>[]): ImputationValues => {
+  const values: ImputationValues = {};
+  IMPUTABLE_FIELDS.forEach(field => {
+    const value = median(
+      students
+        .map(student => student[field])
+        .filter((v): v is number => v !== null && v !== undefined)
+        .map(Number)
+    );
+    if (value !== undefined) values[field] = value;
+  });
+  return values;
+};
+
+export function buildImputationTable(
+  students: (Pick<ScoringInput, ImputableField> & { department: string })[]
+): ImputationTable {
+  const byDepartment = new Map<string, typeof students>();
+  students.forEach(student => {
+    byDepartment.set(student.department, [...(byDepartment.get(student.department) || []), student]);
+  });
+
+  return {
+    global: mediansOf(students),
+    departments: Object.fromEntries(
+      [...byDepartment.entries()].map(([department, members]) => [department, mediansOf(members)])
+    ),
+  };
+}
+
+// Department medians fall back to global medians, and anything still unknown to NEUTRAL_VALUES
+export function imputationValuesFor(
+  table: ImputationTable,
+  department: string,
+  strategy: ImputationStrategy
+): ImputationValues {
+  switch (strategy) {
+    case 'department_median':
+      return { ...table.global, ...table.departments[department] };
+    case 'global_median':
+      return { ...table.global };
+    case 'neutral':
+      return {};
+  }
+}
+
+// How much of the overall score each imputable input drives under the model's weights
+function fieldWeight(field: ImputableField, weights: RiskModelWeights): number {
+  switch (field) {
+    case 'attendance_percentage':
+      return weights.attendance;
+    case 'cgpa':
+    case 'sgpa':
+      return weights.academic / 2;
+    case 'family_income':
+      return weights.financial / 3;
+    case 'distance_from_home':
+      return weights.demographics / 4;
+  }
+}
+
+export function predictDropoutRisk(
+  student: ScoringInput,
+  model: ScoringModel,
+  imputation: ImputationValues = {}
+): PredictionResult {
+  const missing = IMPUTABLE_FIELDS.filter(field => student[field] === null || student[field] === undefined);
+  const completed: ScoringInput = { ...student };
+  const imputed: ImputationValues = {};
+  let uncertainty = 0;
+
+  missing.forEach(field => {
+    const fromMedian = imputation[field];
+    imputed[field] = fromMedian ?? NEUTRAL_VALUES[field];
+    completed[field] = imputed[field];
+    // A median is a better guess than a neutral value, so it costs half as much confidence
+    uncertainty += fieldWeight(field, model.weights) * (fromMedian === undefined ? 1 : 0.5);
+  });
+
+  const result = model.model_type === 'logistic_regression' && model.coefficients
+    ? predictWithLogisticModel(completed, model, model.coefficients)
+    : predictWithHeuristicModel(completed, model);
+
+  return {
+    ...result,
+    prediction_factors: {
+      ...result.prediction_factors,
+      missing_fields: missing,
+      imputed_values: imputed,
+      confidence: round2(Math.min(Math.max(1 - uncertainty, 0), 1)),
+    },
+  };
+}
+
+type ModelOutput = Omit<PredictionResult, 'prediction_factors'> & {
+  prediction_factors: Pick<PredictionFactors, FactorKey | 'model_version'>;
+};
+
+function predictWithHeuristicModel(student: ScoringInput, model: ScoringModel): ModelOutput {
+  const { weights, thresholds } = model;
+
+  // Calculate individual factor scores (0-1, where 1 is high risk)
+  const attendanceRisk = calculateAttendanceRisk(student.attendance_percentage ?? 0, thresholds.attendance);
+  const academicRisk = calculateAcademicRisk(student.cgpa ?? 0, student.sgpa ?? 0, thresholds.academic);
+  const financialRisk = calculateFinancialRisk(student.fee_default, student.scholarship, student.family_income ?? undefined, thresholds.financial);
+  const behavioralRisk = calculateBehavioralRisk(student.disciplinary_actions, thresholds.behavioral);
+  const engagementRisk = calculateEngagementRisk(student.extracurriculars, thresholds.engagement);
+  const demographicRisk = calculateDemographicRisk(student, thresholds.demographics);
+
+  // Calculate weighted risk score
+  const riskScore =
+    attendanceRisk * weights.attendance +
+    academicRisk * weights.academic +
+    financialRisk * weights.financial +
+    behavioralRisk * weights.behavioral +
+    engagementRisk * weights.engagement +
+    demographicRisk * weights.demographics;
+
+  return {
+    risk_score: round2(Math.min(Math.max(riskScore, 0), 1)),
+    risk_level: determineRiskLevel(riskScore, thresholds),
+    prediction_factors: {
+      attendance_impact: round2(attendanceRisk),
+      academic_impact: round2(academicRisk),
+      financial_impact: round2(financialRisk),
+      behavioral_impact: round2(behavioralRisk),
+      engagement_impact: round2(engagementRisk),
+      demographic_impact: round2(demographicRisk),
+      model_version: formatModelVersion(model),
+    },
+  };
+}
+
+// Features grouped into the same factors the heuristic reports
+const LOGISTIC_FACTOR_GROUPS: Record<FactorKey, LogisticFeature[]> = {
+  attendance_impact: ['attendance_percentage'],
+  academic_impact: ['cgpa', 'sgpa'],
+  financial_impact: ['fee_default', 'scholarship', 'family_income'],
+  behavioral_impact: ['disciplinary_actions'],
+  engagement_impact: ['extracurriculars'],
+  demographic_impact: ['semester', 'distance_from_home', 'hostel_accommodation', 'previous_education_gap'],
+};
+
+function predictWithLogisticModel(
+  student: ScoringInput,
+  model: ScoringModel,
+  coefficients: LogisticCoefficients
+): ModelOutput {
+  const riskScore = predictProbability(coefficients, student);
+  const contributions = featureContributions(coefficients, student);
+
+  // A factor's impact is the sigmoid of its log-odds contribution: above 0.5 pushes towards dropout
+  const impact = (features: LogisticFeature[]) => {
+    const logit = features.reduce((sum, feature) => sum + contributions[feature], 0);
+    return round2(1 / (1 + Math.exp(-logit)));
+  };
+
+  return {
+    risk_score: round2(riskScore),
+    risk_level: determineRiskLevel(riskScore, model.thresholds),
+    prediction_factors: {
+      attendance_impact: impact(LOGISTIC_FACTOR_GROUPS.attendance_impact),
+      academic_impact: impact(LOGISTIC_FACTOR_GROUPS.academic_impact),
+      financial_impact: impact(LOGISTIC_FACTOR_GROUPS.financial_impact),
+      behavioral_impact: impact(LOGISTIC_FACTOR_GROUPS.behavioral_impact),
+      engagement_impact: impact(LOGISTIC_FACTOR_GROUPS.engagement_impact),
+      demographic_impact: impact(LOGISTIC_FACTOR_GROUPS.demographic_impact),
+      model_version: formatModelVersion(model),
+    },
+  };
+}
+
+// Bands are checked from the highest minimum down; the first one the value reaches wins
+export function riskFromBands(value: number, threshold: BandedThreshold): number {
+  const bands = [...threshold.bands].sort((a, b) => b.min - a.min);
+  for (const band of bands) {
+    if (value >= band.min) return band.risk;
+  }
+  return threshold.fallback;
+}
+
+export function calculateAttendanceRisk(attendance: number, threshold: BandedThreshold): number {
+  // Higher risk for lower attendance
+  return riskFromBands(attendance, threshold);
+}
+
+export function calculateAcademicRisk(cgpa: number, sgpa: number, threshold: BandedThreshold): number {
+  const avgGpa = (cgpa + sgpa) / 2;
+
+  // Higher risk for lower GPA
+  return riskFromBands(avgGpa, threshold);
+}
+
+export function calculateFinancialRisk(
+  feeDefault: boolean,
+  scholarship: boolean,
+  familyIncome: number | undefined,
+  threshold: RiskModelThresholds['financial']
+): number {
+  let risk = 0;
+
+  // Fee default is a strong indicator
+  if (feeDefault) risk += threshold.fee_default;
+
+  // Lack of scholarship for good students might indicate financial stress
+  if (!scholarship) risk += threshold.no_scholarship;
+
+  // Family income factor (if available)
+  if (familyIncome !== undefined) {
+    if (familyIncome < threshold.low_income_below) risk += threshold.low_income; // Low income
+    else if (familyIncome < threshold.medium_income_below) risk += threshold.medium_income; // Medium income
+  }
+
+  return Math.min(risk, 1.0);
+}
+
+export function calculateBehavioralRisk(disciplinaryActions: number, threshold: BandedThreshold): number {
+  // More disciplinary actions = higher risk
+  return riskFromBands(disciplinaryActions, threshold);
+}
+
+export function calculateEngagementRisk(extracurriculars: number, threshold: BandedThreshold): number {
+  // Lack of engagement in extracurriculars can indicate disconnection
+  return riskFromBands(extracurriculars, threshold);
+}
+
+export function calculateDemographicRisk(
+  student: ScoringInput,
+  threshold: RiskModelThresholds['demographics']
+): number {
+  let risk = 0;
+
+  // Distance from home
+  if (student.distance_from_home && student.distance_from_home > threshold.distance_above) {
+    risk += threshold.distance;
+  }
+
+  // Hostel accommodation without family support
+  if (student.hostel_accommodation) {
+    risk += threshold.hostel;
+  }
+
+  // Previous education gap
+  if (student.previous_education_gap) {
+    risk += threshold.education_gap;
+  }
+
+  // Later semester students have different risk patterns
+  if (student.semester > threshold.late_semester_above) {
+    risk += threshold.late_semester; // Closer to graduation, higher stakes
+  }
+
+  return Math.min(risk, 1.0);
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { DecimalSeparator, ExistingStudent, ImportRow, planImport, validateImportRows } from './studentImport.ts';
+
+const required = {
+  name: 'Jane Doe',
+  email: 'jane@example.edu',
+  student_id: 'S001',
+  department: 'CSE',
+  semester: '3',
+  gender: 'female',
+};
+
+const validate = (values: Record<string, string>, decimalSeparator?: DecimalSeparator) =>
+  validateImportRows([{ rowNumber: 2, values: { ...required, ...values } }], decimalSeparator)[0];
+
+describe('validateImportRows', () => {
+  it('converts values to their column types', () => {
+    const row = validate({ attendance_percentage: '85%', fee_default: 'Yes', gender: 'F' });
+    expect(row.errors).toEqual([]);
+    expect(row.record).toMatchObject({ semester: 3, attendance_percentage: 85, fee_default: true, gender: 'female' });
+  });
+
+  it('reports missing, malformed and out-of-range values', () => {
+    const row = validate({ name: '', email: 'not-an-email', semester: '2.5', cgpa: '11', scholarship: 'maybe' });
+    expect(row.errors).toEqual([
+      'Name is required',
+      '"not-an-email" is not a valid email',
+      'Semester must be a whole number',
+      'CGPA must be at most 10',
+      'Scholarship: "maybe" is not yes/no',
+    ]);
+  });
+
+  it('rejects repeated student IDs and emails after the first occurrence', () => {
+    const rows = validateImportRows([
+      { rowNumber: 2, values: required },
+      { rowNumber: 5, values: { ...required, email: 'JANE@example.edu ' } },
+      { rowNumber: 6, values: { ...required, student_id: 'S002', email: 'other@example.edu' } },
+    ]);
+    expect(rows.map(row => row.errors)).toEqual([
+      [],
+      ['Student ID duplicates row 2', 'Email duplicates row 2'],
+      [],
+    ]);
+  });
+
+  describe('with "." as the decimal separator', () => {
+    it('accepts commas grouping thousands', () => {
+      expect(validate({ family_income: '1,250,000' }).record.family_income).toBe(1250000);
+      expect(validate({ family_income: '1,250,000.50' }).record.family_income).toBe(1250000.5);
+      expect(validate({ cgpa: '8.25' }).record.cgpa).toBe(8.25);
+    });
+
+    it('rejects commas that do not group thousands', () => {
+      const row = validate({ cgpa: '8,1', family_income: '12,50,000' });
+      expect(row.record.cgpa).toBeUndefined();
+      expect(row.errors).toEqual([
+        'CGPA: "8,1" is ambiguous, write decimals with "."',
+        'Family income: "12,50,000" is ambiguous, write decimals with "."',
+      ]);
+    });
+  });
+
+  describe('with "," as the decimal separator', () => {
+    it('reads a single comma as the decimal point', () => {
+      const row = validate({ cgpa: '8,1', attendance_percentage: '85,5%', sgpa: '7' }, ',');
+      expect(row.errors).toEqual([]);
+      expect(row.record).toMatchObject({ cgpa: 8.1, attendance_percentage: 85.5, sgpa: 7 });
+    });
+
+    it('accepts dots grouping thousands before the decimal comma', () => {
+      expect(validate({ family_income: '1.250.000,50' }, ',').record.family_income).toBe(1250000.5);
+      expect(validate({ cgpa: '8.1' }, ',').record.cgpa).toBe(8.1);
+    });
+
+    it('rejects values that could be read either way', () => {
+      const row = validate({ family_income: '1,250,000', distance_from_home: '1.250', cgpa: '8.1,5' }, ',');
+      expect(row.errors).toEqual([
+        'CGPA: "8.1,5" is ambiguous, write decimals with ","',
+        'Family income: "1,250,000" is ambiguous, write decimals with ","',
+        'Distance from home: "1.250" is ambiguous, write decimals with ","',
+      ]);
+    });
+  });
+});
+
+const importRow = (rowNumber: number, record: ImportRow['record'], errors: string[] = []): ImportRow => ({
+  rowNumber,
+  values: {},
+  record,
+  errors,
+});
+
+const existing: ExistingStudent[] = [
+  { id: 'uuid-1', student_id: 'S001', name: 'Jane Doe', cgpa: 8.1, semester: 3 },
+  { id: 'uuid-2', student_id: 'S002', name: 'John Roe', cgpa: 6.4, semester: 5 },
+];
+
+const rows = [
+  importRow(2, { student_id: 'S001', name: 'Jane Doe', cgpa: 8.4 }),
+  importRow(3, { student_id: 'S002', name: 'John Roe', semester: 5 }),
+  importRow(4, { student_id: 'S003', name: 'New Student' }),
+  importRow(5, { student_id: 'S004' }, ['Name is required']),
+];
+
+describe('planImport', () => {
+  it('inserts new students and updates changed ones in upsert mode', () => {
+    const plan = planImport(rows, existing, 'upsert');
+
+    expect(plan.rows).toHaveLength(3);
+    expect(plan.inserts.map(p => p.row.rowNumber)).toEqual([4]);
+    expect(plan.updates).toHaveLength(1);
+    expect(plan.updates[0]).toMatchObject({ studentId: 'uuid-1', changes: { cgpa: 8.4 }, changedFields: ['cgpa'] });
+    // Kept so a rollback can restore the overwritten values
+    expect(plan.updates[0].previous).toEqual({ cgpa: 8.1, import_job_id: null });
+    expect(plan.unchanged.map(p => p.studentId)).toEqual(['uuid-2']);
+    expect(plan.skipped).toEqual([]);
+    expect(plan.fieldCounts).toEqual({ cgpa: 1 });
+  });
+
+  it('skips existing students in insert mode', () => {
+    const plan = planImport(rows, existing, 'insert');
+    expect(plan.inserts.map(p => p.row.rowNumber)).toEqual([4]);
+    expect(plan.skipped.map(p => p.row.rowNumber)).toEqual([2, 3]);
+    expect(plan.updates).toEqual([]);
+  });
+
+  it('skips new students in update mode', () => {
+    const plan = planImport(rows, existing, 'update');
+    expect(plan.inserts).toEqual([]);
+    expect(plan.skipped.map(p => p.row.rowNumber)).toEqual([4]);
+    expect(plan.updates.map(p => p.row.rowNumber)).toEqual([2]);
+  });
+
+  it('compares numbers stored as strings by value', () => {
+    const plan = planImport(
+      [importRow(2, { student_id: 'S001', cgpa: 8.1 })],
+      [{ id: 'uuid-1', student_id: 'S001', cgpa: '8.10' }],
+      'upsert'
+    );
+    expect(plan.unchanged).toHaveLength(1);
+  });
+});
@@ -0,0 +1,260 @@
+// Student upload validation and change planning shared by the import-students edge function and the React app.
+// Keep this file free of Deno- and browser-specific APIs.
+
+export type StudentFieldType = 'text' | 'integer' | 'number' | 'boolean' | 'gender';
+
+export interface StudentField {
+  key: string;
+  label: string;
+  type: StudentFieldType;
+  required: boolean;
+  aliases: string[];
+  // Inclusive bounds matching the CHECK constraints on students
+  min?: number;
+  max?: number;
+}
+
+// Target columns in `students` an uploaded column can be mapped to
+export const STUDENT_FIELDS: StudentField[] = [
+  { key: 'name', label: 'Name', type: 'text', required: true, aliases: ['full name', 'student name'] },
+  { key: 'email', label: 'Email', type: 'text', required: true, aliases: ['email address', 'mail', 'e-mail'] },
+  { key: 'student_id', label: 'Student ID', type: 'text', required: true, aliases: ['roll no', 'roll number', 'enrollment no', 'registration no', 'id'] },
+  { key: 'department', label: 'Department', type: 'text', required: true, aliases: ['dept', 'branch', 'programme', 'program'] },
+  { key: 'semester', label: 'Semester', type: 'integer', required: true, aliases: ['sem', 'term'], min: 1 },
+  { key: 'gender', label: 'Gender', type: 'gender', required: true, aliases: ['sex'] },
+  { key: 'attendance_percentage', label: 'Attendance %', type: 'number', required: false, aliases: ['attendance', 'attendance pct'], min: 0, max: 100 },
+  { key: 'cgpa', label: 'CGPA', type: 'number', required: false, aliases: ['cumulative gpa'], min: 0, max: 10 },
+  { key: 'sgpa', label: 'SGPA', type: 'number', required: false, aliases: ['semester gpa', 'gpa'], min: 0, max: 10 },
+  { key: 'fee_default', label: 'Fee default', type: 'boolean', required: false, aliases: ['fees due', 'fee defaulter'] },
+  { key: 'disciplinary_actions', label: 'Disciplinary actions', type: 'integer', required: false, aliases: ['disciplinary', 'warnings'], min: 0 },
+  { key: 'scholarship', label: 'Scholarship', type: 'boolean', required: false, aliases: ['scholarship holder'] },
+  { key: 'extracurriculars', label: 'Extracurriculars', type: 'integer', required: false, aliases: ['activities', 'clubs'], min: 0 },
+  { key: 'family_income', label: 'Family income', type: 'number', required: false, aliases: ['income', 'annual income'] },
+  { key: 'distance_from_home', label: 'Distance from home', type: 'number', required: false, aliases: ['distance', 'distance km'] },
+  { key: 'hostel_accommodation', label: 'Hostel accommodation', type: 'boolean', required: false, aliases: ['hostel', 'hosteller'] },
+  { key: 'previous_education_gap', label: 'Previous education gap', type: 'boolean', required: false, aliases: ['education gap', 'gap year'] },
+];
+
+export type StudentValue = string | number | boolean | null;
+
+// Semicolon-separated CSV files come from locales that write 8,5 for 8.5
+export type DecimalSeparator = '.' | ',';
+
+// students columns keyed by name, converted to their column types
+export type StudentRecord = Record<string, StudentValue>;
+
+export interface SourceRow {
+  // Line the record starts on in the source file, or its worksheet row, counting from 1
+  rowNumber: number;
+  values: Record<string, string>;
+}
+
+export interface ImportRow extends SourceRow {
+  record: StudentRecord;
+  errors: string[];
+}
+
+export type RejectedRow = Pick<ImportRow, 'rowNumber' | 'values' | 'errors'>;
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+const GENDERS: Record<string, string> = { male: 'male', m: 'male', female: 'female', f: 'female', other: 'other' };
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const fieldsByKey = new Map(STUDENT_FIELDS.map(field => [field.key, field]));
+
+// Digits grouped in threes, e.g. 1,250,000 or 1.250.000
+const COMMA_GROUPED = /^[-+]?\d{1,3}(,\d{3})+$/;
+const DOT_GROUPED = /^[-+]?\d{1,3}(\.\d{3})+$/;
+
+// The other separator may only group thousands; a value that could be read either way is rejected
+const parseNumber = (text: string, decimalSeparator: DecimalSeparator): number | 'ambiguous' => {
+  const [whole, fraction, ...rest] = text.replace(/%$/, '').split(decimalSeparator);
+  const decimals = fraction === undefined ? '' : `.${fraction}`;
+
+  if (decimalSeparator === '.') {
+    if (rest.length > 0) return NaN;
+    if (!whole.includes(',')) return Number(`${whole}${decimals}`);
+    return COMMA_GROUPED.test(whole) ? Number(`${whole.replace(/,/g, '')}${decimals}`) : 'ambiguous';
+  }
+
+  // Several commas are more likely thousands grouping than a decimal
+  if (rest.length > 0) return 'ambiguous';
+  if (!whole.includes('.')) return Number(`${whole}${decimals}`);
+  // Without a decimal comma, 1.250 could be a grouped 1250 or a plain 1.25
+  if (fraction === undefined) return DOT_GROUPED.test(whole) ? 'ambiguous' : Number(whole);
+  return DOT_GROUPED.test(whole) ? Number(`${whole.replace(/\./g, '')}${decimals}`) : 'ambiguous';
+};
+
+const convertValue = (
+  field: StudentField,
+  text: string,
+  decimalSeparator: DecimalSeparator
+): { value: StudentValue; error?: string } => {
+  switch (field.type) {
+    case 'integer':
+    case 'number': {
+      const value = parseNumber(text, decimalSeparator);
+      if (value === 'ambiguous') {
+        return { value: null, error: `${field.label}: "${text}" is ambiguous, write decimals with "${decimalSeparator}"` };
+      }
+      if (!Number.isFinite(value)) return { value: null, error: `${field.label}: "${text}" is not a number` };
+      if (field.type === 'integer' && !Number.isInteger(value)) return { value: null, error: `${field.label} must be a whole number` };
+      if (field.min !== undefined && value < field.min) return { value: null, error: `${field.label} must be at least ${field.min}` };
+      if (field.max !== undefined && value > field.max) return { value: null, error: `${field.label} must be at most ${field.max}` };
+      return { value };
+    }
+    case 'boolean': {
+      const normalized = text.toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) return { value: true };
+      if (FALSE_VALUES.includes(normalized)) return { value: false };
+      return { value: null, error: `${field.label}: "${text}" is not yes/no` };
+    }
+    case 'gender': {
+      const gender = GENDERS[text.toLowerCase()];
+      return gender ? { value: gender } : { value: null, error: 'Gender must be male, female or other' };
+    }
+    case 'text':
+      if (field.key === 'email' && !EMAIL_PATTERN.test(text)) return { value: text, error: `"${text}" is not a valid email` };
+      return { value: text };
+  }
+};
+
+const validateValues = (
+  values: Record<string, string>,
+  decimalSeparator: DecimalSeparator
+): Pick<ImportRow, 'record' | 'errors'> => {
+  const record: StudentRecord = {};
+  const errors: string[] = [];
+
+  STUDENT_FIELDS.forEach(field => {
+    const text = values[field.key]?.trim() ?? '';
+    if (text === '') {
+      if (field.required) errors.push(`${field.label} is required`);
+      return;
+    }
+    const { value, error } = convertValue(field, text, decimalSeparator);
+    if (error) errors.push(error);
+    else record[field.key] = value;
+  });
+
+  return { record, errors };
+};
+
+// Student ID and email are unique in students, so repeats within the file are rejected after the first
+const flagDuplicates = (rows: ImportRow[]): ImportRow[] => {
+  const seen = { student_id: new Map<string, number>(), email: new Map<string, number>() };
+
+  return rows.map(row => {
+    const errors = [...row.errors];
+    (['student_id', 'email'] as const).forEach(key => {
+      const value = row.values[key]?.trim().toLowerCase();
+      if (!value) return;
+      const first = seen[key].get(value);
+      if (first !== undefined) errors.push(`${fieldsByKey.get(key)!.label} duplicates row ${first}`);
+      else seen[key].set(value, row.rowNumber);
+    });
+    return { ...row, errors };
+  });
+};
+
+export const validateImportRows = (rows: SourceRow[], decimalSeparator: DecimalSeparator = '.'): ImportRow[] =>
+  flagDuplicates(rows.map(row => ({
+    rowNumber: row.rowNumber,
+    values: row.values,
+    ...validateValues(row.values, decimalSeparator),
+  })));
+
+export const updateImportRow = (
+  rows: ImportRow[],
+  rowNumber: number,
+  field: string,
+  text: string,
+  decimalSeparator: DecimalSeparator = '.'
+): ImportRow[] =>
+  validateImportRows(rows.map(row => (
+    row.rowNumber === rowNumber ? { rowNumber, values: { ...row.values, [field]: text } } : row
+  )), decimalSeparator);
+
+export type ImportMode = 'insert' | 'update' | 'upsert';
+
+export interface ExistingStudent {
+  id: string;
+  student_id: string;
+  import_job_id?: string | null;
+  [column: string]: unknown;
+}
+
+export type RowAction = 'insert' | 'update' | 'unchanged' | 'skip';
+
+export interface PlannedRow {
+  row: ImportRow;
+  action: RowAction;
+  // Set for rows matching an existing student
+  studentId?: string;
+  changes: StudentRecord;
+  changedFields: string[];
+  // Stored values of the changed fields and the upload that last wrote them, kept for rollback
+  previous: StudentRecord;
+}
+
+export interface ImportPlan {
+  rows: PlannedRow[];
+  inserts: PlannedRow[];
+  updates: PlannedRow[];
+  unchanged: PlannedRow[];
+  skipped: PlannedRow[];
+  // How many updated rows change each field
+  fieldCounts: Record<string, number>;
+}
+
+const sameValue = (current: unknown, next: StudentValue) =>
+  typeof next === 'number' && current !== null && current !== undefined
+    ? Number(current) === next
+    : current === next;
+
+// Columns missing from the file, or empty in a row, keep their stored value rather than being cleared
+const diffRecord = (existing: ExistingStudent, record: StudentRecord) => {
+  const changes: StudentRecord = {};
+  Object.entries(record).forEach(([key, value]) => {
+    if (!sameValue(existing[key], value)) changes[key] = value;
+  });
+  return changes;
+};
+
+export const planImport = (rows: ImportRow[], existing: ExistingStudent[], mode: ImportMode): ImportPlan => {
+  const byStudentId = new Map(existing.map(student => [student.student_id, student]));
+
+  const planned = rows
+    .filter(row => row.errors.length === 0)
+    .map((row): PlannedRow => {
+      const match = byStudentId.get(String(row.record.student_id));
+      if (!match) {
+        return { row, action: mode === 'update' ? 'skip' : 'insert', changes: row.record, changedFields: [], previous: {} };
+      }
+
+      const changes = diffRecord(match, row.record);
+      const changedFields = Object.keys(changes);
+      const previous: StudentRecord = Object.fromEntries([
+        ...changedFields.map(field => [field, (match[field] ?? null) as StudentValue]),
+        ['import_job_id', match.import_job_id ?? null],
+      ]);
+      const action: RowAction = mode === 'insert' ? 'skip' : changedFields.length > 0 ? 'update' : 'unchanged';
+      return { row, action, studentId: match.id, changes, changedFields, previous };
+    });
+
+  const updates = planned.filter(p => p.action === 'update');
+  const fieldCounts: Record<string, number> = {};
+  updates.forEach(p => p.changedFields.forEach(field => {
+    fieldCounts[field] = (fieldCounts[field] || 0) + 1;
+  }));
+
+  return {
+    rows: planned,
+    inserts: planned.filter(p => p.action === 'insert'),
+    updates,
+    unchanged: planned.filter(p => p.action === 'unchanged'),
+    skipped: planned.filter(p => p.action === 'skip'),
+    fieldCounts,
+  };
+};
@@ -0,0 +1,478 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import {
+  DecimalSeparator,
+  ExistingStudent,
+  ImportMode,
+  ImportRow,
+  PlannedRow,
+  RejectedRow,
+  SourceRow,
+  planImport,
+  validateImportRows,
+} from '../_shared/studentImport.ts';
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+// Comma-separated app URLs allowed to call this function from a browser, e.g. https://risk.example.edu
+const ALLOWED_ORIGINS = (Deno.env.get('ALLOWED_ORIGINS') ?? '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
+// Profile roles allowed to run imports
+const IMPORT_ROLES = ['admin', 'department_head'];
+
+// Progress is saved after each chunk, so a job that stops resumes at the last finished chunk
+const CHUNK_SIZE = 200;
+const WRITE_BATCH_SIZE = 50;
+
+// A processing job whose progress has not moved for this long is assumed to have lost its worker
+const STALE_AFTER_MS = 2 * 60 * 1000;
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface Caller {
+  userId: string;
+  role: string;
+}
+
+interface ImportJob {
+  id: string;
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'rolled_back';
+  mode: ImportMode;
+  storage_path: string | null;
+  uploaded_by: string | null;
+  processed_rows: number;
+  inserted_count: number;
+  updated_count: number;
+  unchanged_count: number;
+  skipped_count: number;
+  rejected_count: number;
+  errors: RejectedRow[];
+  updated_at: string;
+}
+
+interface WriteResult {
+  ids: string[];
+  rejected: RejectedRow[];
+}
+
+// The reviewed rows the Upload page saved to storage
+interface ImportFile {
+  rows: SourceRow[];
+  decimalSeparator?: DecimalSeparator;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function corsHeadersFor(req: Request): Record<string, string> {
+  const origin = req.headers.get('Origin');
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Vary': 'Origin',
+  };
+  if (origin && ALLOWED_ORIGINS.includes(origin)) {
+    headers['Access-Control-Allow-Origin'] = origin;
+  }
+  return headers;
+}
+
+serve(async (req) => {
+  const corsHeaders = corsHeadersFor(req);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const caller = await authorizeImporter(supabaseClient, req);
+    const { jobId } = await req.json();
+
+    if (!jobId) {
+      return new Response(
+        JSON.stringify({ error: 'No import job specified' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const job = await claimJob(supabaseClient, jobId, caller);
+
+    if (!job) {
+      return new Response(
+        JSON.stringify({ error: 'Import job is not waiting to be processed' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Respond straight away; the upload keeps running after the response is sent
+    EdgeRuntime.waitUntil(runJob(supabaseClient, job));
+
+    return new Response(
+      JSON.stringify({ jobId: job.id, status: 'processing', processedRows: job.processed_rows }),
+      { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.error('Import error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to start import' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+// The function writes with the service role, so the caller must be a signed-in, active user allowed to import
+async function authorizeImporter(supabaseClient: SupabaseClient, req: Request): Promise<Caller> {
+  const origin = req.headers.get('Origin');
+  if (origin && !ALLOWED_ORIGINS.includes(origin)) {
+    throw new HttpError(403, 'Requests from this origin are not allowed');
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    throw new HttpError(401, 'Missing authorization token');
+  }
+
+  const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token);
+  if (userError || !user) {
+    throw new HttpError(401, 'Your session has expired, please sign in again');
+  }
+
+  const { data: profile, error: profileError } = await supabaseClient
+    .from('profiles')
+    .select('role, deactivated_at')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (profileError) {
+    console.error('Error fetching caller profile:', profileError);
+    throw profileError;
+  }
+  if (!profile || !IMPORT_ROLES.includes(profile.role) || profile.deactivated_at) {
+    throw new HttpError(403, 'Only admins and department heads can import students');
+  }
+
+  return { userId: user.id, role: profile.role };
+}
+
+// Queued jobs, and processing jobs that have gone quiet, are claimed by bumping updated_at.
+// Matching on the previous updated_at means two callers cannot both claim the same job.
+async function claimJob(supabaseClient: SupabaseClient, jobId: string, caller: Caller): Promise<ImportJob | null> {
+  const { data: job, error } = await supabaseClient
+    .from('import_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching import job:', error);
+    throw error;
+  }
+
+  // Department heads can start and resume their own uploads; admins can resume anyone's
+  if (job && caller.role !== 'admin' && job.uploaded_by !== caller.userId) {
+    throw new HttpError(403, 'You can only run your own imports');
+  }
+
+  const stalled = job?.status === 'processing' && Date.now() - new Date(job.updated_at).getTime() > STALE_AFTER_MS;
+  if (!job || (job.status !== 'queued' && !stalled)) return null;
+
+  const { data: claimed, error: claimError } = await supabaseClient
+    .from('import_jobs')
+    .update({ status: 'processing' })
+    .eq('id', jobId)
+    .eq('updated_at', job.updated_at)
+    .select('*')
+    .maybeSingle();
+
+  if (claimError) {
+    console.error('Error claiming import job:', claimError);
+    throw claimError;
+  }
+
+  if (claimed && stalled) {
+    console.log(`Resuming import job ${jobId} at row ${claimed.processed_rows}`);
+  }
+  return claimed;
+}
+
+async function runJob(supabaseClient: SupabaseClient, job: ImportJob) {
+  try {
+    const { rows: sourceRows, decimalSeparator } = await loadImportFile(supabaseClient, job);
+
+    // Validated as a whole so duplicates across chunks are still caught
+    const rows = validateImportRows(sourceRows, decimalSeparator);
+    const departmentAccess = new Map<string, boolean>();
+    const totals = {
+      inserted_count: job.inserted_count,
+      updated_count: job.updated_count,
+      unchanged_count: job.unchanged_count,
+      skipped_count: job.skipped_count,
+      rejected_count: job.rejected_count,
+      errors: [...(job.errors || [])],
+    };
+
+    console.log(`Processing import job ${job.id}: ${rows.length} rows from row ${job.processed_rows}`);
+
+    for (let start = job.processed_rows; start < rows.length; start += CHUNK_SIZE) {
+      const chunk = rows.slice(start, start + CHUNK_SIZE);
+      const existing = await fetchExistingStudents(supabaseClient, chunk);
+      const plan = planImport(chunk, existing, job.mode);
+      const inserts = await checkDepartments(supabaseClient, job, plan.inserts, existing, departmentAccess);
+      const updates = await checkDepartments(supabaseClient, job, plan.updates, existing, departmentAccess);
+
+      const inserted = await insertStudents(supabaseClient, inserts.allowed, job.id);
+      const updated = await updateStudents(supabaseClient, updates.allowed, job.id);
+
+      const rejected = [
+        ...chunk.filter(row => row.errors.length > 0).map(toRejectedRow),
+        ...inserts.rejected,
+        ...updates.rejected,
+        ...inserted.rejected,
+        ...updated.rejected,
+      ].sort((a, b) => a.rowNumber - b.rowNumber);
+
+      totals.inserted_count += inserted.ids.length;
+      totals.updated_count += updated.ids.length;
+      totals.unchanged_count += plan.unchanged.length;
+      totals.skipped_count += plan.skipped.length;
+      totals.rejected_count += rejected.length;
+      totals.errors.push(...rejected);
+
+      const { error } = await supabaseClient
+        .from('import_jobs')
+        .update({ ...totals, processed_rows: start + chunk.length })
+        .eq('id', job.id);
+
+      if (error) {
+        console.error('Error saving import progress:', error);
+        throw error;
+      }
+    }
+
+    const written = totals.inserted_count + totals.updated_count;
+
+    // Scored once the last chunk is written, so the upload is a single prediction run
+    if (written > 0) {
+      await scoreStudents(supabaseClient, job.id);
+    }
+
+    const nothingToWrite = rows.length === totals.unchanged_count + totals.skipped_count;
+    const { error } = await supabaseClient
+      .from('import_jobs')
+      .update(written > 0 || nothingToWrite
+        ? { status: 'completed' }
+        : { status: 'failed', failure_reason: 'None of the rows could be imported' })
+      .eq('id', job.id);
+
+    if (error) {
+      console.error('Error completing import job:', error);
+      throw error;
+    }
+
+    // The rows now live in students and import_jobs.errors
+    if (job.storage_path) {
+      await supabaseClient.storage.from('imports').remove([job.storage_path]);
+    }
+
+    console.log(`Finished import job ${job.id}: ${totals.inserted_count} added, ${totals.updated_count} updated, ${totals.rejected_count} rejected`);
+  } catch (error) {
+    console.error(`Import job ${job.id} failed:`, error);
+    await supabaseClient
+      .from('import_jobs')
+      .update({ status: 'failed', failure_reason: error.message || 'Import failed' })
+      .eq('id', job.id);
+  }
+}
+
+async function loadImportFile(supabaseClient: SupabaseClient, job: ImportJob): Promise<ImportFile> {
+  if (!job.storage_path) {
+    throw new Error('Import job has no uploaded file');
+  }
+
+  const { data, error } = await supabaseClient.storage.from('imports').download(job.storage_path);
+
+  if (error) {
+    console.error('Error downloading import file:', error);
+    throw error;
+  }
+
+  return JSON.parse(await data.text());
+}
+
+async function fetchExistingStudents(supabaseClient: SupabaseClient, rows: ImportRow[]): Promise<ExistingStudent[]> {
+  const studentIds = rows.filter(row => row.errors.length === 0).map(row => String(row.record.student_id));
+  if (studentIds.length === 0) return [];
+
+  const { data, error } = await supabaseClient
+    .from('students')
+    .select('*')
+    .in('student_id', studentIds);
+
+  if (error) {
+    console.error('Error fetching existing students:', error);
+    throw error;
+  }
+  return data || [];
+}
+
+const toRejectedRow = ({ rowNumber, values, errors }: ImportRow): RejectedRow => ({ rowNumber, values, errors });
+
+// The service role bypasses RLS, so rows are held to the uploader's departments here.
+// An update needs access to both the student's current department and the one the file moves them to.
+async function checkDepartments(
+  supabaseClient: SupabaseClient,
+  job: ImportJob,
+  planned: PlannedRow[],
+  existing: ExistingStudent[],
+  access: Map<string, boolean>
+): Promise<{ allowed: PlannedRow[]; rejected: RejectedRow[] }> {
+  const currentDepartments = new Map(existing.map(student => [student.id, student.department as string]));
+  const result = { allowed: [] as PlannedRow[], rejected: [] as RejectedRow[] };
+
+  for (const plannedRow of planned) {
+    const departments = [
+      plannedRow.row.record.department as string | undefined,
+      plannedRow.studentId ? currentDepartments.get(plannedRow.studentId) : undefined,
+    ].filter((department): department is string => Boolean(department));
+
+    let denied: string | undefined;
+    for (const department of departments) {
+      if (!access.has(department)) {
+        access.set(department, await uploaderCanAccess(supabaseClient, job, department));
+      }
+      if (!access.get(department)) {
+        denied = department;
+        break;
+      }
+    }
+
+    if (denied) {
+      result.rejected.push({ ...toRejectedRow(plannedRow.row), errors: [`You do not have access to the ${denied} department`] });
+    } else {
+      result.allowed.push(plannedRow);
+    }
+  }
+
+  return result;
+}
+
+async function uploaderCanAccess(supabaseClient: SupabaseClient, job: ImportJob, department: string): Promise<boolean> {
+  if (!job.uploaded_by) return false;
+
+  const { data, error } = await supabaseClient.rpc('user_can_access_department', {
+    target_user_id: job.uploaded_by,
+    target_department: department,
+  });
+
+  if (error) {
+    console.error('Error checking department access:', error);
+    throw error;
+  }
+  return data === true;
+}
+
+async function recordChanges(supabaseClient: SupabaseClient, changes: Record<string, unknown>[]) {
+  if (changes.length === 0) return;
+
+  const { error } = await supabaseClient.from('import_job_changes').insert(changes);
+
+  if (error) {
+    console.error('Error recording import changes:', error);
+    throw error;
+  }
+}
+
+// A failed batch is retried row by row so one bad row does not reject the rest
+async function insertStudents(supabaseClient: SupabaseClient, planned: PlannedRow[], jobId: string): Promise<WriteResult> {
+  const result: WriteResult = { ids: [], rejected: [] };
+
+  for (let i = 0; i < planned.length; i += WRITE_BATCH_SIZE) {
+    const batch = planned.slice(i, i + WRITE_BATCH_SIZE);
+    const { data, error } = await supabaseClient
+      .from('students')
+      .insert(batch.map(({ row }) => ({ ...row.record, import_job_id: jobId })))
+      .select('id');
+
+    let ids: string[] = [];
+    if (!error) {
+      ids = (data || []).map((student: { id: string }) => student.id);
+    } else {
+      console.error('Batch insert error:', error);
+      for (const { row } of batch) {
+        const { data: student, error: rowError } = await supabaseClient
+          .from('students')
+          .insert({ ...row.record, import_job_id: jobId })
+          .select('id')
+          .single();
+
+        if (rowError) result.rejected.push({ ...toRejectedRow(row), errors: [rowError.message] });
+        else ids.push(student.id);
+      }
+    }
+
+    await recordChanges(supabaseClient, ids.map(id => ({ job_id: jobId, student_id: id, action: 'insert' })));
+    result.ids.push(...ids);
+  }
+
+  return result;
+}
+
+// Only the changed columns are sent, so fields absent from the file keep their stored values
+async function updateStudents(supabaseClient: SupabaseClient, planned: PlannedRow[], jobId: string): Promise<WriteResult> {
+  const result: WriteResult = { ids: [], rejected: [] };
+
+  for (let i = 0; i < planned.length; i += WRITE_BATCH_SIZE) {
+    const updated: PlannedRow[] = [];
+
+    for (const plannedRow of planned.slice(i, i + WRITE_BATCH_SIZE)) {
+      const { error } = await supabaseClient
+        .from('students')
+        .update({ ...plannedRow.changes, import_job_id: jobId })
+        .eq('id', plannedRow.studentId);
+
+      if (error) result.rejected.push({ ...toRejectedRow(plannedRow.row), errors: [error.message] });
+      else updated.push(plannedRow);
+    }
+
+    await recordChanges(supabaseClient, updated.map(({ studentId, previous }) => ({
+      job_id: jobId,
+      student_id: studentId,
+      action: 'update',
+      previous_values: previous,
+    })));
+    result.ids.push(...updated.map(({ studentId }) => studentId!));
+  }
+
+  return result;
+}
+
+// Scores every student the upload wrote. Failures are logged rather than failing the import;
+// the prediction run records them for retry.
+async function scoreStudents(supabaseClient: SupabaseClient, jobId: string) {
+  const { error } = await supabaseClient.functions.invoke('predict-dropout-risk', {
+    body: { source: 'import', importJobId: jobId },
+  });
+
+  if (error) {
+    console.error('Error scoring imported students:', error);
+  }
+}
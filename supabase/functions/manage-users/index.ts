@@ -0,0 +1,265 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+
+// Comma-separated app URLs allowed to call this function from a browser, e.g. https://risk.example.edu
+const ALLOWED_ORIGINS = (Deno.env.get('ALLOWED_ORIGINS') ?? '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
+// Long enough to mean "until reactivated"; the auth API has no permanent ban
+const DEACTIVATED_BAN_DURATION = '876000h';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+type AppRole = 'admin' | 'department_head' | 'counsellor' | 'faculty' | 'viewer';
+
+interface ManageUsersRequest {
+  action: 'invite' | 'deactivate' | 'reactivate' | 'sign_out';
+  userId?: string;
+  // Invitations only
+  email?: string;
+  displayName?: string;
+  role?: AppRole;
+  departments?: string[];
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function corsHeadersFor(req: Request): Record<string, string> {
+  const origin = req.headers.get('Origin');
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Vary': 'Origin',
+  };
+  if (origin && ALLOWED_ORIGINS.includes(origin)) {
+    headers['Access-Control-Allow-Origin'] = origin;
+  }
+  return headers;
+}
+
+serve(async (req) => {
+  const corsHeaders = corsHeadersFor(req);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const adminId = await authorizeAdmin(supabaseClient, req);
+    const request: ManageUsersRequest = await req.json();
+
+    let result: Record<string, unknown>;
+    switch (request.action) {
+      case 'invite':
+        result = await inviteUser(supabaseClient, request, adminId, req.headers.get('Origin'));
+        break;
+      case 'deactivate':
+        result = await deactivateUser(supabaseClient, requireUserId(request, adminId));
+        break;
+      case 'reactivate':
+        result = await reactivateUser(supabaseClient, requireUserId(request, adminId));
+        break;
+      case 'sign_out':
+        result = await signOutUser(supabaseClient, requireUserId(request, adminId));
+        break;
+      default:
+        throw new HttpError(400, 'Unknown action');
+    }
+
+    return new Response(
+      JSON.stringify(result),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.error('Manage users error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to update user' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+// Only signed-in, active admins may manage accounts; returns the admin's user id
+async function authorizeAdmin(supabaseClient: SupabaseClient, req: Request): Promise<string> {
+  const origin = req.headers.get('Origin');
+  if (origin && !ALLOWED_ORIGINS.includes(origin)) {
+    throw new HttpError(403, 'Requests from this origin are not allowed');
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    throw new HttpError(401, 'Missing authorization token');
+  }
+
+  const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token);
+  if (userError || !user) {
+    throw new HttpError(401, 'Your session has expired, please sign in again');
+  }
+
+  const { data: profile, error: profileError } = await supabaseClient
+    .from('profiles')
+    .select('role, deactivated_at')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (profileError) {
+    console.error('Error fetching caller profile:', profileError);
+    throw profileError;
+  }
+  if (!profile || profile.role !== 'admin' || profile.deactivated_at) {
+    throw new HttpError(403, 'Only admins can manage users');
+  }
+
+  return user.id;
+}
+
+function requireUserId(request: ManageUsersRequest, adminId: string): string {
+  if (!request.userId) {
+    throw new HttpError(400, 'No user specified');
+  }
+  // Locking yourself out would leave the project without a way back in
+  if (request.userId === adminId && request.action !== 'reactivate') {
+    throw new HttpError(400, 'You cannot deactivate or sign out your own account here');
+  }
+  return request.userId;
+}
+
+async function inviteUser(
+  supabaseClient: SupabaseClient,
+  request: ManageUsersRequest,
+  adminId: string,
+  origin: string | null
+) {
+  const email = request.email?.trim().toLowerCase();
+  if (!email) {
+    throw new HttpError(400, 'An email address is required');
+  }
+
+  const { data: previous, error: previousError } = await supabaseClient
+    .from('user_invitations')
+    .select('*')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (previousError) {
+    console.error('Error fetching invitation:', previousError);
+    throw previousError;
+  }
+
+  // Recorded first: the signup trigger lets invited emails through and gives them this role and these departments
+  const { error: invitationError } = await supabaseClient
+    .from('user_invitations')
+    .upsert({
+      email,
+      role: request.role ?? 'viewer',
+      departments: [...new Set((request.departments ?? []).map(d => d.trim()).filter(Boolean))],
+      invited_by: adminId,
+    }, { onConflict: 'email' });
+
+  if (invitationError) {
+    console.error('Error recording invitation:', invitationError);
+    throw invitationError;
+  }
+
+  const { data, error } = await supabaseClient.auth.admin.inviteUserByEmail(email, {
+    data: { display_name: request.displayName?.trim() || null },
+    redirectTo: origin && ALLOWED_ORIGINS.includes(origin) ? `${origin}/` : Deno.env.get('SITE_URL'),
+  });
+
+  if (error) {
+    console.error('Error inviting user:', error);
+    await restoreInvitation(supabaseClient, email, previous);
+    throw new HttpError(error.status === 422 ? 409 : 500, error.message);
+  }
+
+  console.log(`Invited ${email} as ${request.role ?? 'viewer'}`);
+  return { userId: data.user.id };
+}
+
+// A failed invite must not leave an invitation behind that would let the email sign up on its own
+async function restoreInvitation(supabaseClient: SupabaseClient, email: string, previous: Record<string, unknown> | null) {
+  const { error } = previous
+    ? await supabaseClient.from('user_invitations').upsert(previous, { onConflict: 'email' })
+    : await supabaseClient.from('user_invitations').delete().eq('email', email);
+
+  if (error) {
+    console.error('Error restoring invitation:', error);
+  }
+}
+
+async function deactivateUser(supabaseClient: SupabaseClient, userId: string) {
+  const { error: banError } = await supabaseClient.auth.admin.updateUserById(userId, {
+    ban_duration: DEACTIVATED_BAN_DURATION,
+  });
+
+  if (banError) {
+    console.error('Error banning user:', banError);
+    throw banError;
+  }
+
+  const { error } = await supabaseClient
+    .from('profiles')
+    .update({ deactivated_at: new Date().toISOString() })
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error deactivating profile:', error);
+    throw error;
+  }
+
+  return signOutUser(supabaseClient, userId);
+}
+
+async function reactivateUser(supabaseClient: SupabaseClient, userId: string) {
+  const { error: banError } = await supabaseClient.auth.admin.updateUserById(userId, { ban_duration: 'none' });
+
+  if (banError) {
+    console.error('Error lifting user ban:', banError);
+    throw banError;
+  }
+
+  const { error } = await supabaseClient
+    .from('profiles')
+    .update({ deactivated_at: null })
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error reactivating profile:', error);
+    throw error;
+  }
+
+  return { userId };
+}
+
+// Refresh tokens stop working at once; an access token already issued lasts until it expires
+async function signOutUser(supabaseClient: SupabaseClient, userId: string) {
+  const { data: revokedSessions, error } = await supabaseClient.rpc('revoke_user_sessions', {
+    target_user_id: userId,
+  });
+
+  if (error) {
+    console.error('Error revoking sessions:', error);
+    throw error;
+  }
+
+  return { userId, revokedSessions };
+}
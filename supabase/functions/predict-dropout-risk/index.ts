@@ -1,40 +1,94 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import {
+  BUILTIN_MODEL,
+  ImputationTable,
+  PredictionResult,
+  ScoringInput,
+  ScoringModel,
+  buildImputationTable,
+  formatModelVersion,
+  imputationValuesFor,
+  predictDropoutRisk,
+  withDefaults,
+} from '../_shared/riskScoring.ts';
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+// Comma-separated app URLs allowed to call this function from a browser, e.g. https://risk.example.edu
+const ALLOWED_ORIGINS = (Deno.env.get('ALLOWED_ORIGINS') ?? '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
+// Profile roles allowed to trigger predictions
+const PREDICTION_ROLES = ['admin', 'department_head'];
+
+// Roles that only see, and so only score, students in their assigned departments
+const DEPARTMENT_SCOPED_ROLES = ['department_head', 'faculty'];
+
+// Per-user request limits; re-scoring everyone is far heavier than a targeted run
+const RATE_LIMITS = {
+  default: { action: 'predict-dropout-risk', maxRequests: 20, windowSeconds: 10 * 60 },
+  rescoreAll: { action: 'predict-dropout-risk:rescore-all', maxRequests: 3, windowSeconds: 60 * 60 },
 };
 
-interface Student {
-  id: string;
-  attendance_percentage: number;
-  cgpa: number;
-  sgpa: number;
-  fee_default: boolean;
-  disciplinary_actions: number;
-  scholarship: boolean;
-  extracurriculars: number;
-  semester: number;
-  family_income?: number;
-  distance_from_home?: number;
-  hostel_accommodation: boolean;
-  previous_education_gap: boolean;
+// Responses are capped at this many rows, so reads across all students go a page at a time
+const STUDENT_PAGE_SIZE = 1000;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public retryAfter?: number) {
+    super(message);
+  }
 }
 
-interface PredictionResult {
-  risk_score: number;
-  risk_level: 'low' | 'medium' | 'high';
-  prediction_factors: {
-    attendance_impact: number;
-    academic_impact: number;
-    financial_impact: number;
-    behavioral_impact: number;
-    engagement_impact: number;
+function corsHeadersFor(req: Request): Record<string, string> {
+  const origin = req.headers.get('Origin');
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Vary': 'Origin',
   };
+  if (origin && ALLOWED_ORIGINS.includes(origin)) {
+    headers['Access-Control-Allow-Origin'] = origin;
+  }
+  return headers;
+}
+
+interface Student extends ScoringInput {
+  id: string;
+  department: string;
+  outcome?: 'enrolled' | 'graduated' | 'dropped_out' | null;
+}
+
+interface RiskModelConfig extends ScoringModel {
+  id: string | null;
+}
+
+type ImputationRow = Parameters<typeof buildImputationTable>[0][number];
+
+// Departments the caller may score, or null when they may score every department
+type DepartmentScope = string[] | null;
+
+interface PredictRequest {
+  studentIds?: string[];
+  processNewStudents?: boolean;
+  // Every student still studying, for scheduled re-scoring after data or model changes
+  rescoreAll?: boolean;
+  backtest?: boolean;
+  // Recorded on the prediction run; without other targets, importJobId scores every student the upload wrote
+  source?: 'manual' | 'import' | 'rollback' | 'retry' | 'scheduled';
+  importJobId?: string | null;
+  retryOf?: string | null;
+}
+
+interface RunOutcome {
+  student_count: number;
+  updated_count: number;
+  failed_student_ids: string[];
+  error_message?: string;
 }
 
 serve(async (req) => {
+  const corsHeaders = corsHeadersFor(req);
+
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -46,88 +100,207 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const { studentIds, processNewStudents } = await req.json();
+    const {
+      studentIds,
+      processNewStudents,
+      rescoreAll,
+      backtest,
+      source = 'manual',
+      importJobId = null,
+      retryOf = null,
+    }: PredictRequest = await req.json();
 
-    let students: Student[] = [];
+    const departments = await authorizeCaller(supabaseClient, req, rescoreAll ? RATE_LIMITS.rescoreAll : RATE_LIMITS.default);
 
-    if (processNewStudents) {
-      // Process all students without risk scores
-      const { data, error } = await supabaseClient
-        .from('students')
-        .select('*')
-        .is('risk_score', null);
+    const modelConfig = await loadActiveModelConfig(supabaseClient);
+    console.log(`Scoring with risk model ${formatModelVersion(modelConfig)}`);
+
+    const imputationTable = await loadImputationTable(supabaseClient, modelConfig);
+    const score = (student: Student) => predictDropoutRisk(
+      student,
+      modelConfig,
+      imputationValuesFor(imputationTable, student.department, modelConfig.imputation_strategy)
+    );
+
+    if (backtest) {
+      // Score students with recorded outcomes without writing anything back
+      const labelled = await fetchAllPages<Student>('students with outcomes', (from, to) =>
+        inDepartments(supabaseClient.from('students').select('*'), departments)
+          .not('outcome', 'is', null)
+          .order('id')
+          .range(from, to)
+      );
+
+      const results = labelled.map(student => {
+        const prediction = score(student);
+        return {
+          id: student.id,
+          outcome: student.outcome,
+          risk_score: prediction.risk_score,
+          risk_level: prediction.risk_level,
+        };
+      });
+
+      console.log(`Backtested ${results.length} students with recorded outcomes`);
 
-      if (error) {
-        console.error('Error fetching students:', error);
-        throw error;
-      }
-      students = data || [];
-    } else if (studentIds && studentIds.length > 0) {
-      // Process specific students
-      const { data, error } = await supabaseClient
-        .from('students')
-        .select('*')
-        .in('id', studentIds);
-
-      if (error) {
-        console.error('Error fetching specific students:', error);
-        throw error;
-      }
-      students = data || [];
-    } else {
+      return new Response(
+        JSON.stringify({
+          modelVersion: formatModelVersion(modelConfig),
+          riskLevels: modelConfig.thresholds.risk_levels,
+          results,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!processNewStudents && !rescoreAll && !(studentIds && studentIds.length > 0) && !importJobId) {
       return new Response(
         JSON.stringify({ error: 'No students specified for prediction' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    console.log(`Processing ${students.length} students for risk prediction`);
+    if (departments && studentIds && studentIds.length > 0) {
+      await checkStudentDepartments(supabaseClient, studentIds, departments);
+    }
 
-    const predictions: { id: string; prediction: PredictionResult }[] = [];
+    const run = await startRun(supabaseClient, {
+      trigger_source: source,
+      import_job_id: importJobId,
+      retry_of: retryOf,
+      model_version: formatModelVersion(modelConfig),
+    });
 
-    for (const student of students) {
-      const prediction = predictDropoutRisk(student);
-      predictions.push({ id: student.id, prediction });
-    }
+    const outcome: RunOutcome = { student_count: 0, updated_count: 0, failed_student_ids: [] };
+
+    try {
+      let students: Student[] = [];
+
+      if (rescoreAll) {
+        // Students with a recorded outcome other than enrolled have left and keep their last score
+        students = await fetchAllPages<Student>('active students', (from, to) =>
+          inDepartments(supabaseClient.from('students').select('*'), departments)
+            .or('outcome.is.null,outcome.eq.enrolled')
+            .order('id')
+            .range(from, to)
+        );
+      } else if (processNewStudents) {
+        // Process all students without risk scores
+        students = await fetchAllPages<Student>('students', (from, to) =>
+          inDepartments(supabaseClient.from('students').select('*'), departments)
+            .is('risk_score', null)
+            .order('id')
+            .range(from, to)
+        );
+      } else if (studentIds && studentIds.length > 0) {
+        // Process specific students
+        const { data, error } = await supabaseClient
+          .from('students')
+          .select('*')
+          .in('id', studentIds);
 
-    // Update students with predictions in batches
-    const batchSize = 50;
-    let updatedCount = 0;
-
-    for (let i = 0; i < predictions.length; i += batchSize) {
-      const batch = predictions.slice(i, i + batchSize);
-      
-      const updates = batch.map(({ id, prediction }) => ({
-        id,
-        risk_score: prediction.risk_score,
-        risk_level: prediction.risk_level,
-        prediction_factors: prediction.prediction_factors,
-      }));
-
-      const { error } = await supabaseClient
-        .from('students')
-        .upsert(updates);
-
-      if (error) {
-        console.error('Error updating batch:', error);
-        // Continue with other batches
+        if (error) {
+          console.error('Error fetching specific students:', error);
+          throw error;
+        }
+        students = data || [];
       } else {
-        updatedCount += batch.length;
+        // Process every student an upload added or changed, once it has finished writing
+        students = await fetchAllPages<Student>('students from import', (from, to) =>
+          inDepartments(supabaseClient.from('students').select('*'), departments)
+            .eq('import_job_id', importJobId)
+            .order('id')
+            .range(from, to)
+        );
       }
+
+      console.log(`Processing ${students.length} students for risk prediction`);
+      outcome.student_count = students.length;
+
+      const predictions: { student: Student; prediction: PredictionResult }[] = [];
+
+      for (const student of students) {
+        const prediction = score(student);
+        predictions.push({ student, prediction });
+      }
+
+      // Update students with predictions in batches
+      const batchSize = 50;
+
+      for (let i = 0; i < predictions.length; i += batchSize) {
+        const batch = predictions.slice(i, i + batchSize);
+
+        // Rows are updated individually: an upsert of partial rows trips the NOT NULL columns on its insert path
+        const results = await Promise.all(batch.map(({ student, prediction }) =>
+          supabaseClient
+            .from('students')
+            .update({
+              risk_score: prediction.risk_score,
+              risk_level: prediction.risk_level,
+              prediction_factors: prediction.prediction_factors,
+            })
+            .eq('id', student.id)
+        ));
+
+        const updated = batch.filter((_, index) => !results[index].error);
+        const failed = batch.filter((_, index) => results[index].error);
+
+        if (failed.length > 0) {
+          console.error('Error updating batch:', results.find(result => result.error)?.error);
+          outcome.failed_student_ids.push(...failed.map(({ student }) => student.id));
+        }
+
+        if (updated.length === 0) continue;
+        outcome.updated_count += updated.length;
+
+        // Keep a history row per prediction so earlier scores are not lost
+        const assessments = updated.map(({ student, prediction }) => ({
+          student_id: student.id,
+          risk_score: prediction.risk_score,
+          risk_level: prediction.risk_level,
+          prediction_factors: prediction.prediction_factors,
+          model_version: prediction.prediction_factors.model_version,
+          semester: student.semester,
+          input_snapshot: buildInputSnapshot(student),
+        }));
+
+        const { error: historyError } = await supabaseClient
+          .from('risk_assessments')
+          .insert(assessments);
+
+        if (historyError) {
+          console.error('Error recording risk assessments:', historyError);
+        }
+      }
+    } catch (error) {
+      await finishRun(supabaseClient, run, { ...outcome, error_message: error.message || 'Failed to process predictions' });
+      throw error;
     }
 
-    console.log(`Updated ${updatedCount} students with risk predictions`);
+    await finishRun(supabaseClient, run, outcome);
+    console.log(`Updated ${outcome.updated_count} students with risk predictions`);
 
     return new Response(
       JSON.stringify({
-        message: `Successfully processed ${updatedCount} students`,
-        processedCount: updatedCount,
-        totalCount: students.length,
+        message: `Successfully processed ${outcome.updated_count} students`,
+        runId: run.id,
+        processedCount: outcome.updated_count,
+        failedCount: outcome.failed_student_ids.length,
+        totalCount: outcome.student_count,
+        modelVersion: formatModelVersion(modelConfig),
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
+    if (error instanceof HttpError) {
+      const retryHeaders: Record<string, string> = error.retryAfter ? { 'Retry-After': String(error.retryAfter) } : {};
+      return new Response(
+        JSON.stringify({ error: error.message, retryAfter: error.retryAfter }),
+        { status: error.status, headers: { ...corsHeaders, ...retryHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     console.error('Prediction error:', error);
     return new Response(
       JSON.stringify({ error: error.message || 'Failed to process predictions' }),
@@ -136,133 +309,225 @@ serve(async (req) => {
   }
 });
 
-function predictDropoutRisk(student: Student): PredictionResult {
-  // Feature weights based on educational research
-  const weights = {
-    attendance: 0.25,
-    academic: 0.20,
-    financial: 0.15,
-    behavioral: 0.15,
-    engagement: 0.10,
-    demographics: 0.15,
-  };
+async function fetchAllPages<T>(
+  description: string,
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += STUDENT_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + STUDENT_PAGE_SIZE - 1);
 
-  // Calculate individual factor scores (0-1, where 1 is high risk)
-  const attendanceRisk = calculateAttendanceRisk(student.attendance_percentage);
-  const academicRisk = calculateAcademicRisk(student.cgpa, student.sgpa);
-  const financialRisk = calculateFinancialRisk(student.fee_default, student.scholarship, student.family_income);
-  const behavioralRisk = calculateBehavioralRisk(student.disciplinary_actions);
-  const engagementRisk = calculateEngagementRisk(student.extracurriculars);
-  const demographicRisk = calculateDemographicRisk(student);
-
-  // Calculate weighted risk score
-  const riskScore = 
-    attendanceRisk * weights.attendance +
-    academicRisk * weights.academic +
-    financialRisk * weights.financial +
-    behavioralRisk * weights.behavioral +
-    engagementRisk * weights.engagement +
-    demographicRisk * weights.demographics;
-
-  // Determine risk level
-  let riskLevel: 'low' | 'medium' | 'high';
-  if (riskScore >= 0.7) {
-    riskLevel = 'high';
-  } else if (riskScore >= 0.4) {
-    riskLevel = 'medium';
-  } else {
-    riskLevel = 'low';
+    if (error) {
+      console.error(`Error fetching ${description}:`, error);
+      throw error;
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < STUDENT_PAGE_SIZE) break;
   }
-
-  return {
-    risk_score: Math.round(riskScore * 100) / 100, // Round to 2 decimal places
-    risk_level: riskLevel,
-    prediction_factors: {
-      attendance_impact: Math.round(attendanceRisk * 100) / 100,
-      academic_impact: Math.round(academicRisk * 100) / 100,
-      financial_impact: Math.round(financialRisk * 100) / 100,
-      behavioral_impact: Math.round(behavioralRisk * 100) / 100,
-      engagement_impact: Math.round(engagementRisk * 100) / 100,
-    },
-  };
+  return rows;
 }
 
-function calculateAttendanceRisk(attendance: number): number {
-  // Higher risk for lower attendance
-  if (attendance >= 90) return 0.1;
-  if (attendance >= 80) return 0.3;
-  if (attendance >= 70) return 0.5;
-  if (attendance >= 60) return 0.7;
-  return 0.9;
+function inDepartments<Query extends { in(column: string, values: string[]): Query }>(
+  query: Query,
+  departments: DepartmentScope
+): Query {
+  return departments ? query.in('department', departments) : query;
 }
 
-function calculateAcademicRisk(cgpa: number, sgpa: number): number {
-  const avgGpa = (cgpa + sgpa) / 2;
-  
-  // Higher risk for lower GPA
-  if (avgGpa >= 8.0) return 0.1;
-  if (avgGpa >= 7.0) return 0.2;
-  if (avgGpa >= 6.0) return 0.4;
-  if (avgGpa >= 5.0) return 0.6;
-  return 0.8;
-}
+// Checked before the run starts, so a refused request leaves no failed run behind
+async function checkStudentDepartments(
+  supabaseClient: ReturnType<typeof createClient>,
+  studentIds: string[],
+  departments: string[]
+) {
+  const { data, error } = await supabaseClient
+    .from('students')
+    .select('department')
+    .in('id', studentIds);
 
-function calculateFinancialRisk(feeDefault: boolean, scholarship: boolean, familyIncome?: number): number {
-  let risk = 0;
-  
-  // Fee default is a strong indicator
-  if (feeDefault) risk += 0.6;
-  
-  // Lack of scholarship for good students might indicate financial stress
-  if (!scholarship) risk += 0.2;
-  
-  // Family income factor (if available)
-  if (familyIncome !== undefined) {
-    if (familyIncome < 200000) risk += 0.3; // Low income
-    else if (familyIncome < 500000) risk += 0.1; // Medium income
+  if (error) {
+    console.error('Error checking student departments:', error);
+    throw error;
+  }
+  if ((data || []).some((student: { department: string }) => !departments.includes(student.department))) {
+    throw new HttpError(403, 'You can only score students in your departments');
   }
-  
-  return Math.min(risk, 1.0);
 }
 
-function calculateBehavioralRisk(disciplinaryActions: number): number {
-  // More disciplinary actions = higher risk
-  if (disciplinaryActions === 0) return 0.1;
-  if (disciplinaryActions === 1) return 0.4;
-  if (disciplinaryActions === 2) return 0.6;
-  return 0.8;
+// Trusted internal callers (import-students, the pg_cron schedule) send the service role key and skip the
+// role, department and rate checks; everyone else needs a signed-in, active user whose profile role may run predictions.
+async function authorizeCaller(
+  supabaseClient: ReturnType<typeof createClient>,
+  req: Request,
+  limit: { action: string; maxRequests: number; windowSeconds: number }
+): Promise<DepartmentScope> {
+  const origin = req.headers.get('Origin');
+  if (origin && !ALLOWED_ORIGINS.includes(origin)) {
+    throw new HttpError(403, 'Requests from this origin are not allowed');
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    throw new HttpError(401, 'Missing authorization token');
+  }
+  if (token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    return null;
+  }
+
+  const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token);
+  if (userError || !user) {
+    throw new HttpError(401, 'Your session has expired, please sign in again');
+  }
+
+  const { data: profile, error: profileError } = await supabaseClient
+    .from('profiles')
+    .select('role, deactivated_at')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (profileError) {
+    console.error('Error fetching caller profile:', profileError);
+    throw profileError;
+  }
+  if (!profile || !PREDICTION_ROLES.includes(profile.role) || profile.deactivated_at) {
+    throw new HttpError(403, 'Your role does not allow running risk predictions');
+  }
+
+  const { data: retryAfter, error: limitError } = await supabaseClient.rpc('consume_rate_limit', {
+    target_user_id: user.id,
+    limit_action: limit.action,
+    max_requests: limit.maxRequests,
+    window_seconds: limit.windowSeconds,
+  });
+
+  if (limitError) {
+    console.error('Error checking rate limit:', limitError);
+    throw limitError;
+  }
+  if (retryAfter > 0) {
+    throw new HttpError(429, 'Too many prediction requests', retryAfter);
+  }
+
+  if (!DEPARTMENT_SCOPED_ROLES.includes(profile.role)) {
+    return null;
+  }
+
+  const { data: assignments, error: departmentsError } = await supabaseClient
+    .from('user_departments')
+    .select('department')
+    .eq('user_id', user.id);
+
+  if (departmentsError) {
+    console.error('Error fetching caller departments:', departmentsError);
+    throw departmentsError;
+  }
+  return (assignments || []).map((assignment: { department: string }) => assignment.department);
 }
 
-function calculateEngagementRisk(extracurriculars: number): number {
-  // Lack of engagement in extracurriculars can indicate disconnection
-  if (extracurriculars >= 3) return 0.1;
-  if (extracurriculars >= 2) return 0.2;
-  if (extracurriculars >= 1) return 0.3;
-  return 0.5; // No extracurriculars
+async function startRun(
+  supabaseClient: ReturnType<typeof createClient>,
+  run: Record<string, unknown>
+): Promise<{ id: string; started_at: string }> {
+  const { data, error } = await supabaseClient
+    .from('prediction_runs')
+    .insert(run)
+    .select('id, started_at')
+    .single();
+
+  if (error) {
+    console.error('Error recording prediction run:', error);
+    throw error;
+  }
+  return data;
 }
 
-function calculateDemographicRisk(student: Student): number {
-  let risk = 0;
-  
-  // Distance from home
-  if (student.distance_from_home && student.distance_from_home > 500) {
-    risk += 0.2;
+async function finishRun(
+  supabaseClient: ReturnType<typeof createClient>,
+  run: { id: string; started_at: string },
+  outcome: RunOutcome
+) {
+  const failed = outcome.error_message !== undefined || (outcome.updated_count === 0 && outcome.student_count > 0);
+  const finishedAt = new Date();
+
+  const { error } = await supabaseClient
+    .from('prediction_runs')
+    .update({
+      ...outcome,
+      status: failed ? 'failed' : outcome.failed_student_ids.length > 0 ? 'partial' : 'completed',
+      finished_at: finishedAt.toISOString(),
+      duration_ms: finishedAt.getTime() - new Date(run.started_at).getTime(),
+    })
+    .eq('id', run.id);
+
+  if (error) {
+    console.error('Error completing prediction run:', error);
   }
-  
-  // Hostel accommodation without family support
-  if (student.hostel_accommodation) {
-    risk += 0.1;
+}
+
+async function loadActiveModelConfig(
+  supabaseClient: ReturnType<typeof createClient>
+): Promise<RiskModelConfig> {
+  const { data, error } = await supabaseClient
+    .from('risk_model_configs')
+    .select('id, name, version, model_type, coefficients, weights, thresholds, imputation_strategy')
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching active risk model config:', error);
+    throw error;
   }
-  
-  // Previous education gap
-  if (student.previous_education_gap) {
-    risk += 0.3;
+
+  if (!data) {
+    console.warn('No active risk model config found, falling back to built-in defaults');
+    return { id: null, ...BUILTIN_MODEL };
   }
-  
-  // Later semester students have different risk patterns
-  if (student.semester > 6) {
-    risk += 0.1; // Closer to graduation, higher stakes
+
+  return {
+    id: data.id,
+    name: data.name,
+    version: data.version,
+    model_type: data.model_type,
+    coefficients: data.coefficients,
+    imputation_strategy: data.imputation_strategy,
+    ...withDefaults(data.weights, data.thresholds),
+  };
+}
+
+// Medians come from every student on record, not just the ones being scored in this request
+async function loadImputationTable(
+  supabaseClient: ReturnType<typeof createClient>,
+  modelConfig: RiskModelConfig
+): Promise<ImputationTable> {
+  if (modelConfig.imputation_strategy === 'neutral') {
+    return { global: {}, departments: {} };
   }
-  
-  return Math.min(risk, 1.0);
-}
\ No newline at end of file
+
+  const students = await fetchAllPages<ImputationRow>('students for imputation', (from, to) =>
+    supabaseClient
+      .from('students')
+      .select('department, attendance_percentage, cgpa, sgpa, family_income, distance_from_home')
+      .order('id')
+      .range(from, to)
+  );
+
+  return buildImputationTable(students);
+}
+
+// The model inputs as they were when scored, so history stays explainable after the row changes
+function buildInputSnapshot(student: Student): ScoringInput {
+  return {
+    attendance_percentage: student.attendance_percentage,
+    cgpa: student.cgpa,
+    sgpa: student.sgpa,
+    fee_default: student.fee_default,
+    disciplinary_actions: student.disciplinary_actions,
+    scholarship: student.scholarship,
+    extracurriculars: student.extracurriculars,
+    semester: student.semester,
+    family_income: student.family_income,
+    distance_from_home: student.distance_from_home,
+    hostel_accommodation: student.hostel_accommodation,
+    previous_education_gap: student.previous_education_gap,
+  };
+}
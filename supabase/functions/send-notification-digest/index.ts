@@ -0,0 +1,239 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+// How digests leave the building: 'none' keeps reminders in-app only, 'log' prints them,
+// 'smtp' sends through SMTP_HOST. For local development point SMTP at the Inbucket catcher
+// (SMTP_HOST=host.docker.internal, SMTP_PORT=54325) and read the mail at http://localhost:54324.
+const MAIL_TRANSPORT = Deno.env.get('MAIL_TRANSPORT') ?? 'none';
+const MAIL_FROM = Deno.env.get('MAIL_FROM') ?? 'Student Risk Monitor <no-reply@localhost>';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+type NotificationKind = 'follow_up_due' | 'risk_escalation';
+
+interface PendingNotification {
+  id: string;
+  user_id: string;
+  kind: NotificationKind;
+  title: string;
+  body: string | null;
+  link: string | null;
+  created_at: string;
+}
+
+// Each kind gets its own section of the email, in this order
+const DIGEST_SECTIONS: { kind: NotificationKind; heading: string; noun: string; plural: string }[] = [
+  { kind: 'risk_escalation', heading: 'These students have moved into a higher risk band:', noun: 'risk escalation', plural: 'risk escalations' },
+  { kind: 'follow_up_due', heading: 'These interventions are due for a follow-up:', noun: 'follow-up', plural: 'follow-ups' },
+];
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const jsonHeaders = { 'Content-Type': 'application/json' };
+
+serve(async (req) => {
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Only the scheduled job calls this, with the service role key
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    if (!token || token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+      throw new HttpError(403, 'Only the reminder job can send digests');
+    }
+
+    const transport = createMailTransport();
+    if (!transport) {
+      return new Response(
+        JSON.stringify({ transport: 'none', sentCount: 0 }),
+        { headers: jsonHeaders }
+      );
+    }
+
+    const result = await sendDigests(supabaseClient, transport);
+    return new Response(
+      JSON.stringify({ transport: transport.name, ...result }),
+      { headers: jsonHeaders }
+    );
+
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: jsonHeaders }
+      );
+    }
+
+    console.error('Notification digest error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to send notification digests' }),
+      { status: 500, headers: jsonHeaders }
+    );
+  }
+});
+
+function createMailTransport(): MailTransport | null {
+  switch (MAIL_TRANSPORT) {
+    case 'none':
+      return null;
+    case 'log':
+      return {
+        name: 'log',
+        send: async (message) => {
+          console.log(`Digest for ${message.to}: ${message.subject}\n${message.text}`);
+        },
+      };
+    case 'smtp':
+      return createSmtpTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${MAIL_TRANSPORT}"`);
+  }
+}
+
+function createSmtpTransport(): MailTransport {
+  const hostname = Deno.env.get('SMTP_HOST');
+  if (!hostname) {
+    throw new Error('SMTP_HOST must be set when MAIL_TRANSPORT is smtp');
+  }
+
+  const username = Deno.env.get('SMTP_USER');
+  const password = Deno.env.get('SMTP_PASS');
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      const client = new SMTPClient({
+        connection: {
+          hostname,
+          port: Number(Deno.env.get('SMTP_PORT') ?? 587),
+          tls: Deno.env.get('SMTP_TLS') === 'true',
+          auth: username && password ? { username, password } : undefined,
+        },
+      });
+
+      try {
+        await client.send({ from: MAIL_FROM, to: message.to, subject: message.subject, content: message.text });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+}
+
+// One email per person covering everything unread that has not been emailed yet
+async function sendDigests(supabaseClient: SupabaseClient, transport: MailTransport) {
+  const { data: notifications, error } = await supabaseClient
+    .from('notifications')
+    .select('id, user_id, kind, title, body, link, created_at')
+    .is('read_at', null)
+    .is('emailed_at', null)
+    .order('created_at');
+
+  if (error) {
+    console.error('Error fetching pending notifications:', error);
+    throw error;
+  }
+
+  const byUser = new Map<string, PendingNotification[]>();
+  for (const notification of (notifications || []) as PendingNotification[]) {
+    byUser.set(notification.user_id, [...(byUser.get(notification.user_id) ?? []), notification]);
+  }
+
+  if (byUser.size === 0) {
+    return { sentCount: 0, failedCount: 0 };
+  }
+
+  const { data: profiles, error: profilesError } = await supabaseClient
+    .from('profiles')
+    .select('user_id, email, display_name, email_digest, deactivated_at')
+    .in('user_id', [...byUser.keys()]);
+
+  if (profilesError) {
+    console.error('Error fetching recipients:', profilesError);
+    throw profilesError;
+  }
+
+  const appUrl = Deno.env.get('SITE_URL') ?? '';
+  let sentCount = 0;
+  let failedCount = 0;
+
+  for (const profile of profiles || []) {
+    if (!profile.email || !profile.email_digest || profile.deactivated_at) continue;
+
+    const pending = byUser.get(profile.user_id) ?? [];
+
+    try {
+      await transport.send({
+        to: profile.email,
+        subject: digestSubject(pending),
+        text: [
+          `Hello ${profile.display_name || profile.email},`,
+          '',
+          ...digestSections(pending, appUrl),
+          'You can turn these emails off from the notification bell.',
+        ].join('\n'),
+      });
+    } catch (sendError) {
+      // One bad address should not hold up everyone else's digest
+      console.error(`Error sending digest to ${profile.email}:`, sendError);
+      failedCount++;
+      continue;
+    }
+
+    const { error: updateError } = await supabaseClient
+      .from('notifications')
+      .update({ emailed_at: new Date().toISOString() })
+      .in('id', pending.map(n => n.id));
+
+    if (updateError) {
+      console.error('Error marking notifications as emailed:', updateError);
+    }
+    sentCount++;
+  }
+
+  console.log(`Sent ${sentCount} notification digests via ${transport.name}, ${failedCount} failed`);
+  return { sentCount, failedCount };
+}
+
+function digestSubject(pending: PendingNotification[]): string {
+  if (pending.length === 1) return pending[0].title;
+
+  const counts = DIGEST_SECTIONS
+    .map(section => ({ section, count: pending.filter(n => n.kind === section.kind).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ section, count }) => `${count} ${count === 1 ? section.noun : section.plural}`);
+  return `${counts.join(' and ')} need your attention`;
+}
+
+// Every notification links to its own page, e.g. the student it is about
+function digestSections(pending: PendingNotification[], appUrl: string): string[] {
+  return DIGEST_SECTIONS.flatMap(section => {
+    const items = pending.filter(n => n.kind === section.kind);
+    if (items.length === 0) return [];
+
+    const lines = items.map(n => [
+      `- ${n.title}`,
+      ...(n.body ? [`  ${n.body}`] : []),
+      ...(appUrl && n.link ? [`  ${appUrl}${n.link}`] : []),
+    ].join('\n'));
+    return [section.heading, '', ...lines, ''];
+  });
+}
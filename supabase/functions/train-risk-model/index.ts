@@ -0,0 +1,221 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { LogisticFeatureSource, fitLogisticRegression } from '../_shared/logisticRegression.ts';
+
+// Comma-separated app URLs allowed to call this function from a browser, e.g. https://risk.example.edu
+const ALLOWED_ORIGINS = (Deno.env.get('ALLOWED_ORIGINS') ?? '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Fewer labelled students than this gives coefficients too noisy to score with
+const MIN_TRAINING_SAMPLES = 20;
+
+const STUDENT_PAGE_SIZE = 1000;
+
+interface LabelledStudent extends LogisticFeatureSource {
+  outcome: 'enrolled' | 'graduated' | 'dropped_out';
+}
+
+interface TrainRequest {
+  name?: string;
+  description?: string;
+  includeEnrolled?: boolean;
+  activate?: boolean;
+  iterations?: number;
+  learningRate?: number;
+  l2?: number;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function corsHeadersFor(req: Request): Record<string, string> {
+  const origin = req.headers.get('Origin');
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Vary': 'Origin',
+  };
+  if (origin && ALLOWED_ORIGINS.includes(origin)) {
+    headers['Access-Control-Allow-Origin'] = origin;
+  }
+  return headers;
+}
+
+serve(async (req) => {
+  const corsHeaders = corsHeadersFor(req);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    await authorizeAdmin(supabaseClient, req);
+
+    const {
+      name = 'logistic',
+      description,
+      includeEnrolled = false,
+      activate = false,
+      iterations,
+      learningRate,
+      l2,
+    }: TrainRequest = await req.json();
+
+    // Dropped out is the positive class; graduates (and optionally current students) are negatives
+    const outcomes = includeEnrolled ? ['dropped_out', 'graduated', 'enrolled'] : ['dropped_out', 'graduated'];
+
+    // Responses are capped in size, so the training set is read a page at a time
+    const students: LabelledStudent[] = [];
+    for (let from = 0; ; from += STUDENT_PAGE_SIZE) {
+      const { data, error } = await supabaseClient
+        .from('students')
+        .select('*')
+        .in('outcome', outcomes)
+        .order('id')
+        .range(from, from + STUDENT_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching labelled students:', error);
+        throw error;
+      }
+      students.push(...(data || []));
+      if (!data || data.length < STUDENT_PAGE_SIZE) break;
+    }
+
+    const labels = students.map(student => (student.outcome === 'dropped_out' ? 1 : 0));
+    const positives = labels.filter(label => label === 1).length;
+
+    if (students.length < MIN_TRAINING_SAMPLES || positives === 0 || positives === students.length) {
+      return new Response(
+        JSON.stringify({
+          error: `Training needs at least ${MIN_TRAINING_SAMPLES} students with recorded outcomes, including both dropouts and non-dropouts (found ${students.length}, ${positives} dropped out)`,
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Training logistic regression on ${students.length} students (${positives} dropped out)`);
+
+    const { coefficients, metrics } = fitLogisticRegression(students, labels, { iterations, learningRate, l2 });
+
+    const { data: latest, error: versionError } = await supabaseClient
+      .from('risk_model_configs')
+      .select('version')
+      .eq('name', name)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (versionError) {
+      console.error('Error fetching latest model version:', versionError);
+      throw versionError;
+    }
+
+    // Trained models still carry the active config's weights, cut-offs and imputation so they can be cloned and edited
+    const { data: active } = await supabaseClient
+      .from('risk_model_configs')
+      .select('weights, thresholds, imputation_strategy')
+      .eq('is_active', true)
+      .maybeSingle();
+
+    const { data: config, error: insertError } = await supabaseClient
+      .from('risk_model_configs')
+      .insert({
+        name,
+        version: (latest?.version ?? 0) + 1,
+        description: description ?? `Trained on ${students.length} recorded outcomes`,
+        model_type: 'logistic_regression',
+        weights: active?.weights ?? {},
+        thresholds: active?.thresholds ?? {},
+        imputation_strategy: active?.imputation_strategy ?? 'department_median',
+        coefficients,
+        training_metrics: { ...metrics, include_enrolled: includeEnrolled, trained_at: new Date().toISOString() },
+      })
+      .select('id, name, version')
+      .single();
+
+    if (insertError) {
+      console.error('Error saving trained model:', insertError);
+      throw insertError;
+    }
+
+    if (activate) {
+      const { error: activateError } = await supabaseClient.rpc('activate_risk_model_config', { config_id: config.id });
+      if (activateError) {
+        console.error('Error activating trained model:', activateError);
+        throw activateError;
+      }
+    }
+
+    console.log(`Saved trained model ${config.name}@v${config.version}`);
+
+    return new Response(
+      JSON.stringify({
+        message: `Trained ${config.name}@v${config.version} on ${students.length} students`,
+        modelVersion: `${config.name}@v${config.version}`,
+        configId: config.id,
+        activated: activate,
+        metrics,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.error('Training error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to train risk model' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+// Training writes and can activate model configs, so only signed-in, active admins may call it
+async function authorizeAdmin(supabaseClient: SupabaseClient, req: Request): Promise<void> {
+  const origin = req.headers.get('Origin');
+  if (origin && !ALLOWED_ORIGINS.includes(origin)) {
+    throw new HttpError(403, 'Requests from this origin are not allowed');
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    throw new HttpError(401, 'Missing authorization token');
+  }
+
+  const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token);
+  if (userError || !user) {
+    throw new HttpError(401, 'Your session has expired, please sign in again');
+  }
+
+  const { data: profile, error: profileError } = await supabaseClient
+    .from('profiles')
+    .select('role, deactivated_at')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (profileError) {
+    console.error('Error fetching caller profile:', profileError);
+    throw profileError;
+  }
+  if (!profile || profile.role !== 'admin' || profile.deactivated_at) {
+    throw new HttpError(403, 'Only admins can train risk models');
+  }
+}
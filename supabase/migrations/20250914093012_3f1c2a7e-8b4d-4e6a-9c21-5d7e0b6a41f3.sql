@@ -0,0 +1,134 @@
+-- Create table for named, versioned risk model configurations
+CREATE TABLE public.risk_model_configs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  version INTEGER NOT NULL CHECK (version > 0),
+  description TEXT,
+  weights JSONB NOT NULL,
+  thresholds JSONB NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (name, version)
+);
+
+-- Only one configuration can be active at a time
+CREATE UNIQUE INDEX idx_risk_model_configs_single_active
+  ON public.risk_model_configs (is_active)
+  WHERE is_active;
+
+-- Enable Row Level Security
+ALTER TABLE public.risk_model_configs ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for risk_model_configs table
+CREATE POLICY "Authenticated users can view risk model configs" 
+ON public.risk_model_configs 
+FOR SELECT 
+TO authenticated 
+USING (true);
+
+CREATE POLICY "Authenticated users can insert risk model configs" 
+ON public.risk_model_configs 
+FOR INSERT 
+TO authenticated 
+WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update risk model configs" 
+ON public.risk_model_configs 
+FOR UPDATE 
+TO authenticated 
+USING (true);
+
+CREATE TRIGGER update_risk_model_configs_updated_at
+  BEFORE UPDATE ON public.risk_model_configs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Activate a configuration, deactivating whichever one was active before
+CREATE OR REPLACE FUNCTION public.activate_risk_model_config(config_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.risk_model_configs WHERE id = config_id) THEN
+    RAISE EXCEPTION 'Risk model config % does not exist', config_id;
+  END IF;
+
+  UPDATE public.risk_model_configs SET is_active = false WHERE is_active AND id <> config_id;
+  UPDATE public.risk_model_configs SET is_active = true WHERE id = config_id;
+END;
+$$;
+
+-- Seed the heuristic weights and thresholds previously hard-coded in predict-dropout-risk
+INSERT INTO public.risk_model_configs (name, version, description, weights, thresholds, is_active)
+VALUES (
+  'default',
+  1,
+  'Initial research-based heuristic weights',
+  '{
+    "attendance": 0.25,
+    "academic": 0.20,
+    "financial": 0.15,
+    "behavioral": 0.15,
+    "engagement": 0.10,
+    "demographics": 0.15
+  }'::jsonb,
+  '{
+    "risk_levels": { "high": 0.7, "medium": 0.4 },
+    "attendance": {
+      "bands": [
+        { "min": 90, "risk": 0.1 },
+        { "min": 80, "risk": 0.3 },
+        { "min": 70, "risk": 0.5 },
+        { "min": 60, "risk": 0.7 }
+      ],
+      "fallback": 0.9
+    },
+    "academic": {
+      "bands": [
+        { "min": 8.0, "risk": 0.1 },
+        { "min": 7.0, "risk": 0.2 },
+        { "min": 6.0, "risk": 0.4 },
+        { "min": 5.0, "risk": 0.6 }
+      ],
+      "fallback": 0.8
+    },
+    "behavioral": {
+      "bands": [
+        { "min": 3, "risk": 0.8 },
+        { "min": 2, "risk": 0.6 },
+        { "min": 1, "risk": 0.4 }
+      ],
+      "fallback": 0.1
+    },
+    "engagement": {
+      "bands": [
+        { "min": 3, "risk": 0.1 },
+        { "min": 2, "risk": 0.2 },
+        { "min": 1, "risk": 0.3 }
+      ],
+      "fallback": 0.5
+    },
+    "financial": {
+      "fee_default": 0.6,
+      "no_scholarship": 0.2,
+      "low_income_below": 200000,
+      "low_income": 0.3,
+      "medium_income_below": 500000,
+      "medium_income": 0.1
+    },
+    "demographics": {
+      "distance_above": 500,
+      "distance": 0.2,
+      "hostel": 0.1,
+      "education_gap": 0.3,
+      "late_semester_above": 6,
+      "late_semester": 0.1
+    }
+  }'::jsonb,
+  true
+);
+
+CREATE INDEX idx_risk_model_configs_name ON public.risk_model_configs(name);
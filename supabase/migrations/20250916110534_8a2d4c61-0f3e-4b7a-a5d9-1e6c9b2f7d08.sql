@@ -0,0 +1,25 @@
+-- Create risk_assessments table to keep every prediction run instead of only the latest
+CREATE TABLE public.risk_assessments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  risk_score DECIMAL(3,2) NOT NULL CHECK (risk_score >= 0 AND risk_score <= 1),
+  risk_level risk_level NOT NULL,
+  prediction_factors JSONB NOT NULL,
+  model_version TEXT NOT NULL,
+  semester INTEGER NOT NULL CHECK (semester > 0),
+  input_snapshot JSONB NOT NULL,
+  assessed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.risk_assessments ENABLE ROW LEVEL SECURITY;
+
+-- Assessments are written by the prediction function with the service role key
+CREATE POLICY "Authenticated users can view risk assessments" 
+ON public.risk_assessments 
+FOR SELECT 
+TO authenticated 
+USING (true);
+
+CREATE INDEX idx_risk_assessments_student_id_assessed_at ON public.risk_assessments(student_id, assessed_at);
+CREATE INDEX idx_risk_assessments_model_version ON public.risk_assessments(model_version);
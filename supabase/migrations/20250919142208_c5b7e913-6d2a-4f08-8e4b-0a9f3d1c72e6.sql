@@ -0,0 +1,20 @@
+-- Create enum for recorded student outcomes
+CREATE TYPE public.student_outcome AS ENUM ('enrolled', 'graduated', 'dropped_out');
+
+-- Create enum for the kind of scoring a risk model config uses
+CREATE TYPE public.risk_model_type AS ENUM ('heuristic', 'logistic_regression');
+
+-- Record what actually happened to each student so models can be trained on it
+ALTER TABLE public.students
+  ADD COLUMN outcome student_outcome,
+  ADD COLUMN outcome_recorded_at TIMESTAMP WITH TIME ZONE;
+
+-- Trained models are stored as risk model config versions alongside the heuristic ones
+ALTER TABLE public.risk_model_configs
+  ADD COLUMN model_type risk_model_type NOT NULL DEFAULT 'heuristic',
+  ADD COLUMN coefficients JSONB,
+  ADD COLUMN training_metrics JSONB,
+  ADD CONSTRAINT risk_model_configs_coefficients_required
+    CHECK (model_type = 'heuristic' OR coefficients IS NOT NULL);
+
+CREATE INDEX idx_students_outcome ON public.students(outcome);
@@ -0,0 +1,11 @@
+-- Create enum for how missing model inputs are filled in before scoring
+CREATE TYPE public.imputation_strategy AS ENUM ('department_median', 'global_median', 'neutral');
+
+ALTER TABLE public.risk_model_configs
+  ADD COLUMN imputation_strategy imputation_strategy NOT NULL DEFAULT 'department_median';
+
+-- Missing academic values are stored as NULL instead of being coerced to 0 on upload
+ALTER TABLE public.students
+  ALTER COLUMN attendance_percentage DROP NOT NULL,
+  ALTER COLUMN cgpa DROP NOT NULL,
+  ALTER COLUMN sgpa DROP NOT NULL;
@@ -0,0 +1,43 @@
+-- Create table for named upload column mappings, one per recurring data source
+CREATE TABLE public.import_mapping_presets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  source_headers TEXT[] NOT NULL DEFAULT '{}',
+  mapping JSONB NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.import_mapping_presets ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for import_mapping_presets table
+CREATE POLICY "Authenticated users can view import mapping presets" 
+ON public.import_mapping_presets 
+FOR SELECT 
+TO authenticated 
+USING (true);
+
+CREATE POLICY "Authenticated users can insert import mapping presets" 
+ON public.import_mapping_presets 
+FOR INSERT 
+TO authenticated 
+WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update import mapping presets" 
+ON public.import_mapping_presets 
+FOR UPDATE 
+TO authenticated 
+USING (true);
+
+CREATE POLICY "Authenticated users can delete import mapping presets" 
+ON public.import_mapping_presets 
+FOR DELETE 
+TO authenticated 
+USING (true);
+
+CREATE TRIGGER update_import_mapping_presets_updated_at
+  BEFORE UPDATE ON public.import_mapping_presets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
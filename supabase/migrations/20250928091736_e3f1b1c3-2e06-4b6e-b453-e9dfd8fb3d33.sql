@@ -0,0 +1,152 @@
+-- Create enums for upload history
+CREATE TYPE public.import_job_status AS ENUM ('processing', 'completed', 'failed', 'rolled_back');
+CREATE TYPE public.import_mode AS ENUM ('insert', 'update', 'upsert');
+CREATE TYPE public.import_change_action AS ENUM ('insert', 'update');
+
+-- Create table recording every upload
+CREATE TABLE public.import_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_name TEXT NOT NULL,
+  sheet_name TEXT,
+  mode import_mode NOT NULL,
+  column_mapping JSONB NOT NULL,
+  status import_job_status NOT NULL DEFAULT 'processing',
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  inserted_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  unchanged_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  rejected_count INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  rolled_back_at TIMESTAMP WITH TIME ZONE,
+  rolled_back_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create table of the student rows each upload created or changed, with the values it overwrote
+CREATE TABLE public.import_job_changes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.import_jobs(id) ON DELETE CASCADE,
+  student_id UUID REFERENCES public.students(id) ON DELETE SET NULL,
+  action import_change_action NOT NULL,
+  previous_values JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Link each student to the upload that last wrote it
+ALTER TABLE public.students
+  ADD COLUMN import_job_id UUID REFERENCES public.import_jobs(id) ON DELETE SET NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_job_changes ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for import_jobs table
+CREATE POLICY "Authenticated users can view import jobs"
+ON public.import_jobs
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can insert import jobs"
+ON public.import_jobs
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update import jobs"
+ON public.import_jobs
+FOR UPDATE
+TO authenticated
+USING (true);
+
+-- RLS policies for import_job_changes table
+CREATE POLICY "Authenticated users can view import job changes"
+ON public.import_job_changes
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can insert import job changes"
+ON public.import_job_changes
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE TRIGGER update_import_jobs_updated_at
+  BEFORE UPDATE ON public.import_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Undo an upload: delete the students it created and restore the values it overwrote.
+-- Refuses when a later upload has since written the same students, as restoring would discard that upload's changes.
+CREATE OR REPLACE FUNCTION public.rollback_import_job(target_job_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  job_status import_job_status;
+  overwritten INTEGER;
+BEGIN
+  -- Undoing a whole upload rewrites students other users may have uploaded, so only admins may do it
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can roll back uploads' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT status INTO job_status FROM public.import_jobs WHERE id = target_job_id FOR UPDATE;
+
+  IF job_status IS NULL THEN
+    RAISE EXCEPTION 'Import job % does not exist', target_job_id;
+  END IF;
+
+  IF job_status = 'rolled_back' THEN
+    RAISE EXCEPTION 'Import job % has already been rolled back', target_job_id;
+  END IF;
+
+  SELECT count(*) INTO overwritten
+  FROM public.import_job_changes c
+  JOIN public.students s ON s.id = c.student_id
+  WHERE c.job_id = target_job_id
+    AND s.import_job_id IS DISTINCT FROM target_job_id;
+
+  IF overwritten > 0 THEN
+    RAISE EXCEPTION '% students from this upload were changed by a later upload; roll that upload back first', overwritten;
+  END IF;
+
+  DELETE FROM public.students s
+  USING public.import_job_changes c
+  WHERE c.job_id = target_job_id
+    AND c.action = 'insert'
+    AND c.student_id = s.id;
+
+  UPDATE public.students s
+  SET (
+    name, email, student_id, department, semester, gender,
+    attendance_percentage, cgpa, sgpa, fee_default, disciplinary_actions, scholarship,
+    extracurriculars, family_income, distance_from_home, hostel_accommodation,
+    previous_education_gap, import_job_id
+  ) = (
+    SELECT
+      r.name, r.email, r.student_id, r.department, r.semester, r.gender,
+      r.attendance_percentage, r.cgpa, r.sgpa, r.fee_default, r.disciplinary_actions, r.scholarship,
+      r.extracurriculars, r.family_income, r.distance_from_home, r.hostel_accommodation,
+      r.previous_education_gap, r.import_job_id
+    FROM jsonb_populate_record(NULL::public.students, to_jsonb(s) || c.previous_values) r
+  )
+  FROM public.import_job_changes c
+  WHERE c.job_id = target_job_id
+    AND c.action = 'update'
+    AND c.student_id = s.id;
+
+  UPDATE public.import_jobs
+  SET status = 'rolled_back', rolled_back_at = now(), rolled_back_by = auth.uid()
+  WHERE id = target_job_id;
+END;
+$$;
+
+CREATE INDEX idx_import_jobs_created_at ON public.import_jobs(created_at);
+CREATE INDEX idx_import_job_changes_job_id ON public.import_job_changes(job_id);
+CREATE INDEX idx_students_import_job_id ON public.students(import_job_id);
@@ -0,0 +1,97 @@
+-- Uploads are written by the import-students edge function; queued jobs wait for it to pick them up
+ALTER TYPE public.import_job_status ADD VALUE IF NOT EXISTS 'queued' BEFORE 'processing';
+
+ALTER TABLE public.import_jobs
+  ADD COLUMN storage_path TEXT,
+  ADD COLUMN processed_rows INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN failure_reason TEXT;
+
+-- Private bucket holding the reviewed rows of each upload until the function has processed them
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('imports', 'imports', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Authenticated users can upload import files"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'imports');
+
+CREATE POLICY "Authenticated users can view import files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'imports');
+
+-- Stream job progress to the Upload page
+ALTER PUBLICATION supabase_realtime ADD TABLE public.import_jobs;
+
+-- Rolling back a job the function is still writing would race with it
+CREATE OR REPLACE FUNCTION public.rollback_import_job(target_job_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  job_status import_job_status;
+  overwritten INTEGER;
+BEGIN
+  -- Undoing a whole upload rewrites students other users may have uploaded, so only admins may do it
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can roll back uploads' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT status INTO job_status FROM public.import_jobs WHERE id = target_job_id FOR UPDATE;
+
+  IF job_status IS NULL THEN
+    RAISE EXCEPTION 'Import job % does not exist', target_job_id;
+  END IF;
+
+  IF job_status = 'rolled_back' THEN
+    RAISE EXCEPTION 'Import job % has already been rolled back', target_job_id;
+  END IF;
+
+  IF job_status IN ('queued', 'processing') THEN
+    RAISE EXCEPTION 'Import job % is still running', target_job_id;
+  END IF;
+
+  SELECT count(*) INTO overwritten
+  FROM public.import_job_changes c
+  JOIN public.students s ON s.id = c.student_id
+  WHERE c.job_id = target_job_id
+    AND s.import_job_id IS DISTINCT FROM target_job_id;
+
+  IF overwritten > 0 THEN
+    RAISE EXCEPTION '% students from this upload were changed by a later upload; roll that upload back first', overwritten;
+  END IF;
+
+  DELETE FROM public.students s
+  USING public.import_job_changes c
+  WHERE c.job_id = target_job_id
+    AND c.action = 'insert'
+    AND c.student_id = s.id;
+
+  UPDATE public.students s
+  SET (
+    name, email, student_id, department, semester, gender,
+    attendance_percentage, cgpa, sgpa, fee_default, disciplinary_actions, scholarship,
+    extracurriculars, family_income, distance_from_home, hostel_accommodation,
+    previous_education_gap, import_job_id
+  ) = (
+    SELECT
+      r.name, r.email, r.student_id, r.department, r.semester, r.gender,
+      r.attendance_percentage, r.cgpa, r.sgpa, r.fee_default, r.disciplinary_actions, r.scholarship,
+      r.extracurriculars, r.family_income, r.distance_from_home, r.hostel_accommodation,
+      r.previous_education_gap, r.import_job_id
+    FROM jsonb_populate_record(NULL::public.students, to_jsonb(s) || c.previous_values) r
+  )
+  FROM public.import_job_changes c
+  WHERE c.job_id = target_job_id
+    AND c.action = 'update'
+    AND c.student_id = s.id;
+
+  UPDATE public.import_jobs
+  SET status = 'rolled_back', rolled_back_at = now(), rolled_back_by = auth.uid()
+  WHERE id = target_job_id;
+END;
+$$;
@@ -0,0 +1,33 @@
+-- Create enums for prediction run tracking
+CREATE TYPE public.prediction_run_status AS ENUM ('running', 'completed', 'partial', 'failed');
+CREATE TYPE public.prediction_trigger AS ENUM ('manual', 'import', 'rollback', 'retry');
+
+-- Create table recording every scoring run of predict-dropout-risk
+CREATE TABLE public.prediction_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  trigger_source prediction_trigger NOT NULL DEFAULT 'manual',
+  import_job_id UUID REFERENCES public.import_jobs(id) ON DELETE SET NULL,
+  retry_of UUID REFERENCES public.prediction_runs(id) ON DELETE SET NULL,
+  status prediction_run_status NOT NULL DEFAULT 'running',
+  model_version TEXT,
+  student_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  failed_student_ids UUID[] NOT NULL DEFAULT '{}',
+  error_message TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  duration_ms INTEGER
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.prediction_runs ENABLE ROW LEVEL SECURITY;
+
+-- Runs are written by the prediction function with the service role key
+CREATE POLICY "Authenticated users can view prediction runs"
+ON public.prediction_runs
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE INDEX idx_prediction_runs_started_at ON public.prediction_runs(started_at);
+CREATE INDEX idx_prediction_runs_import_job_id ON public.prediction_runs(import_job_id);
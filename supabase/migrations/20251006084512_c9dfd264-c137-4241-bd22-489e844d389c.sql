@@ -0,0 +1,89 @@
+-- Scheduled re-scoring of every active student with the current model
+ALTER TYPE public.prediction_trigger ADD VALUE IF NOT EXISTS 'scheduled';
+
+CREATE TYPE public.rescoring_frequency AS ENUM ('disabled', 'daily', 'weekly');
+
+-- Single-row table holding the re-scoring schedule
+CREATE TABLE public.rescoring_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  frequency rescoring_frequency NOT NULL DEFAULT 'daily',
+  run_hour INTEGER NOT NULL DEFAULT 2 CHECK (run_hour >= 0 AND run_hour <= 23),
+  -- Day of week for weekly runs, 0 = Sunday
+  run_day INTEGER NOT NULL DEFAULT 0 CHECK (run_day >= 0 AND run_day <= 6),
+  last_triggered_at TIMESTAMP WITH TIME ZONE,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.rescoring_settings DEFAULT VALUES;
+
+-- Enable Row Level Security
+ALTER TABLE public.rescoring_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for rescoring_settings table
+CREATE POLICY "Authenticated users can view rescoring settings"
+ON public.rescoring_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can update rescoring settings"
+ON public.rescoring_settings
+FOR UPDATE
+TO authenticated
+USING (true);
+
+CREATE TRIGGER update_rescoring_settings_updated_at
+  BEFORE UPDATE ON public.rescoring_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Called hourly by pg_cron; starts a re-score when the current UTC hour matches the schedule.
+-- Expects the vault secrets `project_url` and `service_role_key` to be set for this project.
+CREATE OR REPLACE FUNCTION public.trigger_scheduled_rescoring()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings public.rescoring_settings;
+  now_utc TIMESTAMP := now() AT TIME ZONE 'UTC';
+BEGIN
+  SELECT * INTO settings FROM public.rescoring_settings;
+
+  IF settings.frequency IS NULL OR settings.frequency = 'disabled' THEN
+    RETURN;
+  END IF;
+
+  IF EXTRACT(HOUR FROM now_utc) <> settings.run_hour
+    OR (settings.frequency = 'weekly' AND EXTRACT(DOW FROM now_utc) <> settings.run_day) THEN
+    RETURN;
+  END IF;
+
+  -- A late or repeated cron tick within the same window must not start a second run
+  IF settings.last_triggered_at > now() - INTERVAL '2 hours' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.rescoring_settings SET last_triggered_at = now();
+
+  PERFORM net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/predict-dropout-risk',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('rescoreAll', true, 'source', 'scheduled')
+  );
+END;
+$$;
+
+-- Only pg_cron should start scheduled re-scores; as an RPC anyone could trigger a full re-score with the service role key
+REVOKE EXECUTE ON FUNCTION public.trigger_scheduled_rescoring() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('rescore-students', '0 * * * *', $$SELECT public.trigger_scheduled_rescoring()$$);
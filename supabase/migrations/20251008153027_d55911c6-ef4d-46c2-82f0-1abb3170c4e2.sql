@@ -0,0 +1,52 @@
+-- Create table of recent edge function calls per user, for rate limiting
+CREATE TABLE public.function_rate_limits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  action TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security; only the service role reads or writes this table
+ALTER TABLE public.function_rate_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_function_rate_limits_user_action ON public.function_rate_limits(user_id, action, created_at);
+
+-- Record a call if the user is under the limit for the window.
+-- Returns 0 when the call is allowed, otherwise the seconds until the oldest call in the window expires.
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(
+  target_user_id UUID,
+  limit_action TEXT,
+  max_requests INTEGER,
+  window_seconds INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  recent_count INTEGER;
+  oldest_call TIMESTAMP WITH TIME ZONE;
+BEGIN
+  -- Serialise concurrent calls from the same user so they cannot all slip under the limit
+  PERFORM pg_advisory_xact_lock(hashtext(target_user_id::text || ':' || limit_action));
+
+  DELETE FROM public.function_rate_limits
+  WHERE user_id = target_user_id
+    AND action = limit_action
+    AND created_at < now() - make_interval(secs => window_seconds);
+
+  SELECT count(*), min(created_at) INTO recent_count, oldest_call
+  FROM public.function_rate_limits
+  WHERE user_id = target_user_id
+    AND action = limit_action;
+
+  IF recent_count >= max_requests THEN
+    RETURN GREATEST(1, CEIL(EXTRACT(EPOCH FROM oldest_call + make_interval(secs => window_seconds) - now())))::INTEGER;
+  END IF;
+
+  INSERT INTO public.function_rate_limits (user_id, action) VALUES (target_user_id, limit_action);
+  RETURN 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(UUID, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,236 @@
+-- Defined roles for staff accounts
+CREATE TYPE public.app_role AS ENUM ('admin', 'department_head', 'counsellor', 'faculty', 'viewer');
+
+-- Existing accounts keep the admin access they had; new signups start read-only
+ALTER TABLE public.profiles ALTER COLUMN role DROP DEFAULT;
+ALTER TABLE public.profiles
+  ALTER COLUMN role TYPE app_role
+  USING (CASE WHEN role IN ('admin', 'department_head', 'counsellor', 'faculty', 'viewer') THEN role ELSE 'viewer' END)::app_role;
+ALTER TABLE public.profiles ALTER COLUMN role SET DEFAULT 'viewer';
+
+-- Role of the signed-in user; SECURITY DEFINER so policies can call it without recursing into profiles RLS
+CREATE OR REPLACE FUNCTION public.current_app_role()
+RETURNS app_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.profiles WHERE user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_role(roles app_role[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(public.current_app_role() = ANY(roles), false);
+$$;
+
+-- The first account of a fresh project becomes admin so someone can assign roles
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, display_name, role)
+  VALUES (
+    NEW.id,
+    NEW.raw_user_meta_data ->> 'display_name',
+    CASE WHEN EXISTS (SELECT 1 FROM public.profiles WHERE role = 'admin') THEN 'viewer'::app_role ELSE 'admin'::app_role END
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Users may edit their own profile but only admins may change anyone's role
+CREATE OR REPLACE FUNCTION public.prevent_role_self_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- auth.uid() is null for the service role and SQL run by the project owner
+  IF NEW.role IS DISTINCT FROM OLD.role AND auth.uid() IS NOT NULL AND NOT public.has_role(ARRAY['admin']::app_role[]) THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_profiles_role_self_assignment
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_role_self_assignment();
+
+CREATE POLICY "Admins can update any profile"
+ON public.profiles
+FOR UPDATE
+TO authenticated
+USING (public.has_role(ARRAY['admin']::app_role[]));
+
+-- RLS policies for students table
+DROP POLICY "Authenticated users can insert students" ON public.students;
+DROP POLICY "Authenticated users can update students" ON public.students;
+DROP POLICY "Authenticated users can delete students" ON public.students;
+
+CREATE POLICY "Admins and department heads can insert students"
+ON public.students
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(ARRAY['admin', 'department_head']::app_role[]));
+
+CREATE POLICY "Admins and department heads can update students"
+ON public.students
+FOR UPDATE
+TO authenticated
+USING (public.has_role(ARRAY['admin', 'department_head']::app_role[]));
+
+CREATE POLICY "Admins can delete students"
+ON public.students
+FOR DELETE
+TO authenticated
+USING (public.has_role(ARRAY['admin']::app_role[]));
+
+-- RLS policies for intervention_notes table
+DROP POLICY "Authenticated users can insert intervention notes" ON public.intervention_notes;
+DROP POLICY "Authenticated users can update intervention notes" ON public.intervention_notes;
+DROP POLICY "Authenticated users can delete intervention notes" ON public.intervention_notes;
+
+CREATE POLICY "Staff can insert intervention notes"
+ON public.intervention_notes
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(ARRAY['admin', 'department_head', 'counsellor', 'faculty']::app_role[]));
+
+CREATE POLICY "Counsellors and above can update intervention notes"
+ON public.intervention_notes
+FOR UPDATE
+TO authenticated
+USING (public.has_role(ARRAY['admin', 'department_head', 'counsellor']::app_role[]));
+
+CREATE POLICY "Counsellors and above can delete intervention notes"
+ON public.intervention_notes
+FOR DELETE
+TO authenticated
+USING (public.has_role(ARRAY['admin', 'department_head', 'counsellor']::app_role[]));
+
+-- Uploads write students through the import-students function, so queuing one needs student write access
+DROP POLICY "Authenticated users can insert import jobs" ON public.import_jobs;
+DROP POLICY "Authenticated users can update import jobs" ON public.import_jobs;
+
+CREATE POLICY "Admins and department heads can insert import jobs"
+ON public.import_jobs
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(ARRAY['admin', 'department_head']::app_role[]));
+
+CREATE POLICY "Admins and department heads can update import jobs"
+ON public.import_jobs
+FOR UPDATE
+TO authenticated
+USING (public.has_role(ARRAY['admin', 'department_head']::app_role[]));
+
+DROP POLICY "Authenticated users can upload import files" ON storage.objects;
+
+CREATE POLICY "Admins and department heads can upload import files"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'imports' AND public.has_role(ARRAY['admin', 'department_head']::app_role[]));
+
+-- Rollback checks the caller's role the same way as the policies
+CREATE OR REPLACE FUNCTION public.rollback_import_job(target_job_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  job_status import_job_status;
+  overwritten INTEGER;
+BEGIN
+  -- Undoing a whole upload rewrites students other users may have uploaded, so only admins may do it
+  IF NOT public.has_role(ARRAY['admin']::app_role[]) THEN
+    RAISE EXCEPTION 'Only admins can roll back uploads' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT status INTO job_status FROM public.import_jobs WHERE id = target_job_id FOR UPDATE;
+
+  IF job_status IS NULL THEN
+    RAISE EXCEPTION 'Import job % does not exist', target_job_id;
+  END IF;
+
+  IF job_status = 'rolled_back' THEN
+    RAISE EXCEPTION 'Import job % has already been rolled back', target_job_id;
+  END IF;
+
+  IF job_status IN ('queued', 'processing') THEN
+    RAISE EXCEPTION 'Import job % is still running', target_job_id;
+  END IF;
+
+  SELECT count(*) INTO overwritten
+  FROM public.import_job_changes c
+  JOIN public.students s ON s.id = c.student_id
+  WHERE c.job_id = target_job_id
+    AND s.import_job_id IS DISTINCT FROM target_job_id;
+
+  IF overwritten > 0 THEN
+    RAISE EXCEPTION '% students from this upload were changed by a later upload; roll that upload back first', overwritten;
+  END IF;
+
+  DELETE FROM public.students s
+  USING public.import_job_changes c
+  WHERE c.job_id = target_job_id
+    AND c.action = 'insert'
+    AND c.student_id = s.id;
+
+  UPDATE public.students s
+  SET (
+    name, email, student_id, department, semester, gender,
+    attendance_percentage, cgpa, sgpa, fee_default, disciplinary_actions, scholarship,
+    extracurriculars, family_income, distance_from_home, hostel_accommodation,
+    previous_education_gap, import_job_id
+  ) = (
+    SELECT
+      r.name, r.email, r.student_id, r.department, r.semester, r.gender,
+      r.attendance_percentage, r.cgpa, r.sgpa, r.fee_default, r.disciplinary_actions, r.scholarship,
+      r.extracurriculars, r.family_income, r.distance_from_home, r.hostel_accommodation,
+      r.previous_education_gap, r.import_job_id
+    FROM jsonb_populate_record(NULL::public.students, to_jsonb(s) || c.previous_values) r
+  )
+  FROM public.import_job_changes c
+  WHERE c.job_id = target_job_id
+    AND c.action = 'update'
+    AND c.student_id = s.id;
+
+  UPDATE public.import_jobs
+  SET status = 'rolled_back', rolled_back_at = now(), rolled_back_by = auth.uid()
+  WHERE id = target_job_id;
+END;
+$$;
+
+-- Model and schedule changes affect every score, so they stay with admins
+DROP POLICY "Authenticated users can insert risk model configs" ON public.risk_model_configs;
+DROP POLICY "Authenticated users can update risk model configs" ON public.risk_model_configs;
+DROP POLICY "Authenticated users can update rescoring settings" ON public.rescoring_settings;
+
+CREATE POLICY "Admins can insert risk model configs"
+ON public.risk_model_configs
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(ARRAY['admin']::app_role[]));
+
+CREATE POLICY "Admins can update risk model configs"
+ON public.risk_model_configs
+FOR UPDATE
+TO authenticated
+USING (public.has_role(ARRAY['admin']::app_role[]));
+
+CREATE POLICY "Admins can update rescoring settings"
+ON public.rescoring_settings
+FOR UPDATE
+TO authenticated
+USING (public.has_role(ARRAY['admin']::app_role[]));
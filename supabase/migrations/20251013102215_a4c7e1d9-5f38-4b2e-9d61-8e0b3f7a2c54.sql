@@ -0,0 +1,199 @@
+-- Departments each user is assigned to; department heads and faculty only see these
+CREATE TABLE public.user_departments (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  department TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, department)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.user_departments ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for user_departments table
+CREATE POLICY "Users can view their own departments, admins all"
+ON public.user_departments
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id OR public.has_role(ARRAY['admin']::app_role[]));
+
+CREATE POLICY "Admins can assign departments"
+ON public.user_departments
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(ARRAY['admin']::app_role[]));
+
+CREATE POLICY "Admins can unassign departments"
+ON public.user_departments
+FOR DELETE
+TO authenticated
+USING (public.has_role(ARRAY['admin']::app_role[]));
+
+CREATE INDEX idx_user_departments_department ON public.user_departments(department);
+
+-- Whether a user may see students of a department.
+-- Department-scoped roles need an assignment; every other role sees all departments.
+-- Edge functions writing with the service role check the uploader through this instead of auth.uid().
+CREATE OR REPLACE FUNCTION public.user_can_access_department(target_user_id UUID, target_department TEXT)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT CASE
+      WHEN p.role IN ('department_head', 'faculty') THEN EXISTS (
+        SELECT 1 FROM public.user_departments
+        WHERE user_id = p.user_id AND department = target_department
+      )
+      ELSE true
+    END
+    FROM public.profiles p
+    WHERE p.user_id = target_user_id
+  ), false);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.user_can_access_department(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.can_access_department(target_department TEXT)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.user_can_access_department(auth.uid(), target_department);
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_student(target_student_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT public.can_access_department(department) FROM public.students WHERE id = target_student_id),
+    false
+  );
+$$;
+
+-- RLS policies for students table
+DROP POLICY "Authenticated users can view all students" ON public.students;
+DROP POLICY "Admins and department heads can insert students" ON public.students;
+DROP POLICY "Admins and department heads can update students" ON public.students;
+
+CREATE POLICY "Users can view students in their departments"
+ON public.students
+FOR SELECT
+TO authenticated
+USING (public.can_access_department(department));
+
+CREATE POLICY "Admins and department heads can insert students in their departments"
+ON public.students
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(ARRAY['admin', 'department_head']::app_role[]) AND public.can_access_department(department));
+
+-- WITH CHECK stops a department head moving a student into a department they do not manage
+CREATE POLICY "Admins and department heads can update students in their departments"
+ON public.students
+FOR UPDATE
+TO authenticated
+USING (public.has_role(ARRAY['admin', 'department_head']::app_role[]) AND public.can_access_department(department))
+WITH CHECK (public.can_access_department(department));
+
+-- RLS policies for intervention_notes table
+DROP POLICY "Authenticated users can view all intervention notes" ON public.intervention_notes;
+DROP POLICY "Staff can insert intervention notes" ON public.intervention_notes;
+DROP POLICY "Counsellors and above can update intervention notes" ON public.intervention_notes;
+DROP POLICY "Counsellors and above can delete intervention notes" ON public.intervention_notes;
+
+CREATE POLICY "Users can view intervention notes in their departments"
+ON public.intervention_notes
+FOR SELECT
+TO authenticated
+USING (public.can_access_student(student_id));
+
+CREATE POLICY "Staff can insert intervention notes in their departments"
+ON public.intervention_notes
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.has_role(ARRAY['admin', 'department_head', 'counsellor', 'faculty']::app_role[])
+  AND public.can_access_student(student_id)
+);
+
+CREATE POLICY "Counsellors and above can update intervention notes in their departments"
+ON public.intervention_notes
+FOR UPDATE
+TO authenticated
+USING (
+  public.has_role(ARRAY['admin', 'department_head', 'counsellor']::app_role[])
+  AND public.can_access_student(student_id)
+);
+
+CREATE POLICY "Counsellors and above can delete intervention notes in their departments"
+ON public.intervention_notes
+FOR DELETE
+TO authenticated
+USING (
+  public.has_role(ARRAY['admin', 'department_head', 'counsellor']::app_role[])
+  AND public.can_access_student(student_id)
+);
+
+-- Risk history carries the same student data, so it follows the same scope
+DROP POLICY "Authenticated users can view risk assessments" ON public.risk_assessments;
+
+CREATE POLICY "Users can view risk assessments in their departments"
+ON public.risk_assessments
+FOR SELECT
+TO authenticated
+USING (public.can_access_student(student_id));
+
+-- Import jobs and their files hold rejected rows and snapshots from any department they touched,
+-- so only the uploader and admins see them; per-student changes also follow the student's department
+DROP POLICY "Authenticated users can view import jobs" ON public.import_jobs;
+DROP POLICY "Admins and department heads can insert import jobs" ON public.import_jobs;
+DROP POLICY "Admins and department heads can update import jobs" ON public.import_jobs;
+DROP POLICY "Authenticated users can view import job changes" ON public.import_job_changes;
+DROP POLICY "Authenticated users can view import files" ON storage.objects;
+
+CREATE POLICY "Uploaders and admins can view import jobs"
+ON public.import_jobs
+FOR SELECT
+TO authenticated
+USING (uploaded_by = auth.uid() OR public.has_role(ARRAY['admin']::app_role[]));
+
+-- import-students checks rows against uploaded_by, so a job cannot be queued or moved into someone else's name
+CREATE POLICY "Admins and department heads can insert their own import jobs"
+ON public.import_jobs
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(ARRAY['admin', 'department_head']::app_role[]) AND uploaded_by = auth.uid());
+
+CREATE POLICY "Uploaders and admins can update import jobs"
+ON public.import_jobs
+FOR UPDATE
+TO authenticated
+USING (public.has_role(ARRAY['admin']::app_role[]) OR (public.has_role(ARRAY['department_head']::app_role[]) AND uploaded_by = auth.uid()))
+WITH CHECK (public.has_role(ARRAY['admin']::app_role[]) OR uploaded_by = auth.uid());
+
+CREATE POLICY "Uploaders, admins and users in the student's department can view import job changes"
+ON public.import_job_changes
+FOR SELECT
+TO authenticated
+USING (
+  public.has_role(ARRAY['admin']::app_role[])
+  OR public.can_access_student(student_id)
+  OR EXISTS (
+    SELECT 1 FROM public.import_jobs
+    WHERE id = import_job_changes.job_id AND uploaded_by = auth.uid()
+  )
+);
+
+CREATE POLICY "Uploaders and admins can view import files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'imports' AND (owner = auth.uid() OR public.has_role(ARRAY['admin']::app_role[])));
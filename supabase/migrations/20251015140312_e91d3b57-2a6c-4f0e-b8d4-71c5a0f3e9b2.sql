@@ -0,0 +1,230 @@
+-- Who may create an account without an invitation
+CREATE TYPE public.signup_mode AS ENUM ('disabled', 'domain', 'open');
+
+-- Single-row table holding the self-registration policy
+CREATE TABLE public.auth_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  signup_mode signup_mode NOT NULL DEFAULT 'disabled',
+  -- Email domains allowed to sign up when signup_mode is 'domain', e.g. {school.edu}
+  allowed_domains TEXT[] NOT NULL DEFAULT '{}',
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.auth_settings DEFAULT VALUES;
+
+-- Enable Row Level Security
+ALTER TABLE public.auth_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for auth_settings table
+CREATE POLICY "Admins can view auth settings"
+ON public.auth_settings
+FOR SELECT
+TO authenticated
+USING (public.has_role(ARRAY['admin']::app_role[]));
+
+CREATE POLICY "Admins can update auth settings"
+ON public.auth_settings
+FOR UPDATE
+TO authenticated
+USING (public.has_role(ARRAY['admin']::app_role[]));
+
+CREATE TRIGGER update_auth_settings_updated_at
+  BEFORE UPDATE ON public.auth_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Accounts an admin has invited; the invitation decides the new account's role and departments
+CREATE TABLE public.user_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE CHECK (email = lower(email)),
+  role app_role NOT NULL DEFAULT 'viewer',
+  departments TEXT[] NOT NULL DEFAULT '{}',
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Set once the invited account has been created
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security; invitations are written by the manage-users function
+ALTER TABLE public.user_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view user invitations"
+ON public.user_invitations
+FOR SELECT
+TO authenticated
+USING (public.has_role(ARRAY['admin']::app_role[]));
+
+-- Read by the sign-in page before anyone is signed in
+CREATE OR REPLACE FUNCTION public.get_signup_policy()
+RETURNS TABLE (signup_mode signup_mode, allowed_domains TEXT[])
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    -- A fresh project must let its first admin register
+    CASE WHEN EXISTS (SELECT 1 FROM public.profiles) THEN s.signup_mode ELSE 'open'::signup_mode END,
+    s.allowed_domains
+  FROM public.auth_settings s;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_signup_policy() TO anon, authenticated;
+
+-- Rejects self-registrations the policy does not allow; invited emails are always let through
+CREATE OR REPLACE FUNCTION public.enforce_signup_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  policy RECORD;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.user_invitations WHERE email = lower(NEW.email)) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO policy FROM public.get_signup_policy();
+
+  IF policy.signup_mode = 'disabled' THEN
+    RAISE EXCEPTION 'Sign up is disabled. Ask an admin for an invitation.';
+  END IF;
+
+  IF policy.signup_mode = 'domain'
+    AND NOT lower(split_part(NEW.email, '@', 2)) = ANY(SELECT lower(d) FROM unnest(policy.allowed_domains) d) THEN
+    RAISE EXCEPTION 'Sign up is limited to % email addresses', array_to_string(policy.allowed_domains, ', ');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_signup_policy
+  BEFORE INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_signup_policy();
+
+-- Account details shown on the Users page
+ALTER TABLE public.profiles
+  ADD COLUMN email TEXT,
+  ADD COLUMN deactivated_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.profiles p
+SET email = u.email
+FROM auth.users u
+WHERE u.id = p.user_id;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  invitation public.user_invitations;
+BEGIN
+  SELECT * INTO invitation FROM public.user_invitations WHERE email = lower(NEW.email);
+
+  INSERT INTO public.profiles (user_id, display_name, email, role)
+  VALUES (
+    NEW.id,
+    NEW.raw_user_meta_data ->> 'display_name',
+    NEW.email,
+    CASE
+      WHEN invitation.id IS NOT NULL THEN invitation.role
+      WHEN EXISTS (SELECT 1 FROM public.profiles WHERE role = 'admin') THEN 'viewer'::app_role
+      ELSE 'admin'::app_role
+    END
+  );
+
+  IF invitation.id IS NOT NULL THEN
+    INSERT INTO public.user_departments (user_id, department)
+    SELECT NEW.id, department FROM unnest(invitation.departments) AS department
+    ON CONFLICT DO NOTHING;
+
+    UPDATE public.user_invitations SET user_id = NEW.id WHERE id = invitation.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Deactivated users lose data access immediately, not only when their session expires
+CREATE OR REPLACE FUNCTION public.current_app_role()
+RETURNS app_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.profiles WHERE user_id = auth.uid() AND deactivated_at IS NULL;
+$$;
+
+-- Ends every session of a user so their refresh tokens stop working; called by the manage-users function
+CREATE OR REPLACE FUNCTION public.revoke_user_sessions(target_user_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  revoked INTEGER;
+BEGIN
+  DELETE FROM auth.sessions WHERE user_id = target_user_id;
+  GET DIAGNOSTICS revoked = ROW_COUNT;
+  RETURN revoked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_user_sessions(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Service-role imports check the uploader the same way, so a deactivated uploader's queued jobs stop writing
+CREATE OR REPLACE FUNCTION public.user_can_access_department(target_user_id UUID, target_department TEXT)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT CASE
+      WHEN p.role IN ('department_head', 'faculty') THEN EXISTS (
+        SELECT 1 FROM public.user_departments
+        WHERE user_id = p.user_id AND department = target_department
+      )
+      ELSE true
+    END
+    FROM public.profiles p
+    WHERE p.user_id = target_user_id AND p.deactivated_at IS NULL
+  ), false);
+$$;
+
+-- Users may edit their own profile, but role, deactivation and the sign-in email stay with admins.
+-- Otherwise a deactivated user whose token has not yet expired could clear deactivated_at themselves.
+CREATE OR REPLACE FUNCTION public.prevent_role_self_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- auth.uid() is null for the service role and SQL run by the project owner
+  IF auth.uid() IS NULL OR public.has_role(ARRAY['admin']::app_role[]) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+
+  IF NEW.deactivated_at IS DISTINCT FROM OLD.deactivated_at THEN
+    RAISE EXCEPTION 'Only admins can deactivate or reactivate accounts';
+  END IF;
+
+  IF NEW.email IS DISTINCT FROM OLD.email THEN
+    RAISE EXCEPTION 'Only admins can change profile emails';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
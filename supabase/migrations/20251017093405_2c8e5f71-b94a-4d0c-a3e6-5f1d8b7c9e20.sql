@@ -0,0 +1,131 @@
+-- Case management for at-risk students
+CREATE TYPE public.case_status AS ENUM ('identified', 'contacted', 'plan_agreed', 'monitoring', 'resolved', 'dropped_out');
+
+-- Create student_cases table; a student has at most one open case at a time
+CREATE TABLE public.student_cases (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  counsellor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status case_status NOT NULL DEFAULT 'identified',
+  -- When the case moved into its current status, for the per-stage SLA timers
+  stage_entered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  opened_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_student_cases_open_student ON public.student_cases(student_id)
+  WHERE status NOT IN ('resolved', 'dropped_out');
+CREATE INDEX idx_student_cases_counsellor_id ON public.student_cases(counsellor_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.student_cases ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for student_cases table
+CREATE POLICY "Users can view cases in their departments"
+ON public.student_cases
+FOR SELECT
+TO authenticated
+USING (public.can_access_student(student_id));
+
+CREATE POLICY "Counsellors and above can open cases in their departments"
+ON public.student_cases
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.has_role(ARRAY['admin', 'department_head', 'counsellor']::app_role[])
+  AND public.can_access_student(student_id)
+);
+
+CREATE POLICY "Counsellors and above can update cases in their departments"
+ON public.student_cases
+FOR UPDATE
+TO authenticated
+USING (
+  public.has_role(ARRAY['admin', 'department_head', 'counsellor']::app_role[])
+  AND public.can_access_student(student_id)
+);
+
+CREATE POLICY "Admins can delete cases"
+ON public.student_cases
+FOR DELETE
+TO authenticated
+USING (public.has_role(ARRAY['admin']::app_role[]));
+
+CREATE TRIGGER update_student_cases_updated_at
+  BEFORE UPDATE ON public.student_cases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Restart the SLA timer on every status change and close terminal cases
+CREATE OR REPLACE FUNCTION public.track_case_stage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.stage_entered_at = now();
+    NEW.closed_at = CASE WHEN NEW.status IN ('resolved', 'dropped_out') THEN now() END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_student_cases_stage
+  BEFORE UPDATE ON public.student_cases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_case_stage();
+
+-- Every student who becomes high risk gets an open case, whoever or whatever scored them
+CREATE OR REPLACE FUNCTION public.open_case_for_high_risk_student()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.risk_level = 'high' AND (TG_OP = 'INSERT' OR OLD.risk_level IS DISTINCT FROM 'high') THEN
+    INSERT INTO public.student_cases (student_id)
+    VALUES (NEW.id)
+    ON CONFLICT (student_id) WHERE status NOT IN ('resolved', 'dropped_out') DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER open_case_for_high_risk_student
+  AFTER INSERT OR UPDATE OF risk_level ON public.students
+  FOR EACH ROW
+  EXECUTE FUNCTION public.open_case_for_high_risk_student();
+
+INSERT INTO public.student_cases (student_id)
+SELECT id FROM public.students WHERE risk_level = 'high';
+
+-- Link interventions to the case they were part of
+ALTER TABLE public.intervention_notes
+  ADD COLUMN case_id UUID REFERENCES public.student_cases(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_intervention_notes_case_id ON public.intervention_notes(case_id);
+
+-- Interventions logged while a student has an open case belong to that case
+CREATE OR REPLACE FUNCTION public.link_intervention_to_open_case()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.case_id IS NULL THEN
+    SELECT id INTO NEW.case_id
+    FROM public.student_cases
+    WHERE student_id = NEW.student_id AND status NOT IN ('resolved', 'dropped_out');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_intervention_notes_to_open_case
+  BEFORE INSERT ON public.intervention_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.link_intervention_to_open_case();
@@ -0,0 +1,122 @@
+-- Follow-up reminders: in-app notifications and an optional email digest
+CREATE TYPE public.notification_kind AS ENUM ('follow_up_due');
+
+-- Who logged an intervention; they are responsible for its follow-up
+ALTER TABLE public.intervention_notes
+  ADD COLUMN created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+-- Older notes only carry the staff member's name; link them where it names exactly one profile
+UPDATE public.intervention_notes n
+SET created_by = p.user_id
+FROM public.profiles p
+WHERE n.created_by IS NULL
+  AND lower(p.display_name) = lower(n.staff_member)
+  AND (SELECT count(*) FROM public.profiles other WHERE lower(other.display_name) = lower(n.staff_member)) = 1;
+
+-- Staff can turn the reminder email off and keep the in-app notifications
+ALTER TABLE public.profiles
+  ADD COLUMN email_digest BOOLEAN NOT NULL DEFAULT true;
+
+-- Create notifications table
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind notification_kind NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  -- App path to open when the notification is clicked
+  link TEXT,
+  intervention_note_id UUID REFERENCES public.intervention_notes(id) ON DELETE CASCADE,
+  -- Identifies what the notification is about, so a daily job never repeats itself
+  dedupe_key TEXT NOT NULL,
+  read_at TIMESTAMP WITH TIME ZONE,
+  emailed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, dedupe_key)
+);
+
+CREATE INDEX idx_notifications_user_id_created_at ON public.notifications(user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for notifications table; they are created by the reminder job only
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+ON public.notifications
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Let the header bell update as soon as a notification arrives
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Notify whoever logged each incomplete intervention whose follow-up is due today (UTC) or earlier,
+-- falling back to the counsellor of its case. Returns the number of new notifications.
+CREATE OR REPLACE FUNCTION public.create_follow_up_notifications()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  created_count integer;
+BEGIN
+  INSERT INTO public.notifications (user_id, kind, title, body, link, intervention_note_id, dedupe_key)
+  SELECT
+    p.user_id,
+    'follow_up_due',
+    CASE WHEN n.follow_up_date < current_date
+      THEN 'Overdue follow-up: ' || s.name
+      ELSE 'Follow-up due today: ' || s.name
+    END,
+    initcap(replace(n.intervention_type, '_', ' ')) || ' logged on ' || to_char(n.created_at, 'YYYY-MM-DD')
+      || ', follow up by ' || to_char(n.follow_up_date, 'YYYY-MM-DD'),
+    '/interventions',
+    n.id,
+    'follow_up:' || n.id || ':' || n.follow_up_date
+  FROM public.intervention_notes n
+  JOIN public.students s ON s.id = n.student_id
+  LEFT JOIN public.student_cases c ON c.id = n.case_id
+  JOIN public.profiles p ON p.user_id = COALESCE(n.created_by, c.counsellor_id)
+  WHERE NOT n.completed
+    AND n.follow_up_date <= current_date
+    AND p.deactivated_at IS NULL
+  ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+
+  GET DIAGNOSTICS created_count = ROW_COUNT;
+  RETURN created_count;
+END;
+$$;
+
+-- Called daily by pg_cron; the digest function decides whether and how to send email.
+-- Uses the same vault secrets as the scheduled re-scoring.
+CREATE OR REPLACE FUNCTION public.trigger_follow_up_reminders()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.create_follow_up_notifications();
+
+  PERFORM net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-notification-digest',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_follow_up_notifications() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.trigger_follow_up_reminders() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('follow-up-reminders', '0 7 * * *', $$SELECT public.trigger_follow_up_reminders()$$);
@@ -0,0 +1,243 @@
+-- Risk escalation events, alert rules and their delivery
+ALTER TYPE public.notification_kind ADD VALUE IF NOT EXISTS 'risk_escalation';
+
+CREATE TYPE public.risk_alert_condition AS ENUM ('entered_high', 'level_increased', 'score_jump');
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Webhooks are posted from the database server, so they may only go to public HTTPS hosts and never back into
+-- the server's own network. Mirrors webhookUrlError in src/lib/riskAlerts.ts.
+CREATE OR REPLACE FUNCTION public.is_public_https_url(url TEXT)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+STRICT
+SET search_path = public
+AS $$
+DECLARE
+  -- Everything up to the last @ is user info, as HTTP clients read it
+  url_host TEXT := rtrim(substring(lower(url) FROM '^https://(?:[^/?#]*@)?(\[[^]]*\]|[^/?#:@\[\\]*)'), '.');
+  address inet;
+BEGIN
+  IF url_host IS NULL OR url_host = '' OR url_host = 'localhost' OR url_host ~ '\.(localhost|local|internal)$' THEN
+    RETURN false;
+  END IF;
+
+  IF url_host LIKE '[%]' THEN
+    address := trim(BOTH '[]' FROM url_host)::inet;
+  ELSIF url_host ~ '^\d{1,3}(\.\d{1,3}){3}$' THEN
+    address := url_host::inet;
+  ELSIF url_host ~ '(^|\.)\d[^.]*$' THEN
+    -- Shorthand addresses such as 2130706433 or 0x7f.1 still reach an IP; real top-level domains never start with a digit
+    RETURN false;
+  ELSE
+    -- Single-label names resolve through the server's own search domains
+    RETURN url_host ~ '\.';
+  END IF;
+
+  RETURN NOT address <<= ANY(ARRAY[
+    '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16', '172.16.0.0/12', '192.168.0.0/16',
+    '::/128', '::1/128', '::ffff:0:0/96', 'fc00::/7', 'fe80::/10'
+  ]::inet[]);
+EXCEPTION WHEN invalid_text_representation THEN
+  RETURN false;
+END;
+$$;
+
+-- Create risk_alert_rules table
+CREATE TABLE public.risk_alert_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  condition risk_alert_condition NOT NULL,
+  -- Only for score_jump: how far the score must rise in a single change, on the 0-1 scale
+  min_score_increase NUMERIC CHECK (min_score_increase > 0 AND min_score_increase <= 1),
+  -- Empty means every department
+  departments TEXT[] NOT NULL DEFAULT '{}',
+  notify_roles app_role[] NOT NULL DEFAULT '{admin,department_head,counsellor}',
+  notify_case_counsellor BOOLEAN NOT NULL DEFAULT true,
+  webhook_url TEXT CHECK (public.is_public_https_url(webhook_url)),
+  -- Signs webhook bodies (HMAC-SHA256) so receivers can check they came from us
+  webhook_secret TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (condition <> 'score_jump' OR min_score_increase IS NOT NULL)
+);
+
+-- Create risk_escalation_events table
+CREATE TABLE public.risk_escalation_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  department TEXT NOT NULL,
+  previous_risk_level risk_level,
+  risk_level risk_level,
+  previous_risk_score NUMERIC,
+  risk_score NUMERIC,
+  matched_rule_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_risk_escalation_events_student_id ON public.risk_escalation_events(student_id);
+CREATE INDEX idx_risk_escalation_events_created_at ON public.risk_escalation_events(created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.risk_alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.risk_escalation_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies; rules hold webhook secrets, so they stay with admins
+CREATE POLICY "Admins can view alert rules"
+ON public.risk_alert_rules
+FOR SELECT
+TO authenticated
+USING (public.has_role(ARRAY['admin']::app_role[]));
+
+CREATE POLICY "Admins can create alert rules"
+ON public.risk_alert_rules
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(ARRAY['admin']::app_role[]));
+
+CREATE POLICY "Admins can update alert rules"
+ON public.risk_alert_rules
+FOR UPDATE
+TO authenticated
+USING (public.has_role(ARRAY['admin']::app_role[]));
+
+CREATE POLICY "Admins can delete alert rules"
+ON public.risk_alert_rules
+FOR DELETE
+TO authenticated
+USING (public.has_role(ARRAY['admin']::app_role[]));
+
+CREATE POLICY "Users can view escalations in their departments"
+ON public.risk_escalation_events
+FOR SELECT
+TO authenticated
+USING (public.can_access_student(student_id));
+
+CREATE TRIGGER update_risk_alert_rules_updated_at
+  BEFORE UPDATE ON public.risk_alert_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.risk_alert_rules (name, condition, created_by)
+VALUES ('Entered high risk', 'entered_high', NULL);
+
+-- Runs for every change to a student's risk, whether it came from a re-score, an import or an edit.
+-- Records an event when the level rises or a rule matches, then notifies and calls webhooks per rule.
+CREATE OR REPLACE FUNCTION public.record_risk_escalation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  level_rank CONSTANT jsonb := '{"low": 1, "medium": 2, "high": 3}';
+  level_increased boolean := COALESCE((level_rank ->> NEW.risk_level::text)::int, 0)
+    > COALESCE((level_rank ->> OLD.risk_level::text)::int, 0);
+  score_increase numeric := COALESCE(NEW.risk_score, 0) - COALESCE(OLD.risk_score, 0);
+  rule public.risk_alert_rules;
+  matched public.risk_alert_rules[] := '{}';
+  event_id uuid;
+  payload jsonb;
+BEGIN
+  -- A student's first score has nothing to escalate from
+  IF OLD.risk_level IS NULL OR OLD.risk_score IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT level_increased AND score_increase <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  FOR rule IN
+    SELECT * FROM public.risk_alert_rules
+    WHERE enabled
+      AND (cardinality(departments) = 0 OR NEW.department = ANY(departments))
+  LOOP
+    IF (rule.condition = 'entered_high' AND NEW.risk_level = 'high' AND OLD.risk_level IS DISTINCT FROM 'high')
+      OR (rule.condition = 'level_increased' AND level_increased)
+      OR (rule.condition = 'score_jump' AND score_increase > rule.min_score_increase) THEN
+      matched := matched || rule;
+    END IF;
+  END LOOP;
+
+  IF NOT level_increased AND cardinality(matched) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.risk_escalation_events (
+    student_id, department, previous_risk_level, risk_level, previous_risk_score, risk_score, matched_rule_ids
+  )
+  VALUES (
+    NEW.id, NEW.department, OLD.risk_level, NEW.risk_level, OLD.risk_score, NEW.risk_score,
+    ARRAY(SELECT r.id FROM unnest(matched) r)
+  )
+  RETURNING id INTO event_id;
+
+  FOREACH rule IN ARRAY matched LOOP
+    -- Department-scoped roles only hear about their own departments; one notification per person per event
+    INSERT INTO public.notifications (user_id, kind, title, body, link, dedupe_key)
+    SELECT
+      p.user_id,
+      'risk_escalation',
+      'Risk escalated: ' || NEW.name,
+      rule.name || ' · ' || COALESCE(OLD.risk_level::text, 'unscored') || ' → ' || COALESCE(NEW.risk_level::text, 'unscored')
+        || COALESCE(' (' || round(NEW.risk_score * 100) || '%)', '') || ' · ' || NEW.department,
+      '/students',
+      'risk_escalation:' || event_id
+    FROM public.profiles p
+    WHERE p.deactivated_at IS NULL
+      AND (
+        p.role = ANY(rule.notify_roles)
+        OR (rule.notify_case_counsellor AND p.user_id IN (
+          SELECT c.counsellor_id FROM public.student_cases c
+          WHERE c.student_id = NEW.id AND c.status NOT IN ('resolved', 'dropped_out')
+        ))
+      )
+      AND (
+        p.role NOT IN ('department_head', 'faculty')
+        OR EXISTS (
+          SELECT 1 FROM public.user_departments ud
+          WHERE ud.user_id = p.user_id AND ud.department = NEW.department
+        )
+      )
+    ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+
+    IF rule.webhook_url IS NOT NULL THEN
+      payload := jsonb_build_object(
+        'event', 'risk.escalated',
+        'eventId', event_id,
+        'rule', jsonb_build_object('id', rule.id, 'name', rule.name, 'condition', rule.condition),
+        'student', jsonb_build_object('id', NEW.id, 'studentId', NEW.student_id, 'name', NEW.name, 'department', NEW.department),
+        'previous', jsonb_build_object('riskLevel', OLD.risk_level, 'riskScore', OLD.risk_score),
+        'current', jsonb_build_object('riskLevel', NEW.risk_level, 'riskScore', NEW.risk_score),
+        'occurredAt', now()
+      );
+
+      -- A broken webhook must never block the score update itself
+      BEGIN
+        PERFORM net.http_post(
+          url := rule.webhook_url,
+          headers := jsonb_build_object('Content-Type', 'application/json')
+            || CASE WHEN rule.webhook_secret IS NOT NULL THEN jsonb_build_object(
+              'X-Signature-256',
+              'sha256=' || encode(extensions.hmac(payload::text, rule.webhook_secret, 'sha256'), 'hex')
+            ) ELSE '{}'::jsonb END,
+          body := payload
+        );
+      EXCEPTION WHEN OTHERS THEN
+        RAISE WARNING 'Risk alert webhook for rule % failed: %', rule.id, SQLERRM;
+      END;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_risk_escalation
+  AFTER UPDATE OF risk_level, risk_score ON public.students
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_risk_escalation();
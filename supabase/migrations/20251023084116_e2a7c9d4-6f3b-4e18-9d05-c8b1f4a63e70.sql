@@ -0,0 +1,221 @@
+-- Student profile page: a per-student audit trail, and notifications that link to the student
+CREATE TYPE public.audit_action AS ENUM ('insert', 'update');
+
+-- Create student_audit_log table
+CREATE TABLE public.student_audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  action audit_action NOT NULL,
+  -- NULL when the change came from the service role, i.e. an import or a re-score
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Changed fields as {"field": {"old": ..., "new": ...}}
+  changes JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_student_audit_log_student_id_created_at ON public.student_audit_log(student_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.student_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for student_audit_log table; entries are only written by the trigger below
+CREATE POLICY "Users can view audit entries in their departments"
+ON public.student_audit_log
+FOR SELECT
+TO authenticated
+USING (public.can_access_student(student_id));
+
+-- Risk fields are left out: every re-score touches them and risk_assessments already keeps their history
+CREATE OR REPLACE FUNCTION public.log_student_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  ignored_fields CONSTANT text[] := ARRAY['updated_at', 'risk_score', 'risk_level', 'prediction_factors'];
+  changed jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.student_audit_log (student_id, action, changed_by)
+    VALUES (NEW.id, 'insert', auth.uid());
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(new_field.key, jsonb_build_object('old', old_field.value, 'new', new_field.value)), '{}')
+  INTO changed
+  FROM jsonb_each(to_jsonb(NEW)) new_field
+  JOIN jsonb_each(to_jsonb(OLD)) old_field ON old_field.key = new_field.key
+  WHERE new_field.value IS DISTINCT FROM old_field.value
+    AND NOT new_field.key = ANY(ignored_fields);
+
+  IF changed <> '{}'::jsonb THEN
+    INSERT INTO public.student_audit_log (student_id, action, changed_by, changes)
+    VALUES (NEW.id, 'update', auth.uid(), changed);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_student_change
+  AFTER INSERT OR UPDATE ON public.students
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_student_change();
+
+-- Notifications open the student's profile instead of a list page
+CREATE OR REPLACE FUNCTION public.create_follow_up_notifications()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  created_count integer;
+BEGIN
+  INSERT INTO public.notifications (user_id, kind, title, body, link, intervention_note_id, dedupe_key)
+  SELECT
+    p.user_id,
+    'follow_up_due',
+    CASE WHEN n.follow_up_date < current_date
+      THEN 'Overdue follow-up: ' || s.name
+      ELSE 'Follow-up due today: ' || s.name
+    END,
+    initcap(replace(n.intervention_type, '_', ' ')) || ' logged on ' || to_char(n.created_at, 'YYYY-MM-DD')
+      || ', follow up by ' || to_char(n.follow_up_date, 'YYYY-MM-DD'),
+    '/students/' || n.student_id || '?tab=interventions',
+    n.id,
+    'follow_up:' || n.id || ':' || n.follow_up_date
+  FROM public.intervention_notes n
+  JOIN public.students s ON s.id = n.student_id
+  LEFT JOIN public.student_cases c ON c.id = n.case_id
+  JOIN public.profiles p ON p.user_id = COALESCE(n.created_by, c.counsellor_id)
+  WHERE NOT n.completed
+    AND n.follow_up_date <= current_date
+    AND p.deactivated_at IS NULL
+  ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+
+  GET DIAGNOSTICS created_count = ROW_COUNT;
+  RETURN created_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_risk_escalation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  level_rank CONSTANT jsonb := '{"low": 1, "medium": 2, "high": 3}';
+  level_increased boolean := COALESCE((level_rank ->> NEW.risk_level::text)::int, 0)
+    > COALESCE((level_rank ->> OLD.risk_level::text)::int, 0);
+  score_increase numeric := COALESCE(NEW.risk_score, 0) - COALESCE(OLD.risk_score, 0);
+  rule public.risk_alert_rules;
+  matched public.risk_alert_rules[] := '{}';
+  event_id uuid;
+  payload jsonb;
+BEGIN
+  -- A student's first score has nothing to escalate from
+  IF OLD.risk_level IS NULL OR OLD.risk_score IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT level_increased AND score_increase <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  FOR rule IN
+    SELECT * FROM public.risk_alert_rules
+    WHERE enabled
+      AND (cardinality(departments) = 0 OR NEW.department = ANY(departments))
+  LOOP
+    IF (rule.condition = 'entered_high' AND NEW.risk_level = 'high' AND OLD.risk_level IS DISTINCT FROM 'high')
+      OR (rule.condition = 'level_increased' AND level_increased)
+      OR (rule.condition = 'score_jump' AND score_increase > rule.min_score_increase) THEN
+      matched := matched || rule;
+    END IF;
+  END LOOP;
+
+  IF NOT level_increased AND cardinality(matched) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.risk_escalation_events (
+    student_id, department, previous_risk_level, risk_level, previous_risk_score, risk_score, matched_rule_ids
+  )
+  VALUES (
+    NEW.id, NEW.department, OLD.risk_level, NEW.risk_level, OLD.risk_score, NEW.risk_score,
+    ARRAY(SELECT r.id FROM unnest(matched) r)
+  )
+  RETURNING id INTO event_id;
+
+  FOREACH rule IN ARRAY matched LOOP
+    -- Department-scoped roles only hear about their own departments; one notification per person per event
+    INSERT INTO public.notifications (user_id, kind, title, body, link, dedupe_key)
+    SELECT
+      p.user_id,
+      'risk_escalation',
+      'Risk escalated: ' || NEW.name,
+      rule.name || ' · ' || COALESCE(OLD.risk_level::text, 'unscored') || ' → ' || COALESCE(NEW.risk_level::text, 'unscored')
+        || COALESCE(' (' || round(NEW.risk_score * 100) || '%)', '') || ' · ' || NEW.department,
+      '/students/' || NEW.id,
+      'risk_escalation:' || event_id
+    FROM public.profiles p
+    WHERE p.deactivated_at IS NULL
+      AND (
+        p.role = ANY(rule.notify_roles)
+        OR (rule.notify_case_counsellor AND p.user_id IN (
+          SELECT c.counsellor_id FROM public.student_cases c
+          WHERE c.student_id = NEW.id AND c.status NOT IN ('resolved', 'dropped_out')
+        ))
+      )
+      AND (
+        p.role NOT IN ('department_head', 'faculty')
+        OR EXISTS (
+          SELECT 1 FROM public.user_departments ud
+          WHERE ud.user_id = p.user_id AND ud.department = NEW.department
+        )
+      )
+    ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+
+    IF rule.webhook_url IS NOT NULL THEN
+      payload := jsonb_build_object(
+        'event', 'risk.escalated',
+        'eventId', event_id,
+        'rule', jsonb_build_object('id', rule.id, 'name', rule.name, 'condition', rule.condition),
+        'student', jsonb_build_object('id', NEW.id, 'studentId', NEW.student_id, 'name', NEW.name, 'department', NEW.department),
+        'previous', jsonb_build_object('riskLevel', OLD.risk_level, 'riskScore', OLD.risk_score),
+        'current', jsonb_build_object('riskLevel', NEW.risk_level, 'riskScore', NEW.risk_score),
+        'occurredAt', now()
+      );
+
+      -- A broken webhook must never block the score update itself
+      BEGIN
+        PERFORM net.http_post(
+          url := rule.webhook_url,
+          headers := jsonb_build_object('Content-Type', 'application/json')
+            || CASE WHEN rule.webhook_secret IS NOT NULL THEN jsonb_build_object(
+              'X-Signature-256',
+              'sha256=' || encode(extensions.hmac(payload::text, rule.webhook_secret, 'sha256'), 'hex')
+            ) ELSE '{}'::jsonb END,
+          body := payload
+        );
+      EXCEPTION WHEN OTHERS THEN
+        RAISE WARNING 'Risk alert webhook for rule % failed: %', rule.id, SQLERRM;
+      END;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+UPDATE public.notifications n
+SET link = '/students/' || i.student_id || '?tab=interventions'
+FROM public.intervention_notes i
+WHERE n.intervention_note_id = i.id AND n.kind = 'follow_up_due';
+
+UPDATE public.notifications n
+SET link = '/students/' || e.student_id
+FROM public.risk_escalation_events e
+WHERE n.kind = 'risk_escalation' AND n.dedupe_key = 'risk_escalation:' || e.id;